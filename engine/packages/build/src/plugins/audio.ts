@@ -0,0 +1,225 @@
+import chalk from "chalk";
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+
+import { SoundConfig } from "@pixelheart/client";
+
+import { ensurePath, getFileHash } from "../file-utils.js";
+import { BuildContext, BuildPlugin, BuildWatchEvent } from "../plugin.js";
+
+const SOUND_REGEX = /^([a-zA-Z_][a-zA-Z0-9_]*)\.(wav|ogg|mp3|flac|aiff|m4a)$/;
+const SOUND_FORMAT = "mp3";
+// EBU R128 integrated loudness target, so that all sounds play back at a
+// consistent volume relative to each other
+const TARGET_LOUDNESS = -16;
+const TARGET_TRUE_PEAK = -1.5;
+const SAMPLE_RATE = 44100;
+
+export default class AudioPlugin implements BuildPlugin {
+  depends = [];
+
+  #getPaths(ctx: BuildContext) {
+    return {
+      sounds: path.join(ctx.gameAssetPath, "sounds"),
+      output: path.join(ctx.gameOutputPath, "sounds"),
+      soundSrc: path.join(ctx.gameClientPath, "sounds"),
+    };
+  }
+
+  async init(ctx: BuildContext): Promise<boolean> {
+    const paths = this.#getPaths(ctx);
+    if (!existsSync(paths.sounds)) {
+      return false;
+    }
+    try {
+      await run("ffmpeg", ["-version"]);
+      await run("ffprobe", ["-version"]);
+    } catch (err) {
+      ctx.error("audio", "ffmpeg & ffprobe must be installed to build sounds");
+      return false;
+    }
+    await ensurePath(paths.output);
+    await ensurePath(paths.soundSrc);
+    return true;
+  }
+
+  async clean(ctx: BuildContext) {
+    const paths = this.#getPaths(ctx);
+    try {
+      await Promise.all([
+        fs.rm(paths.output, {
+          recursive: true,
+          force: true,
+        }),
+        fs.rm(paths.soundSrc, {
+          recursive: true,
+          force: true,
+        }),
+      ]);
+    } catch (e) {}
+  }
+
+  async build(ctx: BuildContext) {
+    const paths = this.#getPaths(ctx);
+
+    // on first run, check if any sounds are missing or older
+    // than the source and build them
+    const sourceSounds = await fs.readdir(paths.sounds);
+    const destSounds = !ctx.clean ? await fs.readdir(paths.output) : [];
+    for (const src of sourceSounds) {
+      const match = SOUND_REGEX.exec(src);
+      if (!match) {
+        continue;
+      }
+      const dest = destSounds.find((d) => d === `${match[1]}.${SOUND_FORMAT}`);
+      if (
+        // doesn't exist
+        !dest ||
+        // or is older than the source
+        (await fs.stat(path.join(paths.sounds, src))).mtimeMs >
+          (await fs.stat(path.join(paths.output, dest))).mtimeMs
+      ) {
+        await this.#processSound(ctx, src);
+      }
+    }
+  }
+
+  async watch(
+    ctx: BuildContext,
+    subscribe: (
+      path: string,
+      cb: (err: Error | null, events: Array<BuildWatchEvent>) => any,
+    ) => Promise<void>,
+  ) {
+    const paths = this.#getPaths(ctx);
+    await subscribe(paths.sounds, async (_err, events) => {
+      await this.#processSoundEvents(ctx, events);
+    });
+  }
+
+  async #processSoundEvents(ctx: BuildContext, events: Array<BuildWatchEvent>) {
+    const paths = this.#getPaths(ctx);
+    const newOrModified = new Set<string>();
+    const deleted = [];
+    for (let e of events) {
+      const file = path.basename(e.path);
+      // audio editors can create tmp files while saving, so ignore anything
+      // that isn't a supported sound format
+      const match = SOUND_REGEX.exec(file);
+      if (!match) {
+        continue;
+      }
+      switch (e.type) {
+        case "create":
+        case "update":
+          newOrModified.add(file);
+          break;
+
+        case "delete":
+          deleted.push(match[1]);
+          break;
+      }
+    }
+
+    for (const d of deleted) {
+      ctx.log("audio", `Removing sound ${d}...`);
+      await fs.rm(path.join(paths.soundSrc, `${d}.ts`), { force: true });
+      await fs.rm(path.join(paths.output, `${d}.${SOUND_FORMAT}`), {
+        force: true,
+      });
+    }
+
+    for (const nom of newOrModified) {
+      const sound = await this.#processSound(ctx, nom);
+      if (sound) {
+        ctx.emit({ type: "RELOAD_SOUND", sound });
+      }
+    }
+  }
+
+  async #processSound(
+    ctx: BuildContext,
+    file: string,
+  ): Promise<SoundConfig | null> {
+    const paths = this.#getPaths(ctx);
+    const match = SOUND_REGEX.exec(file);
+    if (!match) {
+      ctx.error("audio", `Invalid sound file name: ${file}`);
+      return null;
+    }
+    const name = match[1];
+    ctx.log("audio", `Building sound ${chalk.green(name)}...`);
+
+    const outputPath = path.join(paths.output, `${name}.${SOUND_FORMAT}`);
+    let duration: number;
+    try {
+      await run("ffmpeg", [
+        "-y",
+        "-loglevel",
+        "error",
+        "-i",
+        path.join(paths.sounds, file),
+        "-af",
+        `loudnorm=I=${TARGET_LOUDNESS}:TP=${TARGET_TRUE_PEAK}:LRA=11`,
+        "-ar",
+        `${SAMPLE_RATE}`,
+        "-codec:a",
+        "libmp3lame",
+        "-q:a",
+        ctx.production ? "2" : "5",
+        outputPath,
+      ]);
+      duration = parseFloat(
+        await run("ffprobe", [
+          "-v",
+          "error",
+          "-show_entries",
+          "format=duration",
+          "-of",
+          "default=noprint_wrappers=1:nokey=1",
+          outputPath,
+        ]),
+      );
+    } catch (err: any) {
+      ctx.error("audio", `Failed to build sound ${name}: ${err.message}`);
+      return null;
+    }
+
+    const hash = await getFileHash(outputPath);
+    const config: SoundConfig = {
+      name,
+      url: `/sounds/${name}.${SOUND_FORMAT}?v=${hash}`,
+      duration: isNaN(duration) ? 0 : duration,
+    };
+
+    await fs.writeFile(
+      path.join(paths.soundSrc, `${name}.ts`),
+      `import { type SoundConfig } from "@pixelheart/client";
+const Sound: SoundConfig = ${JSON.stringify(config, null, 2)};
+export default Sound;`,
+    );
+
+    ctx.log("audio", `Completed ${chalk.green(name)}.`);
+    return config;
+  }
+}
+
+function run(command: string, args: Array<string>): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (data) => (stdout += data.toString()));
+    child.stderr.on("data", (data) => (stderr += data.toString()));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout.trim());
+      } else {
+        reject(new Error(stderr.trim() || `${command} exited with ${code}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,264 @@
+import chalk from "chalk";
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+
+import { FontConfig, FontGlyph } from "@pixelheart/client";
+import { loadFontMetadata } from "@pixelheart/server";
+
+import { ensurePath, getFileHash } from "../file-utils.js";
+import { BuildContext, BuildPlugin, BuildWatchEvent } from "../plugin.js";
+
+const FONT_SHEET = "font.png";
+const FONT_METADATA = "metadata.json";
+
+export default class FontPlugin implements BuildPlugin {
+  depends = [];
+
+  #getPaths(ctx: BuildContext) {
+    return {
+      fonts: path.join(ctx.gameAssetPath, "fonts"),
+      output: path.join(ctx.gameOutputPath, "fonts"),
+      fontSrc: path.join(ctx.gameClientPath, "fonts"),
+    };
+  }
+
+  async init(ctx: BuildContext): Promise<boolean> {
+    const paths = this.#getPaths(ctx);
+    if (existsSync(paths.fonts)) {
+      await ensurePath(paths.output);
+      await ensurePath(paths.fontSrc);
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  async clean(ctx: BuildContext) {
+    const paths = this.#getPaths(ctx);
+    try {
+      await Promise.all([
+        fs.rm(paths.output, {
+          recursive: true,
+          force: true,
+        }),
+        fs.rm(paths.fontSrc, {
+          recursive: true,
+          force: true,
+        }),
+      ]);
+    } catch (e) {}
+  }
+
+  async build(ctx: BuildContext) {
+    const paths = this.#getPaths(ctx);
+
+    // on first run, check if any fonts are missing or older
+    // than the source and build them
+    const sourceFonts = await fs.readdir(paths.fonts);
+    const destFonts = !ctx.clean ? await fs.readdir(paths.fontSrc) : [];
+    for (const src of sourceFonts) {
+      const srcPath = path.join(paths.fonts, src);
+      if ((await fs.stat(srcPath)).isFile()) {
+        continue;
+      }
+      const dest = destFonts.find((d) => d === `${src}.ts`);
+      if (
+        // doesn't exist
+        !dest ||
+        // or is older than either the sheet or the metadata
+        Math.max(
+          ...(await Promise.all(
+            [FONT_SHEET, FONT_METADATA].map(async (f) =>
+              existsSync(path.join(srcPath, f))
+                ? (await fs.stat(path.join(srcPath, f))).mtimeMs
+                : 0,
+            ),
+          )),
+        ) > (await fs.stat(path.join(paths.fontSrc, dest))).mtimeMs
+      ) {
+        await this.#processFont(ctx, src);
+      }
+    }
+  }
+
+  async watch(
+    ctx: BuildContext,
+    subscribe: (
+      path: string,
+      cb: (err: Error | null, events: Array<BuildWatchEvent>) => any,
+    ) => Promise<void>,
+  ) {
+    const paths = this.#getPaths(ctx);
+    await subscribe(paths.fonts, async (_err, events) => {
+      await this.#processFontEvents(ctx, events);
+    });
+  }
+
+  async #processFontEvents(ctx: BuildContext, events: Array<BuildWatchEvent>) {
+    const paths = this.#getPaths(ctx);
+
+    const newOrModified = new Set<string>();
+    const deleted = [];
+    for (let e of events) {
+      const components = e.path.substring(paths.fonts.length + 1).split("/");
+      switch (e.type) {
+        case "create":
+        case "update":
+          if (
+            components.length === 1 ||
+            components[1] === FONT_SHEET ||
+            components[1] === FONT_METADATA
+          ) {
+            newOrModified.add(components[0]);
+          }
+          break;
+
+        case "delete":
+          if (components.length === 1) {
+            deleted.push(components[0]);
+          }
+          break;
+      }
+    }
+
+    for (const d of deleted) {
+      ctx.log("font", `Removing font ${d}...`);
+      await fs.rm(path.join(paths.fontSrc, `${d}.ts`), { force: true });
+      await fs.rm(path.join(paths.output, `${d}.png`), { force: true });
+    }
+
+    for (const nom of newOrModified) {
+      const font = await this.#processFont(ctx, nom);
+      if (font) {
+        ctx.emit({ type: "RELOAD_FONT", font });
+      }
+    }
+  }
+
+  async #processFont(
+    ctx: BuildContext,
+    font: string,
+  ): Promise<FontConfig | null> {
+    ctx.log("font", `Building font ${chalk.green(font)}...`);
+
+    const paths = this.#getPaths(ctx);
+    const result = await loadFontMetadata(paths.fonts, font);
+    if (!result.ok) {
+      if (result.errors.length > 0) {
+        ctx.error(
+          "font",
+          `Invalid font metadata: ${result.errors
+            .map((e) => e.message)
+            .join(", ")}`,
+        );
+      } else {
+        ctx.error("font", `Invalid font metadata: invalid JSON`);
+      }
+      return null;
+    }
+    const metadata = result.metadata;
+
+    let sheet: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      sheet = await sharp(path.join(paths.fonts, font, FONT_SHEET))
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    } catch (err: any) {
+      ctx.error("font", `Unable to read font sheet: ${err.toString()}`);
+      return null;
+    }
+    const { width, height, channels } = sheet.info;
+
+    const glyphs: Record<string, FontGlyph> = {};
+    for (const row of metadata.rows) {
+      const chars = Array.from(row.chars);
+      for (let i = 0; i < chars.length; ++i) {
+        const char = chars[i];
+        const cellLeft = row.x + i * row.cellWidth;
+        if (
+          cellLeft + row.cellWidth > width ||
+          row.y + row.cellHeight > height
+        ) {
+          ctx.error(
+            "font",
+            `Glyph ${chalk.green(char)} is outside of the font sheet`,
+          );
+          return null;
+        }
+
+        // trim the glyph to the columns that contain any opaque pixels
+        let left = -1;
+        let right = -1;
+        for (let x = cellLeft; x < cellLeft + row.cellWidth; ++x) {
+          for (let y = row.y; y < row.y + row.cellHeight; ++y) {
+            if (sheet.data[(y * width + x) * channels + 3] > 0) {
+              if (left < 0) {
+                left = x;
+              }
+              right = x + 1;
+              break;
+            }
+          }
+        }
+        if (left < 0) {
+          ctx.error("font", `Glyph ${chalk.green(char)} has no opaque pixels`);
+          return null;
+        }
+
+        // textures are flipped vertically when uploaded, so the texture
+        // coordinates are flipped to match
+        glyphs[char] = {
+          width: right - left,
+          height: row.cellHeight,
+          top: height - row.y,
+          right,
+          bottom: height - (row.y + row.cellHeight),
+          left,
+        };
+      }
+    }
+
+    if (metadata.fallback !== undefined && !glyphs[metadata.fallback]) {
+      ctx.error(
+        "font",
+        `Fallback glyph ${chalk.green(metadata.fallback)} is not in the font`,
+      );
+      return null;
+    }
+
+    const outputPath = path.join(paths.output, `${font}.png`);
+    try {
+      await sharp(sheet.data, { raw: { width, height, channels } })
+        .png({ compressionLevel: ctx.production ? 9 : 6 })
+        .toFile(outputPath);
+    } catch (err: any) {
+      ctx.error("font", `Failed to write font sheet: ${err.toString()}`);
+      return null;
+    }
+
+    const hash = await getFileHash(outputPath);
+    const config: FontConfig = {
+      name: font,
+      url: `/fonts/${font}.png?v=${hash}`,
+      lineHeight: metadata.lineHeight,
+      spaceWidth: metadata.spaceWidth,
+      letterSpacing: metadata.letterSpacing ?? 0,
+      glyphs,
+      kerning: metadata.kerning ?? {},
+      fallback: metadata.fallback ?? null,
+    };
+
+    await fs.writeFile(
+      path.join(paths.fontSrc, `${font}.ts`),
+      `import { type FontConfig } from "@pixelheart/client";
+const Font: FontConfig = ${JSON.stringify(config, null, 2)};
+export default Font;`,
+    );
+
+    ctx.log("font", `Completed ${chalk.green(font)}.`);
+    return config;
+  }
+}
@@ -1,13 +1,25 @@
 import chalk from "chalk";
+import { createHash } from "crypto";
 import { existsSync } from "fs";
 import fs from "fs/promises";
 import path from "path";
 import sharp from "sharp";
 
-import { MapTileSource, encodeMapTile } from "@pixelheart/client";
-import { loadJson, loadMapMetadata } from "@pixelheart/server";
+import {
+  DEFAULT_MAP_CHUNK_SIZE,
+  MAP_TILE_COLLISION_SHAPES,
+  MapTileSource,
+  encodeMapTile,
+} from "@pixelheart/client";
+import {
+  MapLightsSource,
+  loadJson,
+  loadMapLights,
+  loadMapMetadata,
+  loadMapTriggers,
+} from "@pixelheart/server";
 
-import { ensurePath, getFileHash } from "../file-utils.js";
+import { ensurePath } from "../file-utils.js";
 import { BuildContext, BuildPlugin, BuildWatchEvent } from "../plugin.js";
 
 export default class MapPlugin implements BuildPlugin {
@@ -55,18 +67,20 @@ export default class MapPlugin implements BuildPlugin {
     // on first run, check if any maps are missing or older
     // than the source and build them.
     const sourceMaps = await fs.readdir(paths.maps);
-    const destMaps = !ctx.clean ? await fs.readdir(paths.output) : [];
+    // the generated map module is written after all of the map chunks, so
+    // its age is used as the age of the whole map
+    const destMaps = !ctx.clean ? await fs.readdir(paths.mapSrc) : [];
     for (const src of sourceMaps) {
       const srcStat = await fs.stat(path.join(paths.maps, src));
       if (srcStat.isFile()) {
         continue;
       }
-      const dest = destMaps.find((d) => d === `${src}.png`);
+      const dest = destMaps.find((d) => d === `${src}.ts`);
       if (
         // doesn't exist
         !dest ||
         // or is older than the source
-        srcStat.mtimeMs > (await fs.stat(path.join(paths.output, dest))).mtimeMs
+        srcStat.mtimeMs > (await fs.stat(path.join(paths.mapSrc, dest))).mtimeMs
       ) {
         await this.#processMap(ctx, src);
       }
@@ -127,7 +141,12 @@ export default class MapPlugin implements BuildPlugin {
       switch (e.type) {
         case "create":
         case "update":
-          if (components.length === 1 || components[1] === "metadata.json") {
+          if (
+            components.length === 1 ||
+            components[1] === "metadata.json" ||
+            components[1] === "triggers.json" ||
+            components[1] === "lights.json"
+          ) {
             newOrModified.add(components[0]);
           }
           break;
@@ -144,7 +163,10 @@ export default class MapPlugin implements BuildPlugin {
 
     for (const d of deleted) {
       await fs.rm(path.join(paths.mapSrc, `${d}.ts`));
-      await fs.rm(path.join(paths.output, `${d}.png`));
+      await fs.rm(path.join(paths.output, d), {
+        recursive: true,
+        force: true,
+      });
     }
 
     for (const nom of newOrModified) {
@@ -174,11 +196,91 @@ export default class MapPlugin implements BuildPlugin {
 
     ctx.log(
       "map",
-      `Generating ${result.metadata.width}x${
-        result.metadata.height
+      `Generating ${result.metadata.width}x${result.metadata.height}x${
+        result.metadata.layers
       } map using sprite sheet ${chalk.green(result.metadata.spriteSheet)}...`,
     );
 
+    const triggers = await loadMapTriggers(paths.maps, map);
+    if (!triggers.ok) {
+      return ctx.error(
+        "map",
+        `Invalid map triggers: ${
+          triggers.errors.length > 0
+            ? triggers.errors.map((e) => e.message).join(", ")
+            : "invalid JSON"
+        }`,
+      );
+    }
+    for (const [id, trigger] of Object.entries(triggers.triggers)) {
+      // trigger ids are stored in a single byte of each tile & 0 is reserved
+      // for tiles without a trigger
+      const triggerId = Number(id);
+      if (!Number.isInteger(triggerId) || triggerId < 1 || triggerId > 255) {
+        return ctx.error(
+          "map",
+          `Invalid trigger id ${id}, ids must be between 1 and 255`,
+        );
+      }
+      if (trigger.action.type === "warp") {
+        const target =
+          trigger.action.map === map
+            ? result
+            : await loadMapMetadata(paths.maps, trigger.action.map);
+        if (!target.ok) {
+          return ctx.error(
+            "map",
+            `Invalid trigger ${id}: warp target map ${chalk.green(
+              trigger.action.map,
+            )} not found`,
+          );
+        }
+        const { x, y } = trigger.action;
+        if (
+          x < 0 ||
+          x >= target.metadata.width ||
+          y < 0 ||
+          y >= target.metadata.height
+        ) {
+          return ctx.error(
+            "map",
+            `Invalid trigger ${id}: warp target (${x},${y}) is outside of ${chalk.green(
+              trigger.action.map,
+            )}`,
+          );
+        }
+      }
+    }
+
+    const lights = await loadMapLights(paths.maps, map);
+    if (!lights.ok) {
+      return ctx.error(
+        "map",
+        `Invalid map lights: ${
+          lights.errors.length > 0
+            ? lights.errors.map((e) => e.message).join(", ")
+            : "invalid JSON"
+        }`,
+      );
+    }
+    for (const { x, y, light } of lights.lights) {
+      if (
+        x < 0 ||
+        x >= result.metadata.width ||
+        y < 0 ||
+        y >= result.metadata.height
+      ) {
+        return ctx.error(
+          "map",
+          `Invalid light at (${x},${y}): outside of ${chalk.green(map)}`,
+        );
+      }
+      const invalid = getInvalidLightVector(light);
+      if (invalid) {
+        return ctx.error("map", `Invalid light at (${x},${y}): ${invalid}`);
+      }
+    }
+
     const dataPath = path.join(paths.maps, map, "data.json");
     const data = await loadJson(dataPath);
 
@@ -202,68 +304,157 @@ export default class MapPlugin implements BuildPlugin {
       );
     }
 
-    // TODO account for the number of layers in the map
-    const mapBuffer = Buffer.alloc(
-      result.metadata.width * result.metadata.height * 3,
-    );
-    for (let x = 0; x < result.metadata.width; x++) {
-      for (let y = 0; y < result.metadata.height; y++) {
-        if (mapData[x] && mapData[x][y]) {
-          const tile = mapData[x][y][0];
-          if (tile) {
-            const index = spriteRevIndex.data[tile.sprite];
-            if (!index) {
-              return ctx.error(
-                "map",
-                `Invalid sprite at (${x},${y}): ${chalk.green(
-                  result.metadata.spriteSheet,
-                )}:${chalk.blue(tile.sprite)}`,
-              );
-            }
-            encodeMapTile(mapBuffer, (x + y * result.metadata.width) * 3, {
+    // the map is split into square chunks that are each stored in their own
+    // image. Each layer is encoded as its own plane, with the planes stacked
+    // vertically in the chunk image, so layer z occupies the rows
+    // [z * chunkSize, (z + 1) * chunkSize)
+    const { width, height, layers } = result.metadata;
+    const chunkSize = result.metadata.chunkSize ?? DEFAULT_MAP_CHUNK_SIZE;
+    if (layers < 1) {
+      return ctx.error("map", `Invalid layer count: ${layers}`);
+    }
+    if (chunkSize < 1) {
+      return ctx.error("map", `Invalid chunk size: ${chunkSize}`);
+    }
+
+    const chunksX = Math.ceil(width / chunkSize);
+    const chunksY = Math.ceil(height / chunkSize);
+    const chunks: Array<Buffer> = [];
+    for (let i = 0; i < chunksX * chunksY; ++i) {
+      chunks.push(Buffer.alloc(chunkSize * chunkSize * layers * 3));
+    }
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        if (!mapData[x] || !mapData[x][y]) {
+          continue;
+        }
+        for (const z of Object.keys(mapData[x][y])) {
+          const layer = parseInt(z, 10);
+          const tile = mapData[x][y][z];
+          if (!tile) {
+            continue;
+          }
+          if (isNaN(layer) || layer < 0 || layer >= layers) {
+            ctx.warn(
+              "map",
+              `Ignoring tile at (${x},${y}) on layer ${z}, map only has ${layers} layer(s)`,
+            );
+            continue;
+          }
+          // tiles without a sprite can still hold a trigger
+          const index = tile.sprite ? spriteRevIndex.data[tile.sprite] : 0;
+          if (tile.sprite && !index) {
+            return ctx.error(
+              "map",
+              `Invalid sprite at (${x},${y},${layer}): ${chalk.green(
+                result.metadata.spriteSheet,
+              )}:${chalk.blue(tile.sprite)}`,
+            );
+          }
+          if (tile.triggerId && !triggers.triggers[tile.triggerId]) {
+            ctx.warn(
+              "map",
+              `Undefined trigger ${tile.triggerId} at (${x},${y},${layer})`,
+            );
+          }
+          if (
+            tile.collisionShape &&
+            MAP_TILE_COLLISION_SHAPES.indexOf(tile.collisionShape) < 0
+          ) {
+            ctx.warn(
+              "map",
+              `Invalid collision shape at (${x},${y},${layer}): ${tile.collisionShape}, using full`,
+            );
+          }
+          const chunkX = Math.floor(x / chunkSize);
+          const chunkY = Math.floor(y / chunkSize);
+          const localX = x - chunkX * chunkSize;
+          const localY = y - chunkY * chunkSize + layer * chunkSize;
+          encodeMapTile(
+            chunks[chunkY * chunksX + chunkX],
+            (localX + localY * chunkSize) * 3,
+            {
               index,
               triggerId: tile.triggerId,
               walkable: tile.walkable,
               spatialHash: tile.spatialHash,
               animated: tile.animated,
-            });
-          }
+              collisionShape: tile.collisionShape,
+            },
+          );
         }
       }
     }
 
-    const mapPath = path.join(paths.output, `${map}.png`);
-
-    await sharp(mapBuffer, {
-      raw: {
-        width: result.metadata.width,
-        height: result.metadata.height,
-        channels: 3,
-      },
-    })
-      .png()
-      .toFile(mapPath)
-      .then(() => {
-        ctx.log("map", `Completed ${chalk.green(map)}.`);
-      })
-      .catch((err) => {
-        ctx.error("map", `Failed to build ${map}: ${err.toString()}`);
-      });
+    const outputPath = path.join(paths.output, map);
+    await fs.rm(outputPath, { recursive: true, force: true });
+    await ensurePath(outputPath);
 
-    const mapHash = await getFileHash(mapPath);
+    const hash = createHash("sha256");
+    try {
+      for (let chunkY = 0; chunkY < chunksY; ++chunkY) {
+        for (let chunkX = 0; chunkX < chunksX; ++chunkX) {
+          const chunk = chunks[chunkY * chunksX + chunkX];
+          hash.update(chunk);
+          await sharp(chunk, {
+            raw: {
+              width: chunkSize,
+              height: chunkSize * layers,
+              channels: 3,
+            },
+          })
+            .png()
+            .toFile(path.join(outputPath, `${chunkX}_${chunkY}.png`));
+        }
+      }
+    } catch (err: any) {
+      return ctx.error("map", `Failed to build ${map}: ${err.toString()}`);
+    }
+    ctx.log(
+      "map",
+      `Completed ${chalk.green(map)} (${chunksX}x${chunksY} chunks).`,
+    );
+
+    const mapHash = hash.digest("hex");
 
     await fs.writeFile(
       path.join(paths.mapSrc, `${map}.ts`),
       `
+    import { type MapLights, type MapTriggers } from "@pixelheart/client";
     import SpriteSheet from "../sprites/${result.metadata.spriteSheet}.js";
+    const triggers: MapTriggers = ${JSON.stringify(triggers.triggers)};
+    const lights: MapLights = ${JSON.stringify(lights.lights)};
     const Map = {...${JSON.stringify({
       ...result.metadata,
+      chunkSize,
       version: mapHash,
-      url: `/maps/${map}.png?v=${mapHash}`,
+      url: `/maps/${map}`,
       name: map,
     })}, spriteSheet: SpriteSheet,
+    triggers,
+    lights,
     };
 export default Map;`,
     );
   }
 }
+
+// JTD can't describe fixed length arrays, so the length of each vector in a
+// light is checked separately
+function getInvalidLightVector(
+  light: MapLightsSource[number]["light"],
+): string | null {
+  const vectors: Array<[string, Array<number>, number]> = [
+    ["diffuse", light.diffuse, 3],
+  ];
+  if (light.type === "area") {
+    vectors.push(["rect", light.rect, 4]);
+  } else {
+    vectors.push(["position", light.position, 3]);
+  }
+  if (light.type === "spot") {
+    vectors.push(["direction", light.direction, 2]);
+  }
+  const invalid = vectors.find(([_, value, length]) => value.length !== length);
+  return invalid ? `${invalid[0]} must have ${invalid[2]} values` : null;
+}
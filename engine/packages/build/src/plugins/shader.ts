@@ -15,7 +15,7 @@ const INOUT_PARAM_REGEX =
   /^\s*(layout\(\s*location\s*=\s*([0-9]*)\)\s*)?(out|in|uniform)\s+(.*?)\s+(.*?);/;
 const DEFINE_REGEX = /^#\s*define\s+(\w+)\s+([0-9]+)/;
 const CONST_REGEX = /^const\s+\w+\s+(\w+)\s*=\s*([0-9]+);/;
-const NO_MANGLE = ["texture"];
+const NO_MANGLE = ["texture", "texelFetch"];
 
 export default class ShaderPlugin implements BuildPlugin {
   depends = [];
@@ -274,8 +274,7 @@ export default class SpritePlugin implements BuildPlugin {
               g: 0,
               b: 0,
               alpha: 255,
-            },
-            (s) => s.greyscale()
+            }
           ),
         ]);
 
@@ -333,22 +332,20 @@ export default Sheet;`
     sheetType: string,
     sheet: PendingSpriteSheet,
     compositeQueue: Array<OverlayOptions>,
-    background: { r: number; g: number; b: number; alpha: number },
-    additionalProcessing?: (s: sharp.Sharp) => sharp.Sharp
+    background: { r: number; g: number; b: number; alpha: number }
   ): Promise<[string, string]> {
     const paths = this.#getPaths(ctx);
     const urlPath = `${sheet.name}-${sheetType}.${SHEET_FORMAT}`;
     const filePath = path.join(paths.output, urlPath);
-    await (additionalProcessing || ((s) => s))(
-      sharp({
-        create: {
-          width: sheet.width,
-          height: sheet.height,
-          channels: 4,
-          background,
-        },
-      }).composite(compositeQueue)
-    )
+    await sharp({
+      create: {
+        width: sheet.width,
+        height: sheet.height,
+        channels: 4,
+        background,
+      },
+    })
+      .composite(compositeQueue)
       .ensureAlpha()
     [SHEET_FORMAT]({
       compressionLevel: ctx.production ? 9 : 6,
@@ -460,6 +457,13 @@ export default Sheet;`
         )} ${width}x${height} ${t.to - t.from + 1} frame(s)...`
       );
 
+      const nineSlice = getNineSlice(aseFile, t, width, height);
+      if (nineSlice) {
+        ctx.log("sprite",
+          `Using 9-slice ${nineSlice.top},${nineSlice.right},${nineSlice.bottom},${nineSlice.left} for ${chalk.blue(t.name)}`
+        );
+      }
+
       const outputSprite: SpriteConfig = {
         index: 0,
         width,
@@ -470,11 +474,13 @@ export default Sheet;`
           bottom: sheet.height + height,
           right: (i + 1) * width,
         })),
+        ...(nineSlice ? { nineSlice } : {}),
       };
 
       for (let i = 0; i < frameSlice.length; ++i) {
         const f = frameSlice[i];
         let specularLayer: sharp.Sharp | null = null;
+        let heightLayer: sharp.Sharp | null = null;
         let normalLayer: sharp.Sharp | null = null;
         let hasDiffuse = false;
 
@@ -519,6 +525,12 @@ export default Sheet;`
               });
               break;
             case HEIGHT_LAYER:
+              heightLayer = normalizeCell(c, width, height, {
+                r: 0,
+                g: 0,
+                b: 0,
+                alpha: 0,
+              });
               normalLayer = normalizeCell(
                 c,
                 width,
@@ -559,7 +571,10 @@ export default Sheet;`
           });
 
         compositeQueue.specular.push({
-          input: await specularLayer.raw().toBuffer(),
+          input: packSpecularHeight(
+            await specularLayer.raw().toBuffer(),
+            heightLayer ? await heightLayer.raw().toBuffer() : null
+          ),
           top: sheet.height,
           left: width * i,
           blend: "over",
@@ -609,6 +624,67 @@ export default Sheet;`
   }
 }
 
+/**
+ * Gets the 9-slice borders of a tagged sprite from the slices in an Aseprite
+ * file. Only slices with a 9-patch center are used, either the slice with the
+ * same name as the tag or if there is only one slice, that slice.
+ */
+function getNineSlice(
+  aseFile: Aseprite,
+  tag: { name: string; from: number },
+  width: number,
+  height: number
+): SpriteConfig["nineSlice"] | null {
+  const slices = aseFile.slices.filter((s) => s.keys.some((k) => k.patch));
+  const slice =
+    slices.find((s) => s.name === tag.name) ||
+    (slices.length === 1 ? slices[0] : null);
+  if (!slice) {
+    return null;
+  }
+  // slices can change from frame to frame, so use the slice as it is at the
+  // start of the tag
+  const key =
+    slice.keys.filter((k) => k.frameNumber <= tag.from).pop() ||
+    slice.keys[0];
+  if (!key.patch) {
+    return null;
+  }
+  // the patch is relative to the slice bounds, whereas the borders are
+  // relative to the edges of the frame
+  return {
+    top: key.y + key.patch.y,
+    left: key.x + key.patch.x,
+    bottom: height - (key.y + key.patch.y + key.patch.height),
+    right: width - (key.x + key.patch.x + key.patch.width),
+  };
+}
+
+/**
+ * Packs the specular intensity into the red channel & the height into the
+ * green channel of the specular sheet, so that the lighting pass can use the
+ * heights to work out which pixels cast shadows. Sprites without a height
+ * layer are flat & don't cast shadows.
+ */
+function packSpecularHeight(specular: Buffer, height: Buffer | null): Buffer {
+  const packed = Buffer.alloc(specular.length);
+  for (let i = 0; i < specular.length; i += 4) {
+    // the specular intensity is composited over black, and transparent
+    // pixels have a height of 0
+    packed[i] = Math.round(
+      ((specular[i] * 0.2126 +
+        specular[i + 1] * 0.7152 +
+        specular[i + 2] * 0.0722) *
+        specular[i + 3]) /
+        255
+    );
+    packed[i + 1] = height ? Math.min(height[i], height[i + 3]) : 0;
+    packed[i + 2] = 0;
+    packed[i + 3] = 255;
+  }
+  return packed;
+}
+
 function isSpriteSource(p: string): boolean {
   return path.extname(p) === ".png" || path.extname(p) === ".ase";
 }
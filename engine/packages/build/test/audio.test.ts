@@ -0,0 +1,95 @@
+import { spawnSync } from "child_process";
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+
+import { BuildContext } from "../src/plugin.js";
+import AudioPlugin from "../src/plugins/audio.js";
+
+// tests are run from the package directory
+const GAME_ASSETS = path.resolve("../../../game/assets");
+const HAS_FFMPEG = !spawnSync("ffmpeg", ["-version"]).error;
+
+function createContext(
+  root: string,
+  assets: string = GAME_ASSETS,
+): BuildContext & { errors: Array<string> } {
+  const errors: Array<string> = [];
+  return {
+    production: false,
+    clean: true,
+    build: true,
+    watch: false,
+    gamePath: root,
+    gameAssetPath: assets,
+    gameClientPath: path.join(root, "client"),
+    gameBuildPath: path.join(root, "build"),
+    gameEditorClientPath: path.join(root, "editor/client"),
+    gameEditorServerPath: path.join(root, "editor/server"),
+    gameOutputPath: path.join(root, "www"),
+    emit: () => {},
+    log: () => {},
+    warn: () => {},
+    error: (_scope, message) => {
+      errors.push(message);
+    },
+    get errorCount() {
+      return errors.length;
+    },
+    errors,
+  };
+}
+
+describe("AudioPlugin", () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "pixelheart-audio-"));
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("builds the games sounds", { skip: !HAS_FFMPEG }, async () => {
+    const ctx = createContext(root);
+    const plugin = new AudioPlugin();
+    assert.equal(await plugin.init(ctx), true);
+    await plugin.build(ctx);
+    assert.deepEqual(ctx.errors, []);
+
+    assert.ok(existsSync(path.join(ctx.gameOutputPath, "sounds/dialog.mp3")));
+    const config = await fs.readFile(
+      path.join(ctx.gameClientPath, "sounds/dialog.ts"),
+      "utf8",
+    );
+    assert.match(config, /"name": "dialog"/);
+    assert.match(config, /"url": "\/sounds\/dialog\.mp3\?v=[0-9a-f]{64}"/);
+    // the source is 120ms long, but mp3 encoding pads the start & end
+    const duration = parseFloat(/"duration": ([0-9.]+)/.exec(config)![1]);
+    assert.ok(duration >= 0.12 && duration < 0.25, `duration ${duration}`);
+  });
+
+  it("reports an error if ffmpeg isn't installed", async () => {
+    const ctx = createContext(root);
+    const pathEnv = process.env.PATH;
+    process.env.PATH = root;
+    try {
+      assert.equal(await new AudioPlugin().init(ctx), false);
+    } finally {
+      process.env.PATH = pathEnv;
+    }
+    assert.deepEqual(ctx.errors, [
+      "ffmpeg & ffprobe must be installed to build sounds",
+    ]);
+  });
+
+  it("isn't used by games without sounds", async () => {
+    const ctx = createContext(root, path.join(root, "assets"));
+    assert.equal(await new AudioPlugin().init(ctx), false);
+    assert.deepEqual(ctx.errors, []);
+  });
+});
@@ -0,0 +1,330 @@
+import { ReadonlyVec2, vec2 } from "gl-matrix";
+
+import { GameContext } from "./game.js";
+
+export interface SoundConfig {
+  name: string;
+  url: string;
+  // length of the sound in seconds
+  duration: number;
+}
+
+export type AudioBus = "music" | "sfx";
+
+export interface PlaySoundOptions {
+  // defaults to sfx
+  bus?: AudioBus;
+  volume?: number;
+  loop?: boolean;
+  playbackRate?: number;
+  // if set, the sound is panned & attenuated based on its absolute position
+  // relative to the center of the camera
+  position?: ReadonlyVec2;
+  // the distance in pixels from the center of the camera at which a
+  // positional sound can no longer be heard. Defaults to the screen width
+  range?: number;
+}
+
+export interface PlayingSound {
+  readonly sound: SoundConfig;
+  // positional sounds can be moved while they play
+  readonly position: vec2 | null;
+  readonly ended: boolean;
+  // fades out over fadeDuration ms before stopping
+  stop(fadeDuration?: number): void;
+}
+
+function getSoundState(): Map<
+  string,
+  {
+    config: SoundConfig;
+    reloaders: Array<(config: SoundConfig) => void>;
+  }
+> | null {
+  return process.env.NODE_ENV === "development"
+    ? // @ts-ignore
+      window.__PIXELHEART_SOUND_STATE__ ||
+        // @ts-ignore
+        (window.__PIXELHEART_SOUND_STATE__ = new Map())
+    : null;
+}
+
+function registerSound(
+  sound: SoundConfig,
+  reload: (config: SoundConfig) => void,
+) {
+  const devSounds = getSoundState();
+  if (devSounds) {
+    const existing = devSounds.get(sound.name);
+    if (!existing) {
+      devSounds.set(sound.name, { config: sound, reloaders: [reload] });
+    } else {
+      existing.reloaders.push(reload);
+    }
+  }
+}
+
+export function reloadSound(sound: SoundConfig) {
+  const devSounds = getSoundState();
+  if (devSounds) {
+    const existing = devSounds.get(sound.name);
+    if (existing) {
+      // update the config but maintain the same object reference
+      Object.assign(existing.config, sound);
+      for (let reload of existing.reloaders) {
+        reload(sound);
+      }
+    }
+  }
+}
+
+class SoundInstance implements PlayingSound {
+  readonly sound: SoundConfig;
+  readonly position: vec2 | null;
+  readonly range: number | null;
+  readonly gain: GainNode;
+  // positional sounds are attenuated separately from the gain, so that
+  // fading out a sound isn't overridden by the distance attenuation
+  readonly attenuation: GainNode | null;
+  readonly panner: StereoPannerNode | null;
+  readonly options: PlaySoundOptions;
+  source: AudioBufferSourceNode | null;
+  ended: boolean;
+  #context: AudioContext;
+
+  constructor(
+    context: AudioContext,
+    sound: SoundConfig,
+    output: AudioNode,
+    options: PlaySoundOptions,
+  ) {
+    this.#context = context;
+    this.sound = sound;
+    this.options = options;
+    this.position = options.position ? vec2.clone(options.position) : null;
+    this.range = options.range ?? null;
+    this.source = null;
+    this.ended = false;
+    this.gain = context.createGain();
+    this.gain.gain.value = options.volume ?? 1;
+    if (this.position) {
+      this.attenuation = context.createGain();
+      this.panner = context.createStereoPanner();
+      this.gain.connect(this.attenuation).connect(this.panner).connect(output);
+    } else {
+      this.attenuation = null;
+      this.panner = null;
+      this.gain.connect(output);
+    }
+  }
+
+  start(buffer: AudioBuffer) {
+    if (this.ended) {
+      return;
+    }
+    if (this.source) {
+      // the sound was reloaded while playing
+      this.source.onended = null;
+      this.source.stop();
+    }
+    const source = this.#context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = this.options.loop ?? false;
+    source.playbackRate.value = this.options.playbackRate ?? 1;
+    source.connect(this.gain);
+    source.onended = () => this.#end();
+    source.start();
+    this.source = source;
+  }
+
+  stop(fadeDuration: number = 0) {
+    if (this.ended) {
+      return;
+    }
+    if (!this.source) {
+      this.#end();
+    } else if (fadeDuration > 0) {
+      const now = this.#context.currentTime;
+      this.gain.gain.setValueAtTime(this.gain.gain.value, now);
+      this.gain.gain.linearRampToValueAtTime(0, now + fadeDuration / 1000);
+      this.source.stop(now + fadeDuration / 1000);
+    } else {
+      this.source.stop();
+    }
+  }
+
+  #end() {
+    this.ended = true;
+    this.gain.disconnect();
+    this.attenuation?.disconnect();
+    this.panner?.disconnect();
+  }
+}
+
+/**
+ * Plays sounds through separate music & sfx buses using WebAudio. Sounds are
+ * loaded on first use, or ahead of time with load(). Browsers don't allow
+ * audio to play until the user has interacted with the page, so sounds
+ * played before then are silent.
+ */
+export class AudioManager {
+  readonly context: AudioContext;
+  #master: GainNode;
+  #buses: { [K in AudioBus]: GainNode };
+  #buffers: Map<string, Promise<AudioBuffer>>;
+  #playing: Array<SoundInstance>;
+  #music: SoundInstance | null;
+
+  constructor() {
+    this.context = new AudioContext();
+    this.#master = this.context.createGain();
+    this.#master.connect(this.context.destination);
+    this.#buses = {
+      music: this.context.createGain(),
+      sfx: this.context.createGain(),
+    };
+    this.#buses.music.connect(this.#master);
+    this.#buses.sfx.connect(this.#master);
+    this.#buffers = new Map();
+    this.#playing = [];
+    this.#music = null;
+
+    const resume = () => {
+      this.context.resume();
+      window.removeEventListener("pointerdown", resume);
+      window.removeEventListener("keydown", resume);
+    };
+    window.addEventListener("pointerdown", resume);
+    window.addEventListener("keydown", resume);
+  }
+
+  load(sound: SoundConfig): Promise<AudioBuffer> {
+    let buffer = this.#buffers.get(sound.name);
+    if (!buffer) {
+      buffer = this.#loadBuffer(sound.url);
+      // failed loads aren't cached so that they can be retried
+      buffer.catch(() => this.#buffers.delete(sound.name));
+      this.#buffers.set(sound.name, buffer);
+      registerSound(sound, (newSound) => this.#reload(newSound));
+    }
+    return buffer;
+  }
+
+  getVolume(bus: AudioBus | "master"): number {
+    return (bus === "master" ? this.#master : this.#buses[bus]).gain.value;
+  }
+
+  setVolume(bus: AudioBus | "master", volume: number): AudioManager {
+    (bus === "master" ? this.#master : this.#buses[bus]).gain.value = volume;
+    return this;
+  }
+
+  play(sound: SoundConfig, options: PlaySoundOptions = {}): PlayingSound {
+    const instance = new SoundInstance(
+      this.context,
+      sound,
+      this.#buses[options.bus ?? "sfx"],
+      options,
+    );
+    this.#playing.push(instance);
+    this.load(sound).then(
+      (buffer) => instance.start(buffer),
+      (err) => {
+        console.error(`Failed to load sound ${sound.name}: ${err}`);
+        instance.stop();
+      },
+    );
+    return instance;
+  }
+
+  /**
+   * Loops a sound on the music bus, crossfading from any music that is
+   * already playing. Playing the current music again has no effect.
+   */
+  playMusic(
+    sound: SoundConfig,
+    options: { volume?: number; fadeDuration?: number } = {},
+  ): PlayingSound {
+    if (this.#music && !this.#music.ended && this.#music.sound === sound) {
+      return this.#music;
+    }
+    const fadeDuration = options.fadeDuration ?? 1000;
+    this.stopMusic(fadeDuration);
+    const music = this.play(sound, {
+      bus: "music",
+      loop: true,
+      volume: fadeDuration > 0 ? 0 : options.volume,
+    }) as SoundInstance;
+    if (fadeDuration > 0) {
+      const now = this.context.currentTime;
+      music.gain.gain.setValueAtTime(0, now);
+      music.gain.gain.linearRampToValueAtTime(
+        options.volume ?? 1,
+        now + fadeDuration / 1000,
+      );
+    }
+    this.#music = music;
+    return music;
+  }
+
+  stopMusic(fadeDuration: number = 1000) {
+    this.#music?.stop(fadeDuration);
+    this.#music = null;
+  }
+
+  /**
+   * Updates the panning & volume of positional sounds based on where the
+   * camera is. Should be called once per update.
+   */
+  update(ctx: GameContext, camera: { absolutePosition: ReadonlyVec2 }) {
+    const centerX = camera.absolutePosition[0] + ctx.screen.width / 2;
+    const centerY = camera.absolutePosition[1] + ctx.screen.height / 2;
+    for (let i = this.#playing.length - 1; i >= 0; --i) {
+      const instance = this.#playing[i];
+      if (instance.ended) {
+        this.#playing.splice(i, 1);
+        continue;
+      }
+      if (!instance.position || !instance.attenuation || !instance.panner) {
+        continue;
+      }
+      const dx = instance.position[0] - centerX;
+      const dy = instance.position[1] - centerY;
+      const range = instance.range ?? ctx.screen.width;
+      const attenuation = Math.max(0, 1 - Math.sqrt(dx * dx + dy * dy) / range);
+      instance.panner.pan.value = Math.max(
+        -1,
+        Math.min(1, dx / (ctx.screen.width / 2)),
+      );
+      instance.attenuation.gain.value = attenuation;
+    }
+  }
+
+  async #loadBuffer(url: string): Promise<AudioBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return this.context.decodeAudioData(await response.arrayBuffer());
+  }
+
+  #reload(sound: SoundConfig) {
+    const buffer = this.#loadBuffer(sound.url);
+    buffer.then(
+      (b) => {
+        this.#buffers.set(sound.name, buffer);
+        // restart any looping sounds so that the change can be heard
+        for (const instance of this.#playing) {
+          if (
+            instance.sound.name === sound.name &&
+            instance.options.loop &&
+            !instance.ended
+          ) {
+            instance.start(b);
+          }
+        }
+      },
+      (err) => console.error(`Failed to reload sound ${sound.name}: ${err}`),
+    );
+  }
+}
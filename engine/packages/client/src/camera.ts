@@ -0,0 +1,177 @@
+import { ReadonlyVec2, ReadonlyVec4, vec2, vec4 } from "gl-matrix";
+
+import { GameContext } from "./game.js";
+
+export interface CameraOptions {
+  // half the width & height in pixels of the area around the center of the
+  // screen that the follow target can move within without moving the camera
+  deadZone?: ReadonlyVec2;
+  // the time in ms for the camera to cover ~63% of the distance to where it
+  // should be. 0 moves the camera immediately
+  smoothing?: number;
+  // rounds the screen position to whole pixels so that sprites don't shimmer
+  // as the camera moves
+  pixelSnap?: boolean;
+}
+
+interface CameraShake {
+  intensity: number;
+  duration: number;
+  elapsed: number;
+}
+
+/**
+ * Tracks the area of the world that is visible on screen. The camera can
+ * follow a target, is kept within its bounds & can be shaken. The camera can
+ * be passed to any of the coords helpers that take a screen.
+ */
+export class Camera {
+  // the absolute position of the top left of the screen, including any
+  // shake & snapping
+  readonly absolutePosition: vec2;
+  // the absolute position at the center of the screen, excluding any
+  // shake & snapping
+  readonly center: vec2;
+  deadZone: vec2;
+  smoothing: number;
+  pixelSnap: boolean;
+  #target: ReadonlyVec2 | null;
+  #bounds: vec4 | null;
+  #shake: CameraShake | null;
+  #shakeSeed: number;
+
+  constructor(opts?: CameraOptions) {
+    this.absolutePosition = vec2.create();
+    this.center = vec2.create();
+    this.deadZone = opts?.deadZone ? vec2.clone(opts.deadZone) : vec2.create();
+    this.smoothing = opts?.smoothing ?? 0;
+    this.pixelSnap = opts?.pixelSnap ?? true;
+    this.#target = null;
+    this.#bounds = null;
+    this.#shake = null;
+    this.#shakeSeed = 1;
+  }
+
+  /**
+   * Sets the absolute position the camera follows. The position is read on
+   * every update, so it can be the position of an entity.
+   */
+  follow(target: ReadonlyVec2 | null): Camera {
+    this.#target = target;
+    return this;
+  }
+
+  /**
+   * Limits the camera to an absolute [top, right, bottom, left] area, usually
+   * the size of the map. If the area is smaller than the screen then the
+   * camera is centered on it.
+   */
+  setBounds(bounds: ReadonlyVec4 | null): Camera {
+    this.#bounds = bounds ? vec4.clone(bounds) : null;
+    return this;
+  }
+
+  /**
+   * Moves the camera to center on a position immediately, ignoring the dead
+   * zone & smoothing. Useful when the follow target teleports.
+   */
+  jumpTo(ctx: GameContext, position: ReadonlyVec2): Camera {
+    vec2.copy(this.center, position);
+    this.#updatePosition(ctx);
+    return this;
+  }
+
+  /**
+   * Offsets the camera by up to intensity pixels in each direction, easing
+   * off over the duration in ms. Shaking while already shaking uses the
+   * strongest of the two shakes.
+   */
+  shake(intensity: number, duration: number): Camera {
+    if (
+      !this.#shake ||
+      intensity * duration >
+        this.#shake.intensity * (this.#shake.duration - this.#shake.elapsed)
+    ) {
+      this.#shake = { intensity, duration, elapsed: 0 };
+    }
+    return this;
+  }
+
+  get shaking(): boolean {
+    return this.#shake !== null;
+  }
+
+  update(ctx: GameContext, fixedDelta: number) {
+    if (this.#target) {
+      const desired = vec2.clone(this.center);
+      for (let i = 0; i < 2; ++i) {
+        const offset = this.#target[i] - this.center[i];
+        if (offset > this.deadZone[i]) {
+          desired[i] = this.#target[i] - this.deadZone[i];
+        } else if (offset < -this.deadZone[i]) {
+          desired[i] = this.#target[i] + this.deadZone[i];
+        }
+      }
+      const t =
+        this.smoothing > 0 ? 1 - Math.exp(-fixedDelta / this.smoothing) : 1;
+      vec2.lerp(this.center, this.center, desired, t);
+    }
+
+    if (this.#shake) {
+      this.#shake.elapsed += fixedDelta;
+      if (this.#shake.elapsed >= this.#shake.duration) {
+        this.#shake = null;
+      }
+    }
+
+    this.#updatePosition(ctx);
+  }
+
+  #updatePosition(ctx: GameContext) {
+    const halfWidth = ctx.screen.width / 2;
+    const halfHeight = ctx.screen.height / 2;
+
+    if (this.#bounds) {
+      const b = this.#bounds;
+      this.center[0] =
+        b[1] - b[3] < ctx.screen.width
+          ? (b[1] + b[3]) / 2
+          : Math.min(
+              Math.max(this.center[0], b[3] + halfWidth),
+              b[1] - halfWidth,
+            );
+      this.center[1] =
+        b[2] - b[0] < ctx.screen.height
+          ? (b[0] + b[2]) / 2
+          : Math.min(
+              Math.max(this.center[1], b[0] + halfHeight),
+              b[2] - halfHeight,
+            );
+    }
+
+    vec2.set(
+      this.absolutePosition,
+      this.center[0] - halfWidth,
+      this.center[1] - halfHeight,
+    );
+
+    if (this.#shake) {
+      const strength =
+        this.#shake.intensity *
+        (1 - this.#shake.elapsed / this.#shake.duration);
+      this.absolutePosition[0] += strength * (this.#random() * 2 - 1);
+      this.absolutePosition[1] += strength * (this.#random() * 2 - 1);
+    }
+
+    if (this.pixelSnap) {
+      vec2.round(this.absolutePosition, this.absolutePosition);
+    }
+  }
+
+  #random(): number {
+    // a seeded Park-Miller generator rather than Math.random so that replays
+    // of recorded input are deterministic
+    this.#shakeSeed = (this.#shakeSeed * 48271) % 2147483647;
+    return this.#shakeSeed / 2147483647;
+  }
+}
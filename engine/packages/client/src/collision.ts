@@ -0,0 +1,191 @@
+import { ReadonlyVec2, ReadonlyVec4, vec2, vec4 } from "gl-matrix";
+
+import { MapData, MapTileCollisionShape } from "./map.js";
+
+export type CollisionMap = Pick<MapData, "tileSize" | "layers" | "read">;
+
+export interface TileContact {
+  tileX: number;
+  tileY: number;
+  // points away from the tile surface that was hit
+  normal: vec2;
+}
+
+export interface CollisionResult {
+  position: vec2;
+  blockedX: boolean;
+  blockedY: boolean;
+  contacts: Array<TileContact>;
+}
+
+// [top, right, bottom, left] blocking area of each shape as a fraction of
+// the tile size
+const COLLISION_SHAPES: { [K in MapTileCollisionShape]: ReadonlyVec4 } = {
+  full: [0, 1, 1, 0],
+  top: [0, 1, 0.5, 0],
+  bottom: [0.5, 1, 1, 0],
+  left: [0, 0.5, 1, 0],
+  right: [0, 1, 1, 0.5],
+  topLeft: [0, 0.5, 0.5, 0],
+  topRight: [0, 1, 0.5, 0.5],
+  bottomLeft: [0.5, 0.5, 1, 0],
+  bottomRight: [0.5, 1, 1, 0.5],
+};
+
+// tolerance for treating a box as touching a surface, which prevents
+// floating point error from letting boxes slip into tiles they rest against
+const EPSILON = 1e-4;
+
+/**
+ * Returns the areas of a tile that block movement in absolute pixels. A
+ * non-walkable ground tile blocks, as does any non-empty & non-walkable tile
+ * on the layers above it. Tiles outside the map always block.
+ */
+export function getTileColliders(
+  map: CollisionMap,
+  x: number,
+  y: number,
+): Array<vec4> {
+  const colliders: Array<vec4> = [];
+  for (let z = 0; z < map.layers; ++z) {
+    const tile = map.read(x, y, z);
+    if (tile.walkable || (z > 0 && tile.index === 0)) {
+      continue;
+    }
+    const shape = COLLISION_SHAPES[tile.collisionShape ?? "full"];
+    colliders.push(
+      vec4.fromValues(
+        (y + shape[0]) * map.tileSize,
+        (x + shape[1]) * map.tileSize,
+        (y + shape[2]) * map.tileSize,
+        (x + shape[3]) * map.tileSize,
+      ),
+    );
+  }
+  return colliders;
+}
+
+/**
+ * Moves a bounding box through the map, resolving the horizontal movement
+ * before the vertical. Movement along each axis stops at the first blocking
+ * tile in its path, so a box moving diagonally into a wall slides along it
+ * rather than stopping dead.
+ */
+export function moveAndSlide(
+  map: CollisionMap,
+  position: ReadonlyVec2,
+  boundingBox: ReadonlyVec4,
+  movement: ReadonlyVec2,
+): CollisionResult {
+  const result: CollisionResult = {
+    position: vec2.clone(position),
+    blockedX: false,
+    blockedY: false,
+    contacts: [],
+  };
+  result.blockedX = sweepAxis(map, result, boundingBox, movement[0], 0);
+  result.blockedY = sweepAxis(map, result, boundingBox, movement[1], 1);
+  return result;
+}
+
+function sweepAxis(
+  map: CollisionMap,
+  result: CollisionResult,
+  boundingBox: ReadonlyVec4,
+  distance: number,
+  axis: 0 | 1,
+): boolean {
+  if (distance === 0) {
+    return false;
+  }
+
+  const top = result.position[1] + boundingBox[0];
+  const right = result.position[0] + boundingBox[1];
+  const bottom = result.position[1] + boundingBox[2];
+  const left = result.position[0] + boundingBox[3];
+
+  // the leading edge of the box & the edges of the box on the other axis
+  let edge: number, crossMin: number, crossMax: number;
+  if (axis === 0) {
+    edge = distance > 0 ? right : left;
+    crossMin = top;
+    crossMax = bottom;
+  } else {
+    edge = distance > 0 ? bottom : top;
+    crossMin = left;
+    crossMax = right;
+  }
+
+  // the range of tiles covered by the box over the course of the move
+  const swept =
+    axis === 0
+      ? vec4.fromValues(
+          top,
+          Math.max(right, right + distance),
+          bottom,
+          Math.min(left, left + distance),
+        )
+      : vec4.fromValues(
+          Math.min(top, top + distance),
+          right,
+          Math.max(bottom, bottom + distance),
+          left,
+        );
+  const minX = Math.floor(swept[3] / map.tileSize);
+  const maxX = Math.floor((swept[1] - EPSILON) / map.tileSize);
+  const minY = Math.floor(swept[0] / map.tileSize);
+  const maxY = Math.floor((swept[2] - EPSILON) / map.tileSize);
+
+  let allowed = distance;
+  const hits: Array<{ distance: number; contact: TileContact }> = [];
+  for (let y = minY; y <= maxY; ++y) {
+    for (let x = minX; x <= maxX; ++x) {
+      for (const c of getTileColliders(map, x, y)) {
+        const cMin = axis === 0 ? c[3] : c[0];
+        const cMax = axis === 0 ? c[1] : c[2];
+        const cCrossMin = axis === 0 ? c[0] : c[3];
+        const cCrossMax = axis === 0 ? c[2] : c[1];
+        // colliders that only touch the box on the other axis don't block,
+        // otherwise sliding along a wall would snag on every tile seam
+        if (cCrossMin >= crossMax || cCrossMax <= crossMin) {
+          continue;
+        }
+        // colliders behind the leading edge are ignored so that a box that
+        // starts inside a collider is able to move out of it
+        let hit: number;
+        if (distance > 0) {
+          if (cMin < edge - EPSILON) {
+            continue;
+          }
+          hit = Math.max(cMin - edge, 0);
+          if (hit > allowed + EPSILON) {
+            continue;
+          }
+          allowed = Math.min(allowed, hit);
+        } else {
+          if (cMax > edge + EPSILON) {
+            continue;
+          }
+          hit = Math.min(cMax - edge, 0);
+          if (hit < allowed - EPSILON) {
+            continue;
+          }
+          allowed = Math.max(allowed, hit);
+        }
+        const normal = vec2.create();
+        normal[axis] = distance > 0 ? -1 : 1;
+        hits.push({ distance: hit, contact: { tileX: x, tileY: y, normal } });
+      }
+    }
+  }
+
+  result.position[axis] += allowed;
+  let blocked = false;
+  for (const h of hits) {
+    if (Math.abs(h.distance - allowed) <= EPSILON) {
+      result.contacts.push(h.contact);
+      blocked = true;
+    }
+  }
+  return blocked;
+}
@@ -1,4 +1,7 @@
+import { SoundConfig } from "./audio.js";
+import { FontConfig } from "./font.js";
 import { GameContext } from "./game.js";
+import { SaveMigrations } from "./save-store.js";
 import { SpriteSheetConfig } from "./sprite.js";
 
 export interface EditorMutation {
@@ -21,7 +24,9 @@ export type BaseEvents =
   | { type: "RELOAD_MAP"; map: string }
   | { type: "RELOAD_GAME_PLUGIN"; src: string }
   | { type: "RELOAD_SHADER"; shader: string; src: string }
-  | { type: "RELOAD_SPRITESHEET"; spriteSheet: SpriteSheetConfig };
+  | { type: "RELOAD_SPRITESHEET"; spriteSheet: SpriteSheetConfig }
+  | { type: "RELOAD_SOUND"; sound: SoundConfig }
+  | { type: "RELOAD_FONT"; font: FontConfig };
 
 export interface EditorConnection<Actions, Events> {
   send: (data: Actions) => void;
@@ -46,6 +51,7 @@ export interface EditorClient<
   Actions extends EditorMutation,
   Events extends EditorMutation
 > {
+  migrations?: SaveMigrations<PersistentEditorState>;
   onStart(
     ctx: EditorContext<Actions, Events>,
     state: State,
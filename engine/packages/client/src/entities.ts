@@ -0,0 +1,327 @@
+import { ReadonlyVec4, vec2, vec4 } from "gl-matrix";
+
+import { CollisionMap, TileContact, moveAndSlide } from "./collision.js";
+import { GameContext } from "./game.js";
+import { LightSource } from "./lights.js";
+import { Sprite, SpriteAnimator, SpriteEffect } from "./sprite.js";
+
+export type Entity = number;
+
+export interface TransformComponent {
+  // absolute position of the center of the entity in pixels
+  position: vec2;
+}
+
+export interface VelocityComponent {
+  // movement in pixels per fixed update
+  velocity: vec2;
+}
+
+export interface ColliderComponent {
+  // [top, right, bottom, left] offsets in pixels relative to the position
+  boundingBox: vec4;
+  // the map tiles the entity ran into during its last move
+  contacts?: Array<TileContact>;
+}
+
+export interface TriggerComponent {
+  // the map trigger ids the entity is currently overlapping
+  active: Array<number>;
+}
+
+export interface SpriteComponent<T> {
+  sprite: Sprite<T>;
+  frame: number;
+}
+
+export interface AnimatorComponent<T> {
+  animator: SpriteAnimator<T>;
+  // animators only advance frames while playing
+  playing: boolean;
+}
+
+export interface LightComponent {
+  // positioned relative to the entities transform
+  light: LightSource;
+}
+
+/**
+ * The components understood by the engine provided systems. Games can add
+ * their own components by extending this interface.
+ */
+export interface CoreComponents<T> {
+  transform: TransformComponent;
+  velocity: VelocityComponent;
+  collider: ColliderComponent;
+  trigger: TriggerComponent;
+  sprite: SpriteComponent<T>;
+  animator: AnimatorComponent<T>;
+  light: LightComponent;
+}
+
+export interface System<C extends object> {
+  update(world: World<C>, ctx: GameContext, fixedDelta: number): void;
+}
+
+export class World<C extends object> {
+  #nextEntity: Entity;
+  #entities: Set<Entity>;
+  #components: Map<keyof C, Map<Entity, unknown>>;
+  #systems: Array<System<C>>;
+
+  constructor() {
+    this.#nextEntity = 1;
+    this.#entities = new Set();
+    this.#components = new Map();
+    this.#systems = [];
+  }
+
+  create(components: Partial<C> = {}): Entity {
+    const entity = this.#nextEntity++;
+    this.#entities.add(entity);
+    for (const key in components) {
+      this.add(entity, key, components[key] as C[typeof key]);
+    }
+    return entity;
+  }
+
+  destroy(entity: Entity) {
+    this.#entities.delete(entity);
+    for (const store of this.#components.values()) {
+      store.delete(entity);
+    }
+  }
+
+  exists(entity: Entity): boolean {
+    return this.#entities.has(entity);
+  }
+
+  entities(): IterableIterator<Entity> {
+    return this.#entities.values();
+  }
+
+  add<K extends keyof C>(entity: Entity, component: K, value: C[K]): C[K] {
+    if (!this.#entities.has(entity)) {
+      throw new Error(`Entity ${entity} does not exist`);
+    }
+    let store = this.#components.get(component);
+    if (!store) {
+      store = new Map();
+      this.#components.set(component, store);
+    }
+    store.set(entity, value);
+    return value;
+  }
+
+  remove<K extends keyof C>(entity: Entity, component: K) {
+    this.#components.get(component)?.delete(entity);
+  }
+
+  get<K extends keyof C>(entity: Entity, component: K): C[K] | undefined {
+    return this.#components.get(component)?.get(entity) as C[K] | undefined;
+  }
+
+  has<K extends keyof C>(entity: Entity, component: K): boolean {
+    return this.#components.get(component)?.has(entity) ?? false;
+  }
+
+  /**
+   * Iterates over every entity that has all of the given components. It is
+   * safe to add or destroy entities during iteration.
+   */
+  *query<K extends keyof C>(
+    ...components: Array<K>
+  ): IterableIterator<[Entity, Pick<C, K>]> {
+    const stores: Array<Map<Entity, unknown>> = [];
+    for (const component of components) {
+      const store = this.#components.get(component);
+      if (!store) {
+        return;
+      }
+      stores.push(store);
+    }
+    if (!stores.length) {
+      return;
+    }
+
+    // iterate over the smallest store & check the others for membership
+    let smallest = 0;
+    for (let i = 1; i < stores.length; ++i) {
+      if (stores[i].size < stores[smallest].size) {
+        smallest = i;
+      }
+    }
+    for (const entity of [...stores[smallest].keys()]) {
+      const result: Partial<Pick<C, K>> = {};
+      let match = true;
+      for (let i = 0; i < stores.length; ++i) {
+        if (!stores[i].has(entity)) {
+          match = false;
+          break;
+        }
+        result[components[i]] = stores[i].get(entity) as C[K];
+      }
+      if (match) {
+        yield [entity, result as Pick<C, K>];
+      }
+    }
+  }
+
+  addSystem(system: System<C>): World<C> {
+    this.#systems.push(system);
+    return this;
+  }
+
+  /**
+   * Runs all systems in the order they were added
+   */
+  update(ctx: GameContext, fixedDelta: number) {
+    for (const system of this.#systems) {
+      system.update(this, ctx, fixedDelta);
+    }
+  }
+}
+
+/**
+ * Advances the frames of all playing animators
+ */
+export class AnimationSystem<
+  C extends Pick<CoreComponents<any>, "animator">,
+> implements System<C> {
+  update(world: World<C>, _ctx: GameContext, fixedDelta: number) {
+    for (const [_, c] of world.query("animator")) {
+      if (c.animator.playing) {
+        c.animator.animator.tick(fixedDelta);
+      }
+    }
+  }
+}
+
+/**
+ * Moves entities by their velocity. Entities that have a collider slide
+ * along any map tiles that block their movement.
+ */
+export class MovementSystem<
+  C extends Pick<CoreComponents<any>, "transform" | "velocity" | "collider">,
+> implements System<C> {
+  map: CollisionMap | null;
+
+  constructor(map: CollisionMap | null = null) {
+    this.map = map;
+  }
+
+  update(world: World<C>, _ctx: GameContext, _fixedDelta: number) {
+    for (const [entity, c] of world.query("transform", "velocity")) {
+      const collider = world.get(entity, "collider");
+      if (c.velocity.velocity[0] === 0 && c.velocity.velocity[1] === 0) {
+        if (collider) {
+          collider.contacts = [];
+        }
+        continue;
+      }
+      if (!collider || !this.map) {
+        vec2.add(
+          c.transform.position,
+          c.transform.position,
+          c.velocity.velocity,
+        );
+        continue;
+      }
+      const result = moveAndSlide(
+        this.map,
+        c.transform.position,
+        collider.boundingBox,
+        c.velocity.velocity,
+      );
+      vec2.copy(c.transform.position, result.position);
+      collider.contacts = result.contacts;
+    }
+  }
+}
+
+/**
+ * Returns true if the colliders of two entities overlap
+ */
+export function collidersOverlap(
+  a: { transform: TransformComponent; collider: ColliderComponent },
+  b: { transform: TransformComponent; collider: ColliderComponent },
+): boolean {
+  return (
+    a.transform.position[0] + a.collider.boundingBox[3] <
+      b.transform.position[0] + b.collider.boundingBox[1] &&
+    a.transform.position[0] + a.collider.boundingBox[1] >
+      b.transform.position[0] + b.collider.boundingBox[3] &&
+    a.transform.position[1] + a.collider.boundingBox[0] <
+      b.transform.position[1] + b.collider.boundingBox[2] &&
+    a.transform.position[1] + a.collider.boundingBox[2] >
+      b.transform.position[1] + b.collider.boundingBox[0]
+  );
+}
+
+/**
+ * Draws every entity with a transform and either a sprite or an animator.
+ * Entities are drawn from top to bottom so that those lower on the screen
+ * overlap those above them, and are given sort keys in the layer so that
+ * effects that sort sprites also draw them in order with other sprites.
+ */
+export function drawEntities<
+  T,
+  C extends Pick<CoreComponents<T>, "transform" | "sprite" | "animator">,
+>(
+  world: World<C>,
+  effect: SpriteEffect<T>,
+  screen: {
+    absolutePosition: vec2;
+    toScreenSpace: (out: vec4, relativeRect: ReadonlyVec4) => vec4;
+  },
+  layer: number = 0,
+) {
+  const drawables: Array<{
+    position: vec2;
+    sprite: Sprite<T>;
+    frame: number;
+  }> = [];
+  for (const [entity, c] of world.query("transform")) {
+    const animator = world.get(entity, "animator");
+    if (animator) {
+      drawables.push({
+        position: c.transform.position,
+        sprite: animator.animator.getSprite(),
+        frame: animator.animator.frame,
+      });
+    } else {
+      const sprite = world.get(entity, "sprite");
+      if (sprite) {
+        drawables.push({
+          position: c.transform.position,
+          sprite: sprite.sprite,
+          frame: sprite.frame,
+        });
+      }
+    }
+  }
+  drawables.sort((a, b) => a.position[1] - b.position[1]);
+
+  const relative = vec2.create();
+  const rect = vec4.create();
+  for (const d of drawables) {
+    vec2.subtract(relative, d.position, screen.absolutePosition);
+    const halfWidth = d.sprite.width / 2;
+    const halfHeight = d.sprite.height / 2;
+    d.sprite.draw(
+      effect,
+      screen.toScreenSpace(
+        rect,
+        vec4.set(
+          rect,
+          Math.floor(relative[1]) - halfHeight,
+          Math.floor(relative[0]) + halfWidth,
+          Math.floor(relative[1]) + halfHeight,
+          Math.floor(relative[0]) - halfWidth,
+        ),
+      ),
+      d.frame,
+      { sortKey: { layer, y: d.position[1] } },
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { GameContext } from "./game.js";
+import { GPUTexture, loadTextureFromUrl } from "./images.js";
+
+export interface FontGlyph {
+  readonly width: number;
+  readonly height: number;
+  // the position of the glyph in the font texture
+  readonly top: number;
+  readonly right: number;
+  readonly bottom: number;
+  readonly left: number;
+}
+
+export interface FontConfig {
+  name: string;
+  url: string;
+  // the distance in pixels between the tops of consecutive lines
+  lineHeight: number;
+  spaceWidth: number;
+  // the gap in pixels between adjacent glyphs
+  letterSpacing: number;
+  glyphs: Record<string, FontGlyph>;
+  // adjustments in pixels to the letterSpacing between pairs of characters,
+  // keyed by the pair e.g. "To"
+  kerning: Record<string, number>;
+  // the character drawn in place of characters that aren't in the font
+  fallback: string | null;
+}
+
+export interface Font {
+  readonly config: FontConfig;
+  readonly texture: GPUTexture;
+}
+
+export type TextAlign = "left" | "center" | "right";
+
+export interface TextLayoutOptions {
+  // defaults to left
+  align?: TextAlign;
+  // wraps lines at word boundaries so that no line is wider than the width
+  // of the layout. Defaults to true
+  wrap?: boolean;
+}
+
+export interface TextLayoutGlyph {
+  readonly glyph: FontGlyph;
+  // the position of the top left of the glyph relative to the top left of
+  // the layout
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface TextLayout {
+  readonly glyphs: Array<TextLayoutGlyph>;
+  readonly lines: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+function getFontState(): Map<string, FontConfig> | null {
+  return process.env.NODE_ENV === "development"
+    ? // @ts-ignore
+      window.__PIXELHEART_FONT_STATE__ ||
+        // @ts-ignore
+        (window.__PIXELHEART_FONT_STATE__ = new Map())
+    : null;
+}
+
+/**
+ * Updates the glyphs of a loaded font in place. The font texture is reloaded
+ * separately along with the other images using the same url.
+ */
+export function reloadFont(font: FontConfig) {
+  const existing = getFontState()?.get(font.name);
+  if (existing) {
+    Object.assign(existing, font);
+  }
+}
+
+export async function loadFont(
+  ctx: GameContext,
+  config: FontConfig,
+): Promise<Font> {
+  // glyphs are drawn at whole pixel sizes, so they shouldn't be filtered
+  const texture = await loadTextureFromUrl(ctx, config.url, {
+    filter: ctx.gl.NEAREST,
+  });
+  getFontState()?.set(config.name, config);
+  return { config, texture };
+}
+
+export function getGlyph(font: FontConfig, char: string): FontGlyph | null {
+  return (
+    font.glyphs[char] ??
+    (font.fallback !== null ? font.glyphs[font.fallback] : null) ??
+    null
+  );
+}
+
+/**
+ * Lays out text within a box width pixels wide. Lines are broken at newlines
+ * & (if wrapping) at spaces, or within words that are too wide to fit on a
+ * line by themselves. If the width is Infinity then lines are aligned
+ * relative to the widest line.
+ */
+export function layoutText(
+  font: FontConfig,
+  text: string,
+  width: number = Infinity,
+  opts: TextLayoutOptions = {},
+): TextLayout {
+  const wrap = (opts.wrap ?? true) && width !== Infinity;
+  const lines: Array<Array<string>> = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line: Array<string> = [];
+    for (const word of paragraph.split(" ")) {
+      const chars = Array.from(word);
+      const candidate = line.length ? [...line, " ", ...chars] : chars;
+      if (!wrap || !line.length || measureLine(font, candidate) <= width) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = chars;
+      }
+      while (wrap && line.length > 1 && measureLine(font, line) > width) {
+        // break the word at the last character that fits, but always keep
+        // at least one character so that the text can't wrap forever
+        let fits = line.length - 1;
+        while (fits > 1 && measureLine(font, line.slice(0, fits)) > width) {
+          --fits;
+        }
+        lines.push(line.slice(0, fits));
+        line = line.slice(fits);
+      }
+    }
+    lines.push(line);
+  }
+
+  const lineWidths = lines.map((l) => measureLine(font, l));
+  const layoutWidth = width === Infinity ? Math.max(0, ...lineWidths) : width;
+
+  const glyphs: Array<TextLayoutGlyph> = [];
+  lines.forEach((line, i) => {
+    const slack = layoutWidth - lineWidths[i];
+    let x =
+      opts.align === "center"
+        ? Math.floor(slack / 2)
+        : opts.align === "right"
+          ? slack
+          : 0;
+    const y = i * font.lineHeight;
+    line.forEach((char, j) => {
+      const glyph = char === " " ? null : getGlyph(font, char);
+      if (glyph) {
+        glyphs.push({ glyph, x, y });
+      }
+      x += getAdvance(font, char, line[j + 1]);
+    });
+  });
+
+  return {
+    glyphs,
+    lines: lines.length,
+    width: Math.max(0, ...lineWidths),
+    height: lines.length * font.lineHeight,
+  };
+}
+
+export function measureText(
+  font: FontConfig,
+  text: string,
+  width: number = Infinity,
+  opts: TextLayoutOptions = {},
+): { width: number; height: number } {
+  const layout = layoutText(font, text, width, opts);
+  return { width: layout.width, height: layout.height };
+}
+
+function measureLine(font: FontConfig, line: Array<string>): number {
+  let width = 0;
+  for (let i = 0; i < line.length; ++i) {
+    width += getAdvance(font, line[i], line[i + 1]);
+  }
+  return width;
+}
+
+function getAdvance(
+  font: FontConfig,
+  char: string,
+  next: string | undefined,
+): number {
+  const width =
+    char === " " ? font.spaceWidth : (getGlyph(font, char)?.width ?? 0);
+  return next === undefined
+    ? width
+    : width + font.letterSpacing + (font.kerning[char + next] ?? 0);
+}
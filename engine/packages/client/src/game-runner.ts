@@ -1,5 +1,6 @@
 import { ReadonlyVec4, vec2, vec4 } from "gl-matrix";
 
+import { reloadSound } from "./audio.js";
 import {
   BaseActions,
   BaseEvents,
@@ -7,11 +8,30 @@ import {
   EditorClient,
   EditorContext,
 } from "./editor.js";
+import { reloadFont } from "./font.js";
 import { GameClient } from "./game.js";
 import { Quad } from "./geometry.js";
 import { FrameBuffer, GBuffer, reloadShader } from "./gl-utils.js";
 import { ShaderProgram } from "./gl-utils.js";
-import { reloadImage } from "./images.js";
+import {
+  browserAssetLoader,
+  reloadImage,
+  reloadImageUrl,
+} from "./images.js";
+import { InputActionMap } from "./input.js";
+import { applyInputEvent, clearTransientInput } from "./input-events.js";
+import {
+  InputRecorder,
+  InputRecording,
+  InputReplay,
+  createGamepad,
+} from "./input-recording.js";
+import {
+  DEFAULT_SAVE_SLOT,
+  LocalStorageSaveStore,
+  SaveSlots,
+  SaveStore,
+} from "./save-store.js";
 import { reloadSprite } from "./sprite.js";
 
 const QuadVert: {
@@ -66,6 +86,9 @@ interface GameProps<
   container: HTMLElement;
   fixedUpdate: number;
   saveKey: string;
+  // defaults to localStorage
+  saveStore?: SaveStore;
+  saveSlot?: string;
   screen: {
     incrementSize: number;
     preferredWidthIncrements: number;
@@ -81,7 +104,7 @@ interface GameProps<
   > | null;
 }
 
-export default function GameRunner<
+export default async function GameRunner<
   State extends Object,
   PersistentState extends Object,
   EditorState extends Object,
@@ -97,11 +120,11 @@ export default function GameRunner<
     Actions,
     Events
   >
-): {
+): Promise<{
   canvas: HTMLCanvasElement;
   gameState: State;
   editorState: EditorState | null;
-} | null {
+} | null> {
   let game = props.game;
   const editor = props.editor;
   const canvas = document.createElement("canvas");
@@ -124,7 +147,17 @@ export default function GameRunner<
     height: 1,
   };
 
+  const saveStore = props.saveStore ?? new LocalStorageSaveStore();
+  const saveSlot = props.saveSlot ?? DEFAULT_SAVE_SLOT;
+  const gameSaves = new SaveSlots<PersistentState>(saveStore, props.saveKey);
+  const editorSaves = new SaveSlots<PersistentEditorState>(
+    saveStore,
+    `${props.saveKey}-editor`
+  );
+
   let selectedGamepadIndex: number | null = null;
+  let recorder: InputRecorder<PersistentState> | null = null;
+  let replay: InputReplay<PersistentState> | null = null;
 
   const context: EditorContext<Actions, Events> = {
     gl: renderer.gl,
@@ -135,8 +168,14 @@ export default function GameRunner<
       c.height = height;
       return c.getContext("bitmaprenderer") as ImageBitmapRenderingContext;
     },
+    assets: browserAssetLoader,
     canvas,
     getGamepad: () => {
+      if (replay) {
+        return replay.gamepad
+          ? createGamepad(replay.gamepad, replay.tick * props.fixedUpdate)
+          : null;
+      }
       if (selectedGamepadIndex !== null) {
         return navigator.getGamepads()[selectedGamepadIndex];
       }
@@ -156,6 +195,7 @@ export default function GameRunner<
       down: new Map(),
       ended: new Map(),
     },
+    actions: new InputActionMap(),
     screen: {
       get width(): number {
         return contextScreen.width;
@@ -199,124 +239,154 @@ export default function GameRunner<
     selectedGamepadIndex = null;
   });
   window.addEventListener("keydown", (e) => {
-    context.keys.down.add(e.key);
+    if (process.env.NODE_ENV === "development") {
+      if (e.key === "F8") {
+        e.preventDefault();
+        toggleRecording();
+        return;
+      } else if (e.key === "F9") {
+        e.preventDefault();
+        openReplay();
+        return;
+      }
+    }
+    applyInputEvent(context, { type: "keydown", key: e.key }, Date.now());
     if (e.altKey || e.shiftKey || e.ctrlKey) {
       e.preventDefault();
     }
   });
   window.addEventListener("keyup", (e) => {
-    if (context.keys.down.has(e.key)) {
-      context.keys.pressed.add(e.key);
-    }
-    context.keys.down.delete(e.key);
+    applyInputEvent(context, { type: "keyup", key: e.key }, Date.now());
     if (e.altKey || e.shiftKey || e.ctrlKey) {
       e.preventDefault();
     }
   });
   canvas.addEventListener("wheel", (e) => {
     if (e.deltaMode === WheelEvent.DOM_DELTA_PIXEL) {
-      vec2.set(context.mouse.wheel, e.deltaX, e.deltaY);
+      applyInputEvent(
+        context,
+        { type: "wheel", delta: [e.deltaX, e.deltaY] },
+        Date.now()
+      );
     }
   });
-  canvas.addEventListener("mousemove", (e) => {
+  const toScreenPosition = (e: {
+    clientX: number;
+    clientY: number;
+  }): [number, number] => {
     const rect = canvas.getBoundingClientRect();
-    vec2.set(
-      context.mouse.position,
+    return [
       (e.clientX - rect.left) / pixelMultiplier,
-      (e.clientY - rect.top) / pixelMultiplier
+      (e.clientY - rect.top) / pixelMultiplier,
+    ];
+  };
+  canvas.addEventListener("mousemove", (e) => {
+    applyInputEvent(
+      context,
+      { type: "mousemove", position: toScreenPosition(e) },
+      Date.now()
     );
   });
   canvas.addEventListener("mousedown", (e) => {
-    context.mouse.down[e.button] = true;
+    applyInputEvent(
+      context,
+      { type: "mousedown", button: e.button },
+      Date.now()
+    );
   });
   canvas.addEventListener("mouseup", (e) => {
-    if (context.mouse.down[e.button]) {
-      context.mouse.clicked[e.button] = true;
-    }
-    context.mouse.down[e.button] = false;
+    applyInputEvent(context, { type: "mouseup", button: e.button }, Date.now());
   });
   canvas.addEventListener("contextmenu", (e) => {
     e.preventDefault();
   });
   canvas.addEventListener("touchstart", (e) => {
-    const rect = canvas.getBoundingClientRect();
     for (let i = 0; i < e.changedTouches.length; ++i) {
       const touch = e.changedTouches[i];
-      const newTouch = vec2.fromValues(
-        (touch.clientX - rect.left) / pixelMultiplier,
-        (touch.clientY - rect.top) / pixelMultiplier
+      applyInputEvent(
+        context,
+        {
+          type: "touchstart",
+          id: touch.identifier,
+          position: toScreenPosition(touch),
+        },
+        Date.now()
       );
-      if (
-        newTouch[0] >= 0 &&
-        newTouch[1] >= 0 &&
-        newTouch[0] <= context.screen.width &&
-        newTouch[1] <= context.screen.height
-      ) {
-        context.touches.down.set(touch.identifier, {
-          started: Date.now(),
-          position: newTouch,
-        });
-      }
     }
     e.preventDefault();
   });
   canvas.addEventListener("touchmove", (e) => {
-    const rect = canvas.getBoundingClientRect();
     for (let i = 0; i < e.changedTouches.length; ++i) {
       const touch = e.changedTouches[i];
-      const existingTouch = context.touches.down.get(touch.identifier);
-      if (existingTouch) {
-        vec2.set(
-          existingTouch.position,
-          (touch.clientX - rect.left) / pixelMultiplier,
-          (touch.clientY - rect.top) / pixelMultiplier
-        );
-      }
+      applyInputEvent(
+        context,
+        {
+          type: "touchmove",
+          id: touch.identifier,
+          position: toScreenPosition(touch),
+        },
+        Date.now()
+      );
     }
     e.preventDefault();
   });
   canvas.addEventListener("touchend", (e) => {
-    const rect = canvas.getBoundingClientRect();
     for (let i = 0; i < e.changedTouches.length; ++i) {
       const touch = e.changedTouches[i];
-      const existingTouch = context.touches.down.get(touch.identifier);
-      if (existingTouch) {
-        vec2.set(
-          existingTouch.position,
-          (touch.clientX - rect.left) / pixelMultiplier,
-          (touch.clientY - rect.top) / pixelMultiplier
-        );
-        context.touches.down.delete(touch.identifier);
-        context.touches.ended.set(touch.identifier, {
-          position: existingTouch.position,
-        });
-      }
+      applyInputEvent(
+        context,
+        {
+          type: "touchend",
+          id: touch.identifier,
+          position: toScreenPosition(touch),
+        },
+        Date.now()
+      );
     }
     e.preventDefault();
   });
   canvas.addEventListener("touchcancel", (e) => {
     for (let i = 0; i < e.changedTouches.length; ++i) {
       const touch = e.changedTouches[i];
-      const existingTouch = context.touches.down.get(touch.identifier);
-      if (existingTouch) {
-        context.touches.down.delete(touch.identifier);
-      }
+      applyInputEvent(
+        context,
+        { type: "touchcancel", id: touch.identifier },
+        Date.now()
+      );
     }
     e.preventDefault();
   });
 
   let lastTime = performance.now();
 
-  const startup = () => {
-    const saveState = localStorage.getItem(props.saveKey);
-    const editorSaveState = localStorage.getItem(`${props.saveKey}-editor`);
+  const loadSave = async <T>(
+    saves: SaveSlots<T>,
+    slot: string
+  ): Promise<T | undefined> => {
+    try {
+      return await saves.load(slot);
+    } catch (ex) {
+      console.warn(ex);
+      return undefined;
+    }
+  };
+
+  const startup = async (initialState?: PersistentState | null) => {
+    const [saveState, editorSaveState] = await Promise.all([
+      initialState === undefined
+        ? loadSave(gameSaves, saveSlot)
+        : Promise.resolve(initialState ?? undefined),
+      editor ? loadSave(editorSaves, DEFAULT_SAVE_SLOT) : undefined,
+    ]);
     lastTime = performance.now();
 
     const gameState = (() => {
       try {
         return game.onStart(
           context,
-          saveState ? (JSON.parse(saveState) as PersistentState) : undefined
+          saveState && game.migrations
+            ? game.migrations.migrate(saveState)
+            : saveState
         );
       } catch (ex) {
         console.warn(ex);
@@ -332,9 +402,9 @@ export default function GameRunner<
             context,
             gameState,
             props.container,
-            editorSaveState
-              ? (JSON.parse(editorSaveState) as PersistentEditorState)
-              : undefined
+            editorSaveState && editor.migrations
+              ? editor.migrations.migrate(editorSaveState)
+              : editorSaveState
           );
         } catch (ex) {
           console.warn(ex);
@@ -361,6 +431,15 @@ export default function GameRunner<
         reloadSprite(e.spriteSheet);
         break;
       }
+      case "RELOAD_SOUND": {
+        reloadSound(e.sound);
+        break;
+      }
+      case "RELOAD_FONT": {
+        reloadImageUrl(e.font.url);
+        reloadFont(e.font);
+        break;
+      }
       case "RELOAD_STATIC": {
         const links = document.head.querySelectorAll("link");
         for (let l of links) {
@@ -381,16 +460,37 @@ export default function GameRunner<
       }
     }
   });
+  let contextLost = false;
+  const result = {
+    ...(await startup()),
+    canvas,
+  };
+
+  const saveGame = () => {
+    const savedState = game.onSave(result.gameState);
+    if (savedState) {
+      gameSaves.save(saveSlot, savedState).catch((ex) => console.error(ex));
+    }
+  };
+
+  const saveEditor = () => {
+    if (result.editorState && editor) {
+      const savedState = editor.onSave(result.editorState);
+      if (savedState) {
+        editorSaves
+          .save(DEFAULT_SAVE_SLOT, savedState)
+          .catch((ex) => console.error(ex));
+      }
+    }
+  };
+
   if (editor) {
     let v = 1;
     new EventSource("/esbuild").addEventListener("change", (e) => {
       const message = JSON.parse(e.data);
       if (message.updated.find((f: string) => f === "/js/entrypoint.js")) {
         console.log("Saving state before reloading game plugin...");
-        const savedState = game.onSave(result.gameState);
-        if (savedState) {
-          localStorage.setItem(props.saveKey, JSON.stringify(savedState));
-        }
+        saveGame();
         import("/js/entrypoint.js?v=" + v++).then((module) => {
           game = module.createGameClient();
           console.log("Reloaded game plugin.");
@@ -399,30 +499,14 @@ export default function GameRunner<
     });
   }
 
-  let contextLost = false;
-  const result = {
-    ...startup(),
-    canvas,
-  };
-
   canvas.addEventListener(
     "webglcontextlost",
     (e) => {
       e.preventDefault();
       contextLost = true;
       console.warn("WebGL context lost, saving state...");
-      if (result.gameState) {
-        localStorage.setItem(
-          props.saveKey,
-          JSON.stringify(game.onSave(result.gameState))
-        );
-      }
-      if (result.editorState && editor) {
-        localStorage.setItem(
-          `${props.saveKey}-editor`,
-          JSON.stringify(editor.onSave(result.editorState))
-        );
-      }
+      saveGame();
+      saveEditor();
     },
     false
   );
@@ -432,23 +516,88 @@ export default function GameRunner<
       e.preventDefault();
       context.gl = canvas.getContext("webgl2")!;
       console.warn("WebGL context restored, loading state...");
-      // maintain the same object reference, but reload all the properties.
-      // of the state. This is necessary so that the editor can refer to the
-      // new state as we can't pass in a new reference to the editor.
-      Object.keys(result.gameState).forEach((key) => {
-        delete result.gameState[key as keyof State];
+      restart().then(() => {
+        contextLost = false;
       });
-      if (result.editorState) {
-        Object.keys(result.editorState).forEach((key) => {
-          delete result.editorState![key as keyof EditorState];
-        });
-      }
-      Object.assign(result, startup());
-      contextLost = false;
     },
     false
   );
 
+  const restart = async (initialState?: PersistentState | null) => {
+    const state = await startup(initialState);
+    // maintain the same object reference, but reload all the properties.
+    // of the state. This is necessary so that the editor can refer to the
+    // new state as we can't pass in a new reference to the editor.
+    Object.keys(result.gameState).forEach((key) => {
+      delete result.gameState[key as keyof State];
+    });
+    if (result.editorState) {
+      Object.keys(result.editorState).forEach((key) => {
+        delete result.editorState![key as keyof EditorState];
+      });
+    }
+    Object.assign(result, state);
+  };
+
+  const toggleRecording = () => {
+    if (replay) {
+      console.warn("Can't record input while a replay is running");
+      return;
+    }
+    if (recorder) {
+      const recording = recorder.stop();
+      console.log(`Recorded ${recorder.ticks} updates, saving recording...`);
+      recorder = null;
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(
+        new Blob([JSON.stringify(recording)], { type: "application/json" })
+      );
+      link.download = `${props.saveKey}-${Date.now()}.recording.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 0);
+    } else {
+      console.log("Recording input...");
+      recorder = new InputRecorder(
+        props.fixedUpdate,
+        game.onSave(result.gameState)
+      );
+    }
+  };
+
+  const startReplay = (recording: InputRecording<PersistentState>) => {
+    if (recording.fixedUpdate !== props.fixedUpdate) {
+      console.warn(
+        `Recording used a fixed update of ${recording.fixedUpdate}ms, replay may not match`
+      );
+    }
+    const newReplay = new InputReplay(recording);
+    recorder = null;
+    restart(recording.startState).then(() => {
+      console.log("Replaying recorded input...");
+      replay = newReplay;
+      accumulatedTime = 0;
+    });
+  };
+
+  const openReplay = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (file) {
+        file.text().then((text) => {
+          try {
+            startReplay(JSON.parse(text) as InputRecording<PersistentState>);
+          } catch (ex) {
+            console.error(ex);
+          }
+        });
+      }
+    });
+    input.click();
+  };
+
   let currentParent: HTMLElement | null = canvas.parentElement;
 
   let accumulatedTime = 0;
@@ -476,6 +625,19 @@ export default function GameRunner<
       accumulatedTime += frameTime;
 
       while (accumulatedTime >= props.fixedUpdate) {
+        if (replay) {
+          if (game.isReady && !game.isReady(result.gameState)) {
+            // the game keeps updating while it gets ready, but without any
+            // input so that the replay starts from the same point as the
+            // recording did
+            replay.wait(context);
+          } else if (!replay.next(context)) {
+            console.log("Replay finished.");
+            replay = null;
+          }
+        }
+        recorder?.record(context);
+        context.actions.update(context, props.fixedUpdate);
         game.onUpdate(context, result.gameState, props.fixedUpdate);
         if (result.editorState) {
           editor?.onUpdate(
@@ -485,10 +647,7 @@ export default function GameRunner<
             props.fixedUpdate
           );
         }
-        context.mouse.clicked = [];
-        vec2.set(context.mouse.wheel, 0, 0);
-        context.touches.ended.clear();
-        context.keys.pressed.clear();
+        clearTransientInput(context);
         accumulatedTime -= props.fixedUpdate;
       }
 
@@ -528,19 +687,8 @@ export default function GameRunner<
   const handlePersist = () => {
     if (document.visibilityState === "hidden") {
       console.warn("Visibility changing, saving state...");
-      const savedState = game.onSave(result.gameState);
-      if (savedState) {
-        localStorage.setItem(props.saveKey, JSON.stringify(savedState));
-      }
-      if (result.editorState) {
-        const savedState = editor?.onSave(result.editorState);
-        if (savedState) {
-          localStorage.setItem(
-            `${props.saveKey}-editor`,
-            JSON.stringify(savedState)
-          );
-        }
-      }
+      saveGame();
+      saveEditor();
       if (nextFrame) {
         cancelAnimationFrame(nextFrame);
       }
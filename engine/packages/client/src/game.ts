@@ -1,9 +1,14 @@
 import { vec2, vec4, ReadonlyVec4 } from "gl-matrix";
 
+import { AssetLoader } from "./images.js";
+import { InputActionMap } from "./input.js";
+import { SaveMigrations } from "./save-store.js";
+
 export interface GameContext {
   gl: WebGL2RenderingContext;
   canvas: HTMLCanvasElement;
   createRenderTarget: (width: number, height: number) => ImageBitmapRenderingContext;
+  assets: AssetLoader;
   getGamepad: () => Gamepad | null;
   keys: {
     down: Set<string>;
@@ -19,6 +24,7 @@ export interface GameContext {
     down: Map<number, { started: number; position: vec2 }>;
     ended: Map<number, { position: vec2 }>;
   };
+  actions: InputActionMap;
   screen: {
     width: number;
     height: number;
@@ -32,8 +38,15 @@ export interface GameContext {
 }
 
 export interface GameClient<State, PersistentState> {
+  // if provided, saves from older versions are upgraded before being passed
+  // to onStart
+  migrations?: SaveMigrations<PersistentState>;
   onStart(ctx: GameContext, previousState?: PersistentState): State;
   onSave(state: State): PersistentState | null;
   onUpdate(ctx: GameContext, state: State, fixedDelta: number): void;
   onDraw(ctx: GameContext, state: State, delta: number): void;
+  // if implemented, replays will not begin until this returns true so that
+  // any asynchronously loaded resources are available from the first update.
+  // The game is still updated without any input until then
+  isReady?(state: State): boolean;
 }
@@ -297,9 +297,12 @@ export class ShaderProgram<
   }
 
   use(scope: (program: ShaderProgram<TVert, TFrag>) => void): void {
+    // restore whatever program was previously in use so that programs can be
+    // used within the scope of another program
+    const previous = this.#gl.getParameter(this.#gl.CURRENT_PROGRAM);
     this.#gl.useProgram(this.#program);
     scope(this);
-    this.#gl.useProgram(null);
+    this.#gl.useProgram(previous);
   }
 
   setUniforms(
@@ -507,7 +510,7 @@ export class InstanceBuffer<TVertParams extends ShaderSource, T> {
   }
 }
 
-type TextureFormat = {
+export type TextureFormat = {
   internalFormat: number,
   format: number,
   type: number,
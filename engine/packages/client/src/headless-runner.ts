@@ -0,0 +1,390 @@
+import { ReadonlyVec4, vec2, vec4 } from "gl-matrix";
+
+import { GameClient, GameContext } from "./game.js";
+import { AssetLoader } from "./images.js";
+import {
+  InputEvent,
+  applyInputEvent,
+  clearTransientInput,
+} from "./input-events.js";
+import {
+  InputRecording,
+  InputReplay,
+  createGamepad,
+} from "./input-recording.js";
+import { InputActionMap } from "./input.js";
+
+export interface ScheduledInputEvent {
+  // the fixed update tick before which the event is applied
+  tick: number;
+  event: InputEvent;
+}
+
+export interface HeadlessGamepadState {
+  buttons: Array<number>;
+  axes: Array<number>;
+}
+
+interface HeadlessGameProps<State, PersistentState> {
+  game: GameClient<State, PersistentState>;
+  fixedUpdate: number;
+  screen: {
+    width: number;
+    height: number;
+  };
+  previousState?: PersistentState;
+  // fetch & Image aren't available outside of the browser, so any assets the
+  // game loads have to be supplied by the test
+  assets?: AssetLoader;
+  input?: Array<ScheduledInputEvent>;
+  // replays a recording captured by the GameRunner, starting from the
+  // recordings saved state rather than previousState
+  replay?: InputRecording<PersistentState>;
+}
+
+const NO_ASSETS: AssetLoader = {
+  loadImage: (url) =>
+    Promise.reject(new Error(`No asset loader was provided to load ${url}`)),
+  loadImageData: (url) =>
+    Promise.reject(new Error(`No asset loader was provided to load ${url}`)),
+};
+
+/**
+ * Runs a GameClient without a browser. The simulation is driven by explicit
+ * calls to step() using a fixed timestep, input is supplied by a scripted
+ * timeline & rendering calls go to a stub WebGL context that does nothing.
+ *
+ * Like the GameRunner, games that implement isReady are updated without any
+ * input until they are ready. Those updates don't count as ticks, so scripted
+ * input & replays always start from the first update after the game is ready.
+ */
+export class HeadlessGameRunner<State, PersistentState> {
+  readonly context: GameContext;
+  readonly game: GameClient<State, PersistentState>;
+  readonly state: State;
+  #fixedUpdate: number;
+  #input: Array<ScheduledInputEvent>;
+  #gamepad: HeadlessGamepadState | null;
+  #replay: InputReplay<PersistentState> | null;
+  // the number of updates run since the game was ready
+  tick: number;
+  time: number;
+
+  constructor(props: HeadlessGameProps<State, PersistentState>) {
+    this.game = props.game;
+    this.#fixedUpdate = props.fixedUpdate;
+    this.#input = [];
+    this.#gamepad = null;
+    this.#replay = props.replay ? new InputReplay(props.replay) : null;
+    this.tick = 0;
+    this.time = 0;
+
+    const screen = props.screen;
+    const canvas = {
+      width: screen.width,
+      height: screen.height,
+      style: {},
+    } as unknown as HTMLCanvasElement;
+
+    this.context = {
+      gl: createStubGL(),
+      canvas,
+      createRenderTarget: (width: number, height: number) =>
+        ({
+          canvas: { width, height },
+          transferFromImageBitmap: () => {},
+        }) as unknown as ImageBitmapRenderingContext,
+      assets: props.assets ?? NO_ASSETS,
+      getGamepad: () => {
+        if (this.#replay) {
+          return this.#replay.gamepad
+            ? createGamepad(this.#replay.gamepad, this.time)
+            : null;
+        }
+        return this.#gamepad ? this.#createGamepad() : null;
+      },
+      keys: {
+        down: new Set<string>(),
+        pressed: new Set<string>(),
+      },
+      mouse: {
+        position: vec2.create(),
+        wheel: vec2.create(),
+        down: [],
+        clicked: [],
+      },
+      touches: {
+        down: new Map(),
+        ended: new Map(),
+      },
+      actions: new InputActionMap(),
+      screen: {
+        width: screen.width,
+        height: screen.height,
+        safeArea: {
+          width: screen.width,
+          height: screen.height,
+          boundingRect: vec4.fromValues(0, screen.width, screen.height, 0),
+        },
+        toScreenSpace: (out: vec4, relativeRect: ReadonlyVec4) =>
+          vec4.set(
+            out,
+            relativeRect[0] / screen.height,
+            relativeRect[1] / screen.width,
+            relativeRect[2] / screen.height,
+            relativeRect[3] / screen.width,
+          ),
+      },
+    };
+
+    if (props.input) {
+      for (const e of props.input) {
+        this.schedule(e.event, e.tick);
+      }
+    }
+    const previousState = props.replay
+      ? (props.replay.startState ?? undefined)
+      : props.previousState;
+    this.state = this.game.onStart(
+      this.context,
+      previousState && this.game.migrations
+        ? this.game.migrations.migrate(previousState)
+        : previousState,
+    );
+  }
+
+  /**
+   * Adds an event to the input timeline. If no tick is given, the event is
+   * applied before the next update.
+   */
+  schedule(
+    event: InputEvent,
+    tick?: number,
+  ): HeadlessGameRunner<State, PersistentState> {
+    const scheduled = { tick: tick ?? this.tick, event };
+    // keep the timeline sorted, but preserve the order of events that are
+    // scheduled for the same tick
+    let index = this.#input.length;
+    while (index > 0 && this.#input[index - 1].tick > scheduled.tick) {
+      --index;
+    }
+    this.#input.splice(index, 0, scheduled);
+    return this;
+  }
+
+  /**
+   * Sets the state of the simulated gamepad, or disconnects it if null
+   */
+  setGamepad(gamepad: HeadlessGamepadState | null) {
+    this.#gamepad = gamepad
+      ? { buttons: [...gamepad.buttons], axes: [...gamepad.axes] }
+      : null;
+  }
+
+  get ready(): boolean {
+    return !this.game.isReady || this.game.isReady(this.state);
+  }
+
+  /**
+   * Runs a number of fixed updates, applying any scheduled input events
+   * before each one. If the game isn't ready, the update is run without any
+   * input & the tick isn't advanced
+   */
+  step(ticks: number = 1): HeadlessGameRunner<State, PersistentState> {
+    for (let i = 0; i < ticks; ++i) {
+      const ready = this.ready;
+      if (!ready) {
+        this.#replay?.wait(this.context);
+      } else if (this.#replay && !this.#replay.next(this.context)) {
+        this.#replay = null;
+      }
+      while (ready && this.#input.length && this.#input[0].tick <= this.tick) {
+        applyInputEvent(this.context, this.#input.shift()!.event, this.time);
+      }
+      this.context.actions.update(this.context, this.#fixedUpdate);
+      this.game.onUpdate(this.context, this.state, this.#fixedUpdate);
+      clearTransientInput(this.context);
+      if (ready) {
+        ++this.tick;
+      }
+      this.time += this.#fixedUpdate;
+    }
+    return this;
+  }
+
+  /**
+   * Steps until the game is ready, returning the number of updates that were
+   * run. Assets are loaded asynchronously, so pending promises are given a
+   * chance to settle between each update. Throws if the game isn't ready
+   * within maxUpdates
+   */
+  async stepUntilReady(maxUpdates: number): Promise<number> {
+    let updates = 0;
+    while (!this.ready) {
+      if (updates++ >= maxUpdates) {
+        throw new Error(`Game not ready after ${maxUpdates} updates`);
+      }
+      this.step();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return updates;
+  }
+
+  /**
+   * Steps until the predicate returns true, returning the number of ticks
+   * that were run. Throws if the predicate isn't satisfied within maxTicks
+   */
+  stepUntil(predicate: (state: State) => boolean, maxTicks: number): number {
+    let ticks = 0;
+    while (!predicate(this.state)) {
+      if (ticks++ >= maxTicks) {
+        throw new Error(`Condition not met after ${maxTicks} ticks`);
+      }
+      this.step();
+    }
+    return ticks;
+  }
+
+  /**
+   * True while there are recorded updates from a replay left to run
+   */
+  get replaying(): boolean {
+    return this.#replay !== null && !this.#replay.finished;
+  }
+
+  draw(delta: number = this.#fixedUpdate) {
+    this.game.onDraw(this.context, this.state, delta);
+  }
+
+  save(): PersistentState | null {
+    return this.game.onSave(this.state);
+  }
+
+  #createGamepad(): Gamepad {
+    return createGamepad(
+      {
+        buttons: this.#gamepad!.buttons.map((value) => ({
+          pressed: value > 0.5,
+          value,
+        })),
+        axes: this.#gamepad!.axes,
+      },
+      this.time,
+    );
+  }
+}
+
+/**
+ * Creates a WebGL2 context that accepts all calls but renders nothing. Shader
+ * sources are scanned for their attributes & uniforms so that ShaderProgram
+ * and InstanceBuffer see the same metadata as they would with a real context.
+ */
+export function createStubGL(): WebGL2RenderingContext {
+  const constants = new Map<string, number>();
+  const shaders = new Map<unknown, string>();
+  const programs = new Map<
+    unknown,
+    {
+      attributes: Array<string>;
+      uniforms: Array<string>;
+      shaders: Array<unknown>;
+    }
+  >();
+
+  const constant = (name: string): number => {
+    let value = constants.get(name);
+    if (value === undefined) {
+      value = constants.size + 1;
+      constants.set(name, value);
+    }
+    return value;
+  };
+
+  const methods: { [key: string]: (...args: Array<unknown>) => unknown } = {
+    isContextLost: () => false,
+    getExtension: () => ({}),
+    getParameter: (pname) =>
+      pname === constant("VIEWPORT") ? new Int32Array(4) : null,
+    checkFramebufferStatus: () => constant("FRAMEBUFFER_COMPLETE"),
+    createShader: () => ({}),
+    shaderSource: (shader, src) => {
+      shaders.set(shader, src as string);
+    },
+    getShaderParameter: () => true,
+    getShaderInfoLog: () => "",
+    createProgram: () => {
+      const program = {};
+      programs.set(program, { attributes: [], uniforms: [], shaders: [] });
+      return program;
+    },
+    attachShader: (program, shader) => {
+      programs.get(program)?.shaders.push(shader);
+    },
+    linkProgram: (program) => {
+      const p = programs.get(program);
+      if (!p) {
+        return;
+      }
+      p.attributes = [];
+      p.uniforms = [];
+      for (const shader of p.shaders) {
+        const src = shaders.get(shader) ?? "";
+        const isVertex = /gl_Position/.test(src);
+        for (const match of src.matchAll(
+          /(?:^|;)\s*(?:layout\s*\([^)]*\)\s*)?(in|uniform)\s+(?:(?:lowp|mediump|highp)\s+)?\w+\s+(\w+)/gm,
+        )) {
+          if (match[1] === "uniform") {
+            if (p.uniforms.indexOf(match[2]) < 0) {
+              p.uniforms.push(match[2]);
+            }
+          } else if (isVertex) {
+            p.attributes.push(match[2]);
+          }
+        }
+      }
+    },
+    getProgramParameter: (program, pname) => {
+      const p = programs.get(program);
+      if (pname === constant("ACTIVE_ATTRIBUTES")) {
+        return p ? p.attributes.length : 0;
+      } else if (pname === constant("ACTIVE_UNIFORMS")) {
+        return p ? p.uniforms.length : 0;
+      }
+      return true;
+    },
+    getProgramInfoLog: () => "",
+    getActiveAttrib: (program, index) => {
+      const name = programs.get(program)?.attributes[index as number];
+      return name ? { name, size: 1, type: 0 } : null;
+    },
+    getActiveUniform: (program, index) => {
+      const name = programs.get(program)?.uniforms[index as number];
+      return name ? { name, size: 1, type: 0 } : null;
+    },
+    getAttribLocation: (program, name) =>
+      programs.get(program)?.attributes.indexOf(name as string) ?? -1,
+    getFragDataLocation: () => 0,
+    getUniformLocation: () => ({}),
+  };
+
+  return new Proxy({} as WebGL2RenderingContext, {
+    get(_, prop) {
+      if (typeof prop !== "string") {
+        return undefined;
+      }
+      if (prop in methods) {
+        return methods[prop];
+      }
+      if (/^[A-Z0-9_]+$/.test(prop)) {
+        return constant(prop);
+      }
+      if (prop.startsWith("create")) {
+        return () => ({});
+      }
+      if (prop === "drawingBufferWidth" || prop === "drawingBufferHeight") {
+        return 1;
+      }
+      return () => {};
+    },
+  });
+}
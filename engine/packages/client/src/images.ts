@@ -13,6 +13,21 @@ export interface CPUReadableTexture extends GPUTexture {
   image: HTMLImageElement;
 }
 
+/**
+ * Loads the images that textures & map data are created from. The GameRunner
+ * loads them through the browser, but runners without a DOM (such as the
+ * HeadlessGameRunner) have to supply their own
+ */
+export interface AssetLoader {
+  loadImage(url: string): Promise<HTMLImageElement>;
+  loadImageData(url: string): Promise<ImageData>;
+}
+
+export const browserAssetLoader: AssetLoader = {
+  loadImage: (url) => loadImageFromUrl(url),
+  loadImageData: (url) => loadImageDataFromUrl(url),
+};
+
 function getImageState(): Map<string, Array<(newUrl: string) => void>> | null {
   return process.env.NODE_ENV === "development"
     ? // @ts-ignore
@@ -37,17 +52,20 @@ function registerImage(url: string, reload: (newUrl: string) => void) {
 }
 
 export function reloadImage(spriteSheet: SpriteSheetConfig) {
+  for (let u of Object.values(spriteSheet.urls)) {
+    reloadImageUrl(u);
+  }
+}
+
+export function reloadImageUrl(url: string) {
   const devImages = getImageState();
   if (devImages) {
-    const urls = Object.values(spriteSheet.urls);
-    for (let u of urls) {
-      const index = u.indexOf("?v=");
-      const urlKey = u.substring(0, index);
-      const images = devImages.get(urlKey);
-      if (images) {
-        for (let reload of images) {
-          reload(u);
-        }
+    const index = url.indexOf("?v=");
+    const urlKey = url.substring(0, index);
+    const images = devImages.get(urlKey);
+    if (images) {
+      for (let reload of images) {
+        reload(url);
       }
     }
   }
@@ -61,7 +79,7 @@ export async function loadTextureFromUrl(
     wrap?: number;
   }
 ): Promise<GPUTexture> {
-  const image = await loadImageFromUrl(url);
+  const image = await ctx.assets.loadImage(url);
   const value = {
     [TEXTURE]: loadTextureFromImage(ctx, image, opts),
     width: image.width,
@@ -69,7 +87,7 @@ export async function loadTextureFromUrl(
   };
 
   registerImage(url, (newUrl: string) => {
-    loadImageFromUrl(newUrl).then((image) => {
+    ctx.assets.loadImage(newUrl).then((image) => {
       value[TEXTURE] = loadTextureFromImage(ctx, image, opts);
       value.width = image.width;
       value.height = image.height;
@@ -86,7 +104,7 @@ export async function loadCPUReadableTextureFromUrl(
     wrap?: number;
   }
 ): Promise<CPUReadableTexture> {
-  const image = await loadImageFromUrl(url);
+  const image = await ctx.assets.loadImage(url);
   const value = {
     image,
     [TEXTURE]: loadTextureFromImage(ctx, image, opts),
@@ -95,7 +113,7 @@ export async function loadCPUReadableTextureFromUrl(
   };
 
   registerImage(url, (newUrl: string) => {
-    loadImageFromUrl(newUrl).then((image) => {
+    ctx.assets.loadImage(newUrl).then((image) => {
       value.image = image;
       value[TEXTURE] = loadTextureFromImage(ctx, image, opts);
       value.width = image.width;
@@ -105,6 +123,22 @@ export async function loadCPUReadableTextureFromUrl(
   return value;
 }
 
+/**
+ * Loads an image and reads back all of its pixel data, for images that are
+ * only ever read on the CPU
+ */
+export async function loadImageDataFromUrl(url: string): Promise<ImageData> {
+  const image = await loadImageFromUrl(url);
+  const offscreen = new OffscreenCanvas(image.width, image.height).getContext(
+    "2d",
+    {
+      willReadFrequently: true,
+    }
+  ) as unknown as CanvasRenderingContext2D;
+  offscreen.drawImage(image, 0, 0, image.width, image.height);
+  return offscreen.getImageData(0, 0, image.width, image.height);
+}
+
 function loadImageFromUrl(url: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
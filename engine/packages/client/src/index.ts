@@ -1,10 +1,25 @@
 export * from "./game.js";
 export * from "./editor.js";
+export * from "./audio.js";
+export * from "./camera.js";
+export * from "./collision.js";
+export * from "./entities.js";
+export * from "./font.js";
+export * from "./input.js";
+export * from "./input-events.js";
+export * from "./input-recording.js";
+export * from "./lights.js";
+export * from "./headless-runner.js";
 export * from "./map.js";
+export * from "./map-manager.js";
+export * from "./particles.js";
 export * from "./sprite.js";
+export * from "./triggers.js";
+export * from "./ui.js";
 export * from "./geometry.js";
 export * from "./gl-utils.js";
 export * from "./images.js";
 export * as coords from "./coordinates.js";
 export * as math from "./math.js";
 export * from "./resource-loader.js";
+export * from "./save-store.js";
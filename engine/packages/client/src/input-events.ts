@@ -0,0 +1,100 @@
+import { vec2 } from "gl-matrix";
+
+import { GameContext } from "./game.js";
+
+/**
+ * Raw input events in game screen coordinates. The browser runner translates
+ * DOM events into these, while headless runners can script them directly.
+ */
+export type InputEvent =
+  | { type: "keydown"; key: string }
+  | { type: "keyup"; key: string }
+  | { type: "mousemove"; position: [number, number] }
+  | { type: "mousedown"; button: number }
+  | { type: "mouseup"; button: number }
+  | { type: "wheel"; delta: [number, number] }
+  | { type: "touchstart"; id: number; position: [number, number] }
+  | { type: "touchmove"; id: number; position: [number, number] }
+  | { type: "touchend"; id: number; position: [number, number] }
+  | { type: "touchcancel"; id: number };
+
+/**
+ * Applies an input event to the context keys/mouse/touches state. `now` is the
+ * time used to stamp the start of new touches.
+ */
+export function applyInputEvent(
+  ctx: GameContext,
+  event: InputEvent,
+  now: number,
+) {
+  switch (event.type) {
+    case "keydown":
+      ctx.keys.down.add(event.key);
+      break;
+    case "keyup":
+      if (ctx.keys.down.has(event.key)) {
+        ctx.keys.pressed.add(event.key);
+      }
+      ctx.keys.down.delete(event.key);
+      break;
+    case "mousemove":
+      vec2.set(ctx.mouse.position, event.position[0], event.position[1]);
+      break;
+    case "mousedown":
+      ctx.mouse.down[event.button] = true;
+      break;
+    case "mouseup":
+      if (ctx.mouse.down[event.button]) {
+        ctx.mouse.clicked[event.button] = true;
+      }
+      ctx.mouse.down[event.button] = false;
+      break;
+    case "wheel":
+      vec2.set(ctx.mouse.wheel, event.delta[0], event.delta[1]);
+      break;
+    case "touchstart":
+      if (
+        event.position[0] >= 0 &&
+        event.position[1] >= 0 &&
+        event.position[0] <= ctx.screen.width &&
+        event.position[1] <= ctx.screen.height
+      ) {
+        ctx.touches.down.set(event.id, {
+          started: now,
+          position: vec2.fromValues(event.position[0], event.position[1]),
+        });
+      }
+      break;
+    case "touchmove": {
+      const existingTouch = ctx.touches.down.get(event.id);
+      if (existingTouch) {
+        vec2.set(existingTouch.position, event.position[0], event.position[1]);
+      }
+      break;
+    }
+    case "touchend": {
+      const existingTouch = ctx.touches.down.get(event.id);
+      if (existingTouch) {
+        vec2.set(existingTouch.position, event.position[0], event.position[1]);
+        ctx.touches.down.delete(event.id);
+        ctx.touches.ended.set(event.id, {
+          position: existingTouch.position,
+        });
+      }
+      break;
+    }
+    case "touchcancel":
+      ctx.touches.down.delete(event.id);
+      break;
+  }
+}
+
+/**
+ * Clears all the input state that only lasts for a single fixed update
+ */
+export function clearTransientInput(ctx: GameContext) {
+  ctx.mouse.clicked = [];
+  vec2.set(ctx.mouse.wheel, 0, 0);
+  ctx.touches.ended.clear();
+  ctx.keys.pressed.clear();
+}
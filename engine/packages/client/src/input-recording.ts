@@ -0,0 +1,239 @@
+import { vec2 } from "gl-matrix";
+
+import { GameContext } from "./game.js";
+
+const CURRENT_RECORDING_VERSION = 1;
+
+export interface GamepadSnapshot {
+  buttons: Array<{ pressed: boolean; value: number }>;
+  axes: Array<number>;
+}
+
+/**
+ * The complete input state of a GameContext as seen by a single fixed update
+ */
+export interface InputSnapshot {
+  keys: { down: Array<string>; pressed: Array<string> };
+  mouse: {
+    position: [number, number];
+    wheel: [number, number];
+    down: Array<boolean>;
+    clicked: Array<boolean>;
+  };
+  touches: {
+    down: Array<{ id: number; started: number; position: [number, number] }>;
+    ended: Array<{ id: number; position: [number, number] }>;
+  };
+  gamepad: GamepadSnapshot | null;
+}
+
+export interface InputRecording<PersistentState> {
+  version: number;
+  fixedUpdate: number;
+  startState: PersistentState | null;
+  // consecutive identical snapshots are stored once along with the number
+  // of fixed updates they lasted for
+  frames: Array<{ count: number; input: InputSnapshot }>;
+}
+
+export function captureInputSnapshot(ctx: GameContext): InputSnapshot {
+  const gamepad = ctx.getGamepad();
+  return {
+    keys: {
+      down: [...ctx.keys.down],
+      pressed: [...ctx.keys.pressed],
+    },
+    mouse: {
+      position: [ctx.mouse.position[0], ctx.mouse.position[1]],
+      wheel: [ctx.mouse.wheel[0], ctx.mouse.wheel[1]],
+      down: [...ctx.mouse.down].map((d) => !!d),
+      clicked: [...ctx.mouse.clicked].map((c) => !!c),
+    },
+    touches: {
+      down: [...ctx.touches.down].map(([id, t]) => ({
+        id,
+        started: t.started,
+        position: [t.position[0], t.position[1]],
+      })),
+      ended: [...ctx.touches.ended].map(([id, t]) => ({
+        id,
+        position: [t.position[0], t.position[1]],
+      })),
+    },
+    gamepad: gamepad
+      ? {
+          buttons: gamepad.buttons.map((b) => ({
+            pressed: b.pressed,
+            value: b.value,
+          })),
+          axes: [...gamepad.axes],
+        }
+      : null,
+  };
+}
+
+/**
+ * Overwrites the keys/mouse/touches state of the context with a snapshot.
+ * Gamepads are polled rather than stored on the context, so the snapshot
+ * gamepad has to be returned by the runners getGamepad instead.
+ */
+export function restoreInputSnapshot(
+  ctx: GameContext,
+  snapshot: InputSnapshot,
+) {
+  ctx.keys.down = new Set(snapshot.keys.down);
+  ctx.keys.pressed = new Set(snapshot.keys.pressed);
+  vec2.set(
+    ctx.mouse.position,
+    snapshot.mouse.position[0],
+    snapshot.mouse.position[1],
+  );
+  vec2.set(ctx.mouse.wheel, snapshot.mouse.wheel[0], snapshot.mouse.wheel[1]);
+  ctx.mouse.down = [...snapshot.mouse.down];
+  ctx.mouse.clicked = [...snapshot.mouse.clicked];
+  ctx.touches.down = new Map(
+    snapshot.touches.down.map((t) => [
+      t.id,
+      {
+        started: t.started,
+        position: vec2.fromValues(t.position[0], t.position[1]),
+      },
+    ]),
+  );
+  ctx.touches.ended = new Map(
+    snapshot.touches.ended.map((t) => [
+      t.id,
+      { position: vec2.fromValues(t.position[0], t.position[1]) },
+    ]),
+  );
+}
+
+export function createGamepad(
+  snapshot: GamepadSnapshot,
+  timestamp: number,
+): Gamepad {
+  return {
+    id: "pixelheart-virtual-gamepad",
+    index: 0,
+    connected: true,
+    mapping: "standard",
+    timestamp,
+    axes: [...snapshot.axes],
+    buttons: snapshot.buttons.map((b) => ({
+      pressed: b.pressed,
+      touched: b.pressed || b.value > 0,
+      value: b.value,
+    })),
+    hapticActuators: [],
+    vibrationActuator: null,
+  } as unknown as Gamepad;
+}
+
+export class InputRecorder<PersistentState> {
+  #recording: InputRecording<PersistentState>;
+  #last: string | null;
+
+  constructor(fixedUpdate: number, startState: PersistentState | null) {
+    this.#recording = {
+      version: CURRENT_RECORDING_VERSION,
+      fixedUpdate,
+      startState,
+      frames: [],
+    };
+    this.#last = null;
+  }
+
+  get ticks(): number {
+    return this.#recording.frames.reduce((t, f) => t + f.count, 0);
+  }
+
+  /**
+   * Captures the input state for the current fixed update. This should be
+   * called after input has been gathered but before it is cleared at the end
+   * of the update.
+   */
+  record(ctx: GameContext) {
+    const input = captureInputSnapshot(ctx);
+    const serialized = JSON.stringify(input);
+    if (serialized === this.#last) {
+      this.#recording.frames[this.#recording.frames.length - 1].count++;
+    } else {
+      this.#recording.frames.push({ count: 1, input });
+      this.#last = serialized;
+    }
+  }
+
+  stop(): InputRecording<PersistentState> {
+    return this.#recording;
+  }
+}
+
+export class InputReplay<PersistentState> {
+  readonly recording: InputRecording<PersistentState>;
+  #frame: number;
+  #count: number;
+  #gamepad: GamepadSnapshot | null;
+  tick: number;
+
+  constructor(recording: InputRecording<PersistentState>) {
+    if (recording.version !== CURRENT_RECORDING_VERSION) {
+      throw new Error(`Invalid recording version ${recording.version}`);
+    }
+    this.recording = recording;
+    this.#frame = 0;
+    this.#count = 0;
+    this.#gamepad = null;
+    this.tick = 0;
+  }
+
+  get finished(): boolean {
+    return this.#frame >= this.recording.frames.length;
+  }
+
+  /**
+   * The recorded gamepad state for the most recently replayed update
+   */
+  get gamepad(): GamepadSnapshot | null {
+    return this.#gamepad;
+  }
+
+  /**
+   * Restores the recorded input for the next fixed update into the context.
+   * Returns false once all recorded updates have been replayed, at which
+   * point the context is reset so no recorded keys or touches are left down.
+   */
+  next(ctx: GameContext): boolean {
+    if (this.finished) {
+      this.wait(ctx);
+      return false;
+    }
+    const frame = this.recording.frames[this.#frame];
+    restoreInputSnapshot(ctx, frame.input);
+    this.#gamepad = frame.input.gamepad;
+    if (++this.#count >= frame.count) {
+      this.#count = 0;
+      ++this.#frame;
+    }
+    ++this.tick;
+    return true;
+  }
+
+  /**
+   * Clears all input from the context without advancing the replay, for
+   * updates that run before the game is ready for the replay to start
+   */
+  wait(ctx: GameContext) {
+    restoreInputSnapshot(ctx, {
+      keys: { down: [], pressed: [] },
+      mouse: {
+        position: [ctx.mouse.position[0], ctx.mouse.position[1]],
+        wheel: [0, 0],
+        down: [],
+        clicked: [],
+      },
+      touches: { down: [], ended: [] },
+      gamepad: null,
+    });
+    this.#gamepad = null;
+  }
+}
@@ -0,0 +1,307 @@
+import { ReadonlyVec2, vec2 } from "gl-matrix";
+
+import { GameContext } from "./game.js";
+
+const DEFAULT_AXIS_DEADZONE = 0.25;
+const DEFAULT_TOUCH_DEADZONE = 5;
+const DEFAULT_TOUCH_HOLD_TIME = 250;
+
+/**
+ * A single physical input that can drive an action. Every binding produces
+ * a value in the range 0..1, so a gamepad axis binding only covers one
+ * direction of the axis.
+ */
+export type InputBinding =
+  | { type: "key"; key: string }
+  | { type: "mouseButton"; button: number }
+  | { type: "gamepadButton"; button: number }
+  | {
+      type: "gamepadAxis";
+      axis: number;
+      direction: 1 | -1;
+      deadZone?: number;
+    }
+  | {
+      type: "touchStick";
+      direction: "up" | "down" | "left" | "right";
+      deadZone?: number;
+    }
+  | { type: "touchTap" };
+
+/**
+ * The serialisable set of bindings for every action. This is plain JSON so it
+ * can be stored alongside a games persistent state.
+ */
+export type InputBindings = { [action: string]: Array<InputBinding> };
+
+export interface InputAxisConfig {
+  x?: { negative: string; positive: string };
+  y?: { negative: string; positive: string };
+}
+
+export interface InputActionConfig {
+  actions: InputBindings;
+  axes?: { [axis: string]: InputAxisConfig };
+  // how long a touch has to be held before it becomes a virtual stick
+  touchHoldTime?: number;
+}
+
+interface InputActionState {
+  value: number;
+  down: boolean;
+  pressed: boolean;
+  analogDown: boolean;
+}
+
+/**
+ * Maps named actions onto keyboard, mouse, gamepad & touch input. The game
+ * runner updates the action states once per fixed update, so values are
+ * stable for the duration of onUpdate.
+ */
+export class InputActionMap {
+  #bindings: InputBindings;
+  #axes: { [axis: string]: InputAxisConfig };
+  #states: Map<string, InputActionState>;
+  #touchHoldTime: number;
+  #touchTime: Map<number, number>;
+  #stick: { id: number; startPosition: vec2 } | null;
+  #stickPosition: vec2;
+
+  constructor(config?: InputActionConfig) {
+    this.#bindings = {};
+    this.#axes = {};
+    this.#states = new Map();
+    this.#touchHoldTime = DEFAULT_TOUCH_HOLD_TIME;
+    this.#touchTime = new Map();
+    this.#stick = null;
+    this.#stickPosition = vec2.create();
+    if (config) {
+      this.configure(config);
+    }
+  }
+
+  /**
+   * Replaces all actions & axes. Any actions that have been rebound
+   * previously can be restored by passing the saved bindings as overrides
+   */
+  configure(config: InputActionConfig, overrides?: InputBindings) {
+    this.#axes = { ...(config.axes ?? {}) };
+    this.#touchHoldTime = config.touchHoldTime ?? DEFAULT_TOUCH_HOLD_TIME;
+    this.#states.clear();
+    this.#touchTime.clear();
+    this.#stick = null;
+    this.setBindings({ ...config.actions, ...(overrides ?? {}) });
+  }
+
+  /**
+   * Rebinds a single action, replacing any existing bindings it had
+   */
+  bind(action: string, bindings: Array<InputBinding>) {
+    this.#bindings[action] = bindings.map((b) => ({ ...b }));
+    if (!this.#states.has(action)) {
+      this.#states.set(action, {
+        value: 0,
+        down: false,
+        pressed: false,
+        analogDown: false,
+      });
+    }
+  }
+
+  getBindings(): InputBindings {
+    const result: InputBindings = {};
+    for (const action in this.#bindings) {
+      result[action] = this.#bindings[action].map((b) => ({ ...b }));
+    }
+    return result;
+  }
+
+  setBindings(bindings: InputBindings) {
+    this.#bindings = {};
+    for (const action in bindings) {
+      this.bind(action, bindings[action]);
+    }
+  }
+
+  /**
+   * True if the action was released during the last update. This mirrors
+   * the behavior of GameContext.keys.pressed
+   */
+  pressed(action: string): boolean {
+    return this.#states.get(action)?.pressed ?? false;
+  }
+
+  down(action: string): boolean {
+    return this.#states.get(action)?.down ?? false;
+  }
+
+  /**
+   * The analog value of an action in the range 0..1
+   */
+  value(action: string): number {
+    return this.#states.get(action)?.value ?? 0;
+  }
+
+  /**
+   * The value of a named axis with each component in the range -1..1
+   */
+  axis(axis: string, out: vec2): vec2 {
+    const config = this.#axes[axis];
+    if (!config) {
+      return vec2.set(out, 0, 0);
+    }
+    return vec2.set(
+      out,
+      config.x
+        ? this.value(config.x.positive) - this.value(config.x.negative)
+        : 0,
+      config.y
+        ? this.value(config.y.positive) - this.value(config.y.negative)
+        : 0,
+    );
+  }
+
+  /**
+   * The position where the active virtual touch stick started, or null if
+   * no touch has been held long enough to become a stick
+   */
+  touchStickOrigin(): ReadonlyVec2 | null {
+    return this.#stick ? this.#stick.startPosition : null;
+  }
+
+  update(ctx: GameContext, fixedDelta: number) {
+    this.#updateTouches(ctx, fixedDelta);
+    const gamepad = ctx.getGamepad();
+
+    for (const action in this.#bindings) {
+      const state = this.#states.get(action)!;
+      let value = 0;
+      let analogValue = 0;
+      let pressed = false;
+
+      for (const binding of this.#bindings[action]) {
+        switch (binding.type) {
+          case "key":
+            if (ctx.keys.down.has(binding.key)) {
+              value = 1;
+            }
+            if (ctx.keys.pressed.has(binding.key)) {
+              pressed = true;
+            }
+            break;
+          case "mouseButton":
+            if (ctx.mouse.down[binding.button]) {
+              value = 1;
+            }
+            if (ctx.mouse.clicked[binding.button]) {
+              pressed = true;
+            }
+            break;
+          case "gamepadButton":
+            if (gamepad && gamepad.buttons[binding.button]) {
+              const button = gamepad.buttons[binding.button];
+              analogValue = Math.max(
+                analogValue,
+                button.value,
+                button.pressed ? 1 : 0,
+              );
+            }
+            break;
+          case "gamepadAxis":
+            if (gamepad && binding.axis < gamepad.axes.length) {
+              const deadZone = binding.deadZone ?? DEFAULT_AXIS_DEADZONE;
+              const v = gamepad.axes[binding.axis] * binding.direction;
+              if (v > deadZone) {
+                analogValue = Math.max(
+                  analogValue,
+                  Math.min(1, (v - deadZone) / (1 - deadZone)),
+                );
+              }
+            }
+            break;
+          case "touchStick":
+            analogValue = Math.max(analogValue, this.#stickValue(binding));
+            break;
+          case "touchTap":
+            for (const [id, _] of ctx.touches.ended) {
+              if (!this.#stick || this.#stick.id !== id) {
+                pressed = true;
+              }
+            }
+            break;
+        }
+      }
+
+      // analog inputs have no release events of their own, so they are
+      // considered pressed when they transition from down to up
+      const analogDown = analogValue > 0;
+      if (state.analogDown && !analogDown) {
+        pressed = true;
+      }
+
+      state.value = Math.max(value, analogValue);
+      state.down = state.value > 0;
+      state.pressed = pressed;
+      state.analogDown = analogDown;
+    }
+
+    for (const [id, _] of ctx.touches.ended) {
+      if (this.#stick && this.#stick.id === id) {
+        this.#stick = null;
+      }
+    }
+  }
+
+  #updateTouches(ctx: GameContext, fixedDelta: number) {
+    // touch hold times are accumulated from the fixed update rather than
+    // wall clock time so that the stick behaves identically during replays
+    for (const [id, _] of this.#touchTime) {
+      if (!ctx.touches.down.has(id)) {
+        this.#touchTime.delete(id);
+      }
+    }
+    for (const [id, touch] of ctx.touches.down) {
+      const time = (this.#touchTime.get(id) ?? 0) + fixedDelta;
+      this.#touchTime.set(id, time);
+      if (this.#stick === null && time > this.#touchHoldTime) {
+        this.#stick = {
+          id,
+          startPosition: vec2.clone(touch.position),
+        };
+      }
+    }
+
+    const current = this.#stick
+      ? ctx.touches.down.get(this.#stick.id)
+      : undefined;
+    if (current) {
+      vec2.subtract(
+        this.#stickPosition,
+        current.position,
+        this.#stick!.startPosition,
+      );
+    } else {
+      vec2.set(this.#stickPosition, 0, 0);
+      // a stick touch that has just ended is kept around until the end of
+      // the update so that it isn't also treated as a tap
+      if (this.#stick && !ctx.touches.ended.has(this.#stick.id)) {
+        this.#stick = null;
+      }
+    }
+  }
+
+  #stickValue(binding: Extract<InputBinding, { type: "touchStick" }>): number {
+    const deadZone = binding.deadZone ?? DEFAULT_TOUCH_DEADZONE;
+    const offset = this.#stickPosition;
+    switch (binding.direction) {
+      case "left":
+        return offset[0] < -deadZone ? 1 : 0;
+      case "right":
+        return offset[0] > deadZone ? 1 : 0;
+      case "up":
+        return offset[1] < -deadZone ? 1 : 0;
+      case "down":
+        return offset[1] > deadZone ? 1 : 0;
+    }
+  }
+}
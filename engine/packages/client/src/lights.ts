@@ -0,0 +1,126 @@
+import { ReadonlyVec2, ReadonlyVec3, ReadonlyVec4, vec2 } from "gl-matrix";
+
+import { CoreComponents, World } from "./entities.js";
+import { GPUTexture } from "./images.js";
+import { MapContainer } from "./map.js";
+
+export interface LightOptions {
+  // the color of the light is multiplied by the cookie, which is stretched
+  // over the area that the light covers. Useful for stained glass windows,
+  // foliage or clouds
+  cookie?: GPUTexture;
+  // defaults to 32
+  specularPower?: number;
+}
+
+export interface DirectionalLight extends LightOptions {
+  diffuse: ReadonlyVec3;
+  ambient: ReadonlyVec3;
+  direction: ReadonlyVec3;
+}
+
+export interface PointLight extends LightOptions {
+  diffuse: ReadonlyVec3;
+  // the absolute position of the light in pixels, with z being the height of
+  // the light above the ground
+  position: ReadonlyVec3;
+  // how far in pixels the light reaches
+  radius: number;
+  // the exponent that the light falls off by over its radius, defaults to 2
+  attenuation?: number;
+}
+
+export interface SpotLight extends PointLight {
+  // the direction that the cone of light points towards
+  direction: ReadonlyVec2;
+  // half the angle of the cone in radians
+  angle: number;
+  // how much of the edge of the cone fades out, from 0 (a hard edge) to 1
+  // (fading out from the center of the cone)
+  falloff: number;
+}
+
+export interface AreaLight extends LightOptions {
+  diffuse: ReadonlyVec3;
+  // the absolute [top, right, bottom, left] rect in pixels that emits light
+  rect: ReadonlyVec4;
+  // the height in pixels of the rect above the ground
+  height: number;
+  // how far in pixels from the edges of the rect the light reaches
+  radius: number;
+  attenuation?: number;
+}
+
+/**
+ * A light that can be attached to an entity or a map tile. The position of
+ * the light is relative to whatever it is attached to.
+ */
+export type LightSource =
+  | ({ type: "point" } & PointLight)
+  | ({ type: "spot" } & SpotLight)
+  | ({ type: "area" } & AreaLight);
+
+export interface LightEffect {
+  addLight(light: LightSource): LightEffect;
+}
+
+/**
+ * Lights placed on a map, positioned relative to the center of the tile at
+ * x,y
+ */
+export type MapLights = Array<{ x: number; y: number; light: LightSource }>;
+
+/**
+ * Moves a light that is positioned relative to an origin so that it is
+ * positioned absolutely
+ */
+export function offsetLight(
+  light: LightSource,
+  origin: ReadonlyVec2,
+): LightSource {
+  switch (light.type) {
+    case "point":
+    case "spot":
+      return {
+        ...light,
+        position: [
+          light.position[0] + origin[0],
+          light.position[1] + origin[1],
+          light.position[2],
+        ],
+      };
+    case "area":
+      return {
+        ...light,
+        rect: [
+          light.rect[0] + origin[1],
+          light.rect[1] + origin[0],
+          light.rect[2] + origin[1],
+          light.rect[3] + origin[0],
+        ],
+      };
+  }
+}
+
+/**
+ * Adds the lights attached to entities & map tiles. Lights are culled by the
+ * effect, so lights that are off screen can be added
+ */
+export function addLights<
+  C extends Pick<CoreComponents<any>, "transform" | "light">,
+>(effect: LightEffect, world: World<C>, map?: MapContainer<any>) {
+  for (const [_, c] of world.query("transform", "light")) {
+    effect.addLight(offsetLight(c.light.light, c.transform.position));
+  }
+  if (map) {
+    const origin = vec2.create();
+    for (const l of map.lights) {
+      vec2.set(
+        origin,
+        (l.x + 0.5) * map.data.tileSize,
+        (l.y + 0.5) * map.data.tileSize,
+      );
+      effect.addLight(offsetLight(l.light, origin));
+    }
+  }
+}
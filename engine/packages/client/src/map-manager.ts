@@ -0,0 +1,191 @@
+import { GameContext } from "./game.js";
+import { MapConfig, MapContainer, loadMapContainer } from "./map.js";
+import { SpriteSheetConfig } from "./sprite.js";
+
+interface MapTransition<T> {
+  name: string;
+  map: MapContainer<T> | null;
+  // the transition fades out, switches maps once the new map has loaded,
+  // then fades back in
+  phase: "out" | "in";
+  elapsed: number;
+  resolve: (map: MapContainer<T>) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Loads and unloads maps on demand & manages the transitions between them.
+ * Map switches only happen during update() so they occur at a consistent
+ * point in the games fixed update loop.
+ */
+export class MapManager<T> {
+  readonly fadeDuration: number;
+  #ctx: GameContext;
+  #tileSize: number;
+  #maps: { [name: string]: MapConfig };
+  #loader: (ctx: GameContext, sheet: SpriteSheetConfig) => Promise<T>;
+  #loaded: Map<string, Promise<MapContainer<T>>>;
+  #transition: MapTransition<T> | null;
+  #listeners: Array<
+    (map: MapContainer<T>, previous: MapContainer<T> | null) => void
+  >;
+  current: MapContainer<T> | null;
+
+  constructor(
+    ctx: GameContext,
+    tileSize: number,
+    maps: { [name: string]: MapConfig },
+    loader: (ctx: GameContext, sheet: SpriteSheetConfig) => Promise<T>,
+    fadeDuration: number = 500,
+  ) {
+    this.fadeDuration = fadeDuration;
+    this.#ctx = ctx;
+    this.#tileSize = tileSize;
+    this.#maps = maps;
+    this.#loader = loader;
+    this.#loaded = new Map();
+    this.#transition = null;
+    this.#listeners = [];
+    this.current = null;
+  }
+
+  /**
+   * The names of all the maps that can be loaded
+   */
+  names(): Array<string> {
+    return Object.keys(this.#maps);
+  }
+
+  has(name: string): boolean {
+    return this.#maps.hasOwnProperty(name);
+  }
+
+  load(name: string): Promise<MapContainer<T>> {
+    let map = this.#loaded.get(name);
+    if (!map) {
+      const config = this.#maps[name];
+      if (!config) {
+        return Promise.reject(new Error(`Unknown map ${name}`));
+      }
+      map = loadMapContainer(this.#ctx, this.#tileSize, config, this.#loader);
+      // failed loads aren't cached so that they can be retried
+      map.catch(() => this.#loaded.delete(name));
+      this.#loaded.set(name, map);
+    }
+    return map;
+  }
+
+  /**
+   * Releases a loaded map. The current map can't be unloaded.
+   */
+  unload(name: string) {
+    if (this.current?.name !== name) {
+      this.#loaded.delete(name);
+    }
+  }
+
+  /**
+   * Fades out, switches to the named map once it has loaded, then fades back
+   * in once the map chunks around the new position have loaded. The previous
+   * map is unloaded after the switch. If there is no current map then the
+   * transition starts from a fully faded out screen.
+   */
+  transition(name: string): Promise<MapContainer<T>> {
+    if (this.#transition) {
+      return Promise.reject(
+        new Error(
+          `Unable to transition to ${name} while transitioning to ${
+            this.#transition.name
+          }`,
+        ),
+      );
+    }
+    return new Promise((resolve, reject) => {
+      const transition: MapTransition<T> = {
+        name,
+        map: null,
+        phase: "out",
+        elapsed: this.current ? 0 : this.fadeDuration / 2,
+        resolve,
+        reject,
+      };
+      this.#transition = transition;
+      this.load(name).then(
+        (map) => {
+          transition.map = map;
+        },
+        (err) => {
+          if (this.#transition === transition) {
+            this.#transition = null;
+          }
+          reject(err);
+        },
+      );
+    });
+  }
+
+  get transitioning(): boolean {
+    return this.#transition !== null;
+  }
+
+  /**
+   * How faded out the screen should be, from 0 (fully visible) to 1
+   */
+  get fade(): number {
+    if (!this.#transition) {
+      return this.current ? 0 : 1;
+    }
+    const progress = Math.min(
+      this.#transition.elapsed / (this.fadeDuration / 2),
+      1,
+    );
+    return this.#transition.phase === "out" ? progress : 1 - progress;
+  }
+
+  update(fixedDelta: number) {
+    const transition = this.#transition;
+    if (!transition) {
+      return;
+    }
+    transition.elapsed += fixedDelta;
+    if (transition.phase === "out") {
+      // stay faded out until the map has finished loading
+      if (transition.elapsed >= this.fadeDuration / 2 && transition.map) {
+        const previous = this.current;
+        this.current = transition.map;
+        if (previous && previous !== this.current) {
+          this.unload(previous.name);
+        }
+        for (const listener of this.#listeners) {
+          listener(this.current, previous);
+        }
+        transition.phase = "in";
+        transition.elapsed = 0;
+      }
+    } else if (this.current?.data.loading) {
+      // map tiles are streamed in once the new map is entered, so stay
+      // faded out until the tiles around the new position have loaded
+      transition.elapsed = 0;
+    } else if (transition.elapsed >= this.fadeDuration / 2) {
+      this.#transition = null;
+      transition.resolve(transition.map!);
+    }
+  }
+
+  /**
+   * Registers a callback that is run whenever the current map changes
+   */
+  listen(cb: (map: MapContainer<T>, previous: MapContainer<T> | null) => void) {
+    this.#listeners.push(cb);
+  }
+
+  disconnect(
+    cb: (map: MapContainer<T>, previous: MapContainer<T> | null) => void,
+  ) {
+    for (let i = this.#listeners.length - 1; i >= 0; --i) {
+      if (cb === this.#listeners[i]) {
+        this.#listeners.splice(i, 1);
+      }
+    }
+  }
+}
@@ -1,16 +1,36 @@
 import { vec2, vec4 } from "gl-matrix";
 
 import { GameContext } from "./game.js";
-import * as coords from "./coordinates.js";
-import { CPUReadableTexture } from "./images.js";
-import { loadCPUReadableTextureFromUrl } from "./images.js";
+import { MapLights } from "./lights.js";
 import { SpriteSheet, SpriteSheetConfig, loadSpriteSheet } from "./sprite.js";
+import { MapTriggers } from "./triggers.js";
+
+// the default width & height in tiles of the chunks that maps are split into
+export const DEFAULT_MAP_CHUNK_SIZE = 64;
+
+// the area of a tile that blocks movement when it isn't walkable. Shapes are
+// stored in the upper bits of the flags byte, so at most 32 are supported
+export const MAP_TILE_COLLISION_SHAPES = [
+  "full",
+  "top",
+  "bottom",
+  "left",
+  "right",
+  "topLeft",
+  "topRight",
+  "bottomLeft",
+  "bottomRight",
+] as const;
+
+export type MapTileCollisionShape = (typeof MAP_TILE_COLLISION_SHAPES)[number];
 
 export interface MapTileBase {
   walkable: boolean;
   spatialHash: boolean;
   animated: boolean;
   triggerId: number;
+  // defaults to "full" if not specified
+  collisionShape?: MapTileCollisionShape;
 }
 
 export interface MapTile extends MapTileBase {
@@ -31,6 +51,7 @@ export function decodeMapTile(
     walkable: (buffer[index + 2] & 1) === 1,
     spatialHash: (buffer[index + 2] & 2) === 2,
     animated: (buffer[index + 2] & 4) === 4,
+    collisionShape: MAP_TILE_COLLISION_SHAPES[buffer[index + 2] >> 3] ?? "full",
   };
 }
 
@@ -44,135 +65,339 @@ export function encodeMapTile(
   buffer[index + 2] =
     (value.walkable ? 1 : 0) |
     (value.spatialHash ? 2 : 0) |
-    (value.animated ? 4 : 0);
+    (value.animated ? 4 : 0) |
+    (Math.max(
+      MAP_TILE_COLLISION_SHAPES.indexOf(value.collisionShape ?? "full"),
+      0
+    ) <<
+      3);
 }
 export interface MapContainer<T> {
   name: string;
   data: MapData;
   sprite: SpriteSheet<T>;
   spriteConfig: SpriteSheetConfig;
+  triggers: MapTriggers;
+  lights: MapLights;
+}
+
+/**
+ * The configuration generated for each map by the build
+ */
+export interface MapConfig {
+  spriteSheet: SpriteSheetConfig;
+  name: string;
+  // chunks are loaded from {url}/{x}_{y}.png
+  url: string;
+  version: string;
+  width: number;
+  height: number;
+  layers: number;
+  chunkSize: number;
+  triggers?: MapTriggers;
+  lights?: MapLights;
 }
 
 export async function loadMapContainer<T>(
   ctx: GameContext,
   tileSize: number,
-  map: { spriteSheet: SpriteSheetConfig; name: string, url: string },
+  map: MapConfig,
   loader: (ctx: GameContext, sheet: SpriteSheetConfig) => Promise<T>
 ): Promise<MapContainer<T>> {
-  const [sprite, m] = await Promise.all([
-    loadSpriteSheet(ctx, map.spriteSheet, loader),
-    loadCPUReadableTextureFromUrl(ctx, map.url),
-  ]);
+  const sprite = await loadSpriteSheet(ctx, map.spriteSheet, loader);
   return {
-    data: new MapData(ctx, tileSize, m),
+    // map tiles are streamed in as needed, so only the sprites are loaded
+    // up front
+    data: new MapData(tileSize, {
+      ...map,
+      chunkUrl: (x: number, y: number) =>
+        `${map.url}/${x}_${y}.png?v=${map.version}`,
+      loadImageData: (url: string) => ctx.assets.loadImageData(url),
+    }),
     name: map.name,
     sprite,
     spriteConfig: map.spriteSheet,
+    triggers: map.triggers ?? {},
+    lights: map.lights ?? [],
   };
 }
 
+const EMPTY_TILE = new Uint8ClampedArray(4);
+
+// failed chunk loads are retried after an exponential backoff
+const CHUNK_RETRY_DELAY = 1000;
+const CHUNK_MAX_RETRY_DELAY = 30000;
+
+export interface MapChunk {
+  // chunk coordinates, in units of chunkSize tiles
+  x: number;
+  y: number;
+  // RGBA tile data for all layers, with each layer stored as a
+  // chunkSize x chunkSize plane stacked vertically
+  data: Uint8ClampedArray;
+  // incremented whenever a tile in the chunk is written
+  version: number;
+}
+
+/**
+ * Tile data for a map that is split into square chunks. Chunks are loaded on
+ * demand around the screen & reads are served from the loaded chunk data.
+ * Tiles in chunks that aren't loaded read as empty.
+ */
 export class MapData {
-  buffer: ImageData;
   width: number;
   height: number;
+  layers: number;
   tileSize: number;
-  bufferPosition: vec4;
-  lastScreenPosition: vec2;
-  lastScreenWidth: number;
-  lastScreenHeight: number;
-  offscreen: CanvasRenderingContext2D;
-
-  constructor(ctx: GameContext, tileSize: number, map: CPUReadableTexture) {
-    this.offscreen = new OffscreenCanvas(map.width, map.height).getContext("2d", {
-      willReadFrequently: true,
-    }) as unknown as CanvasRenderingContext2D;
-    this.offscreen.drawImage(map.image, 0, 0, map.width, map.height);
-    this.width = map.width;
-    this.height = map.height;
+  chunkSize: number;
+  #chunkUrl: (x: number, y: number) => string;
+  #loadImageData: (url: string) => Promise<ImageData>;
+  #chunks: Map<number, MapChunk>;
+  #pending: Map<number, Promise<MapChunk | null>>;
+  // chunks that failed to load aren't requested again until their retry time,
+  // or until they have moved out of range & back again
+  #failed: Map<
+    number,
+    { x: number; y: number; attempts: number; retryAt: number }
+  >;
+
+  constructor(
+    tileSize: number,
+    config: {
+      width: number;
+      height: number;
+      layers: number;
+      chunkSize: number;
+      chunkUrl: (x: number, y: number) => string;
+      loadImageData: (url: string) => Promise<ImageData>;
+    }
+  ) {
+    this.width = config.width;
+    this.height = config.height;
+    this.layers = config.layers;
     this.tileSize = tileSize;
-    this.buffer = new ImageData(
-      ctx.screen.width / tileSize + 3,
-      ctx.screen.height / tileSize + 3
-    );
+    this.chunkSize = config.chunkSize;
+    this.#chunkUrl = config.chunkUrl;
+    this.#loadImageData = config.loadImageData;
+    this.#chunks = new Map();
+    this.#pending = new Map();
+    this.#failed = new Map();
+  }
+
+  /**
+   * True while any chunks are still being loaded
+   */
+  get loading(): boolean {
+    return this.#pending.size > 0;
+  }
+
+  getChunk(chunkX: number, chunkY: number): MapChunk | null {
+    return this.#chunks.get(this.#chunkKey(chunkX, chunkY)) ?? null;
+  }
 
-    this.bufferPosition = vec4.create();
-    this.lastScreenPosition = vec2.create();
-    this.lastScreenWidth = 0;
-    this.lastScreenHeight = 0;
+  isLoaded(x: number, y: number): boolean {
+    return (
+      this.getChunk(
+        Math.floor(x / this.chunkSize),
+        Math.floor(y / this.chunkSize)
+      ) !== null
+    );
   }
 
-  updateScreenBuffer(ctx: GameContext, screenAbsolutePosition: vec2) {
+  loadChunk(chunkX: number, chunkY: number): Promise<MapChunk | null> {
     if (
-      this.lastScreenWidth !== ctx.screen.width ||
-      this.lastScreenHeight !== ctx.screen.height ||
-      this.lastScreenPosition[0] !== screenAbsolutePosition[0] ||
-      this.lastScreenPosition[1] !== screenAbsolutePosition[1]
+      chunkX < 0 ||
+      chunkY < 0 ||
+      chunkX * this.chunkSize >= this.width ||
+      chunkY * this.chunkSize >= this.height
     ) {
-      const ssp = coords.toAbsoluteTileFromAbsolute(
-        vec4.create(),
-        screenAbsolutePosition
-      );
-
-      this.bufferPosition = vec4.fromValues(
-        ssp[0] - 1,
-        ssp[1] - 1,
-        ctx.screen.width / this.tileSize + 3,
-        ctx.screen.height / this.tileSize + 3
-      );
-
-      // read in all the onscreen tiles
-      this.buffer = this.offscreen.getImageData(
-        this.bufferPosition[0],
-        this.bufferPosition[1],
-        this.bufferPosition[2],
-        this.bufferPosition[3]
-      );
-
-      this.lastScreenPosition = vec2.clone(screenAbsolutePosition);
-      this.lastScreenWidth = ctx.screen.width;
-      this.lastScreenHeight = ctx.screen.height;
+      return Promise.resolve(null);
+    }
+    const key = this.#chunkKey(chunkX, chunkY);
+    const existing = this.#chunks.get(key);
+    if (existing) {
+      return Promise.resolve(existing);
     }
+    const failed = this.#failed.get(key);
+    if (failed && Date.now() < failed.retryAt) {
+      return Promise.resolve(null);
+    }
+    let pending = this.#pending.get(key);
+    if (!pending) {
+      pending = this.#loadImageData(this.#chunkUrl(chunkX, chunkY))
+        .then((image) => {
+          const chunk = {
+            x: chunkX,
+            y: chunkY,
+            data: image.data,
+            version: 0
+          };
+          this.#chunks.set(key, chunk);
+          this.#failed.delete(key);
+          return chunk;
+        })
+        .catch((err) => {
+          const attempts = (this.#failed.get(key)?.attempts ?? 0) + 1;
+          this.#failed.set(key, {
+            x: chunkX,
+            y: chunkY,
+            attempts,
+            retryAt:
+              Date.now() +
+              Math.min(
+                CHUNK_RETRY_DELAY * 2 ** (attempts - 1),
+                CHUNK_MAX_RETRY_DELAY
+              )
+          });
+          console.error(
+            `Failed to load map chunk (${chunkX},${chunkY}): ${err}`
+          );
+          return null;
+        })
+        .finally(() => {
+          this.#pending.delete(key);
+        });
+      this.#pending.set(key, pending);
+    }
+    return pending;
   }
 
-  read(x: number, y: number): MapTile {
-    if (
-      x >= this.bufferPosition[0] &&
-      x < this.bufferPosition[0] + this.bufferPosition[2] &&
-      y >= this.bufferPosition[1] &&
-      y < this.bufferPosition[1] + this.bufferPosition[3]
-    ) {
-      // reading inside the visible screen buffer, fast case
-      x -= this.bufferPosition[0];
-      y -= this.bufferPosition[1];
-      const index = 4 * (this.buffer.width * y + x);
-      return decodeMapTile(this.buffer.data, index);
-    } else {
-      // reading outside of the visible screen, slower, but less common
-      const buff = this.offscreen.getImageData(x, y, 1, 1);
-      return decodeMapTile(buff.data, 0);
+  unloadChunk(chunkX: number, chunkY: number) {
+    this.#chunks.delete(this.#chunkKey(chunkX, chunkY));
+  }
+
+  /**
+   * Loads all the chunks near the screen & unloads those that are far away.
+   * Chunks are loaded half a chunk beyond the edges of the screen, but aren't
+   * unloaded until they are a whole chunk away so that moving back and forth
+   * across a chunk boundary doesn't repeatedly reload the same chunks.
+   */
+  updateLoadedChunks(ctx: GameContext, screenAbsolutePosition: vec2) {
+    const left = screenAbsolutePosition[0] / this.tileSize;
+    const top = screenAbsolutePosition[1] / this.tileSize;
+    const right = left + ctx.screen.width / this.tileSize;
+    const bottom = top + ctx.screen.height / this.tileSize;
+
+    const load = this.#chunkRange(left, top, right, bottom, this.chunkSize / 2);
+    for (let y = load[1]; y <= load[3]; ++y) {
+      for (let x = load[0]; x <= load[2]; ++x) {
+        this.loadChunk(x, y);
+      }
+    }
+
+    const keep = this.#chunkRange(left, top, right, bottom, this.chunkSize);
+    for (const chunk of [...this.#chunks.values()]) {
+      if (
+        chunk.x < keep[0] ||
+        chunk.y < keep[1] ||
+        chunk.x > keep[2] ||
+        chunk.y > keep[3]
+      ) {
+        this.unloadChunk(chunk.x, chunk.y);
+      }
+    }
+    // chunks that failed to load are requested again straight away the next
+    // time they come into range
+    for (const [key, chunk] of this.#failed) {
+      if (
+        chunk.x < keep[0] ||
+        chunk.y < keep[1] ||
+        chunk.x > keep[2] ||
+        chunk.y > keep[3]
+      ) {
+        this.#failed.delete(key);
+      }
+    }
+  }
+
+  read(x: number, y: number, layer: number = 0): MapTile {
+    const index = this.#tileIndex(x, y, layer);
+    if (index === null) {
+      return decodeMapTile(EMPTY_TILE, 0);
+    }
+    return decodeMapTile(index.chunk.data, index.offset);
+  }
+
+  /**
+   * Updates a tile in a loaded chunk. Writes to chunks that aren't loaded are
+   * ignored, so returns whether the write was applied.
+   */
+  write(x: number, y: number, layer: number, value: MapTile): boolean {
+    const index = this.#tileIndex(x, y, layer);
+    if (index === null) {
+      return false;
+    }
+    encodeMapTile(index.chunk.data, index.offset, value);
+    index.chunk.version++;
+    return true;
+  }
+
+  /**
+   * A map location is walkable if the ground layer is walkable and
+   * none of the non-empty layers above it block movement
+   */
+  isWalkable(x: number, y: number): boolean {
+    if (!this.read(x, y, 0).walkable) {
+      return false;
+    }
+    for (let z = 1; z < this.layers; ++z) {
+      const tile = this.read(x, y, z);
+      if (tile.index !== 0 && !tile.walkable) {
+        return false;
+      }
     }
+    return true;
+  }
+
+  #chunkKey(chunkX: number, chunkY: number): number {
+    return chunkY * Math.ceil(this.width / this.chunkSize) + chunkX;
+  }
+
+  #chunkRange(
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+    margin: number
+  ): vec4 {
+    return vec4.fromValues(
+      Math.max(Math.floor((left - margin) / this.chunkSize), 0),
+      Math.max(Math.floor((top - margin) / this.chunkSize), 0),
+      Math.min(
+        Math.floor((right + margin) / this.chunkSize),
+        Math.ceil(this.width / this.chunkSize) - 1
+      ),
+      Math.min(
+        Math.floor((bottom + margin) / this.chunkSize),
+        Math.ceil(this.height / this.chunkSize) - 1
+      )
+    );
   }
 
-  write(x: number, y: number, value: MapTile) {
+  #tileIndex(
+    x: number,
+    y: number,
+    layer: number
+  ): { chunk: MapChunk; offset: number } | null {
     if (
-      x >= this.bufferPosition[0] &&
-      x < this.bufferPosition[0] + this.bufferPosition[2] &&
-      y >= this.bufferPosition[1] &&
-      y < this.bufferPosition[1] + this.bufferPosition[3]
+      x < 0 ||
+      x >= this.width ||
+      y < 0 ||
+      y >= this.height ||
+      layer < 0 ||
+      layer >= this.layers
     ) {
-      x -= this.bufferPosition[0];
-      y -= this.bufferPosition[1];
-      const index = 4 * (this.buffer.width * y + x);
-      encodeMapTile(this.buffer.data, index, value);
-      this.offscreen.putImageData(
-        this.buffer,
-        this.bufferPosition[0],
-        this.bufferPosition[1]
-      );
-    } else {
-      const buff = new ImageData(1, 1);
-      encodeMapTile(buff.data, 0, value);
-      this.offscreen.putImageData(buff, x, y);
+      return null;
+    }
+    const chunk = this.getChunk(
+      Math.floor(x / this.chunkSize),
+      Math.floor(y / this.chunkSize)
+    );
+    if (!chunk) {
+      return null;
     }
+    const localX = x - chunk.x * this.chunkSize;
+    const localY = y - chunk.y * this.chunkSize + layer * this.chunkSize;
+    return { chunk, offset: 4 * (localY * this.chunkSize + localX) };
   }
 }
@@ -0,0 +1,205 @@
+import { ReadonlyVec2, ReadonlyVec3, ReadonlyVec4, vec2 } from "gl-matrix";
+
+export interface ParticleEmitterConfig {
+  // particles emitted per second while the emitter is active
+  rate: number;
+  // particles emitted at once when the emitter starts
+  burst?: number;
+  // how long in ms the emitter stays active. If not set the emitter is
+  // active until it is stopped
+  duration?: number;
+  // the [min, max] lifetime in ms of each particle
+  lifetime: [number, number];
+  // the [x, y] distance in pixels from the emitters position that particles
+  // can be emitted
+  spread?: [number, number];
+  // the [x, y] range of initial velocities in pixels per second
+  velocity: { min: [number, number]; max: [number, number] };
+  // in pixels per second per second, e.g. for gravity
+  acceleration?: [number, number];
+  // the name of a sprite in the sprite sheet the particles are drawn with.
+  // The frames of the sprite are played once over the lifetime of a particle
+  sprite: string;
+  // [r, g, b, a] colors that the sprite is tinted by, evenly spaced over the
+  // lifetime of a particle
+  colors: Array<[number, number, number, number]>;
+  // [r, g, b] emissive colors, evenly spaced over the lifetime of a particle.
+  // Emissive particles are visible without any lights
+  emissive?: Array<[number, number, number]>;
+  // the most particles that can be alive at once. Defaults to 256
+  maxParticles?: number;
+}
+
+export interface Particle {
+  // the absolute position of the center of the particle
+  readonly position: vec2;
+  readonly velocity: vec2;
+  // in ms
+  age: number;
+  lifetime: number;
+}
+
+export class ParticleEmitter {
+  readonly config: ParticleEmitterConfig;
+  // the absolute position that particles are emitted from, which can be
+  // moved to follow an entity
+  readonly position: vec2;
+  readonly particles: Array<Particle>;
+  // defaults to the rate in the config, but can be changed while the emitter
+  // is running
+  rate: number;
+  active: boolean;
+  #elapsed: number;
+  #pending: number;
+
+  constructor(config: ParticleEmitterConfig, position: ReadonlyVec2) {
+    this.config = config;
+    this.position = vec2.clone(position);
+    this.particles = [];
+    this.rate = config.rate;
+    this.active = true;
+    this.#elapsed = 0;
+    this.#pending = config.burst ?? 0;
+  }
+
+  stop(): ParticleEmitter {
+    this.active = false;
+    this.#pending = 0;
+    return this;
+  }
+
+  /**
+   * An emitter is finished once it has stopped & all of its particles have
+   * died
+   */
+  get finished(): boolean {
+    return !this.active && this.particles.length === 0;
+  }
+
+  update(fixedDelta: number, random: () => number) {
+    const seconds = fixedDelta / 1000;
+    const acceleration = this.config.acceleration;
+    for (let i = this.particles.length - 1; i >= 0; --i) {
+      const p = this.particles[i];
+      p.age += fixedDelta;
+      if (p.age >= p.lifetime) {
+        // order isn't important, so swap the dead particle with the last
+        // rather than shifting the rest of the array
+        this.particles[i] = this.particles[this.particles.length - 1];
+        this.particles.pop();
+        continue;
+      }
+      if (acceleration) {
+        p.velocity[0] += acceleration[0] * seconds;
+        p.velocity[1] += acceleration[1] * seconds;
+      }
+      p.position[0] += p.velocity[0] * seconds;
+      p.position[1] += p.velocity[1] * seconds;
+    }
+
+    if (this.active) {
+      this.#elapsed += fixedDelta;
+      if (
+        this.config.duration !== undefined &&
+        this.#elapsed > this.config.duration
+      ) {
+        this.active = false;
+      } else {
+        this.#pending += this.rate * seconds;
+      }
+    }
+
+    // any burst is still emitted if the emitter only lasts a single update
+    const maxParticles = this.config.maxParticles ?? 256;
+    const { lifetime, spread, velocity } = this.config;
+    while (this.#pending >= 1) {
+      this.#pending--;
+      if (this.particles.length >= maxParticles) {
+        continue;
+      }
+      this.particles.push({
+        position: vec2.fromValues(
+          this.position[0] + (spread ? (random() * 2 - 1) * spread[0] : 0),
+          this.position[1] + (spread ? (random() * 2 - 1) * spread[1] : 0),
+        ),
+        velocity: vec2.fromValues(
+          lerp(velocity.min[0], velocity.max[0], random()),
+          lerp(velocity.min[1], velocity.max[1], random()),
+        ),
+        age: 0,
+        lifetime: lerp(lifetime[0], lifetime[1], random()),
+      });
+    }
+  }
+}
+
+/**
+ * Simulates particle emitters on the CPU. The particles are drawn by an
+ * effect, such as the ParticleEffect in @pixelheart/effects.
+ */
+export class ParticleSystem {
+  readonly emitters: Array<ParticleEmitter>;
+  #seed: number;
+
+  constructor() {
+    this.emitters = [];
+    this.#seed = 1;
+  }
+
+  emit(config: ParticleEmitterConfig, position: ReadonlyVec2): ParticleEmitter {
+    const emitter = new ParticleEmitter(config, position);
+    this.emitters.push(emitter);
+    return emitter;
+  }
+
+  update(fixedDelta: number) {
+    const random = () => this.random();
+    for (let i = this.emitters.length - 1; i >= 0; --i) {
+      const emitter = this.emitters[i];
+      emitter.update(fixedDelta, random);
+      if (emitter.finished) {
+        this.emitters.splice(i, 1);
+      }
+    }
+  }
+
+  clear() {
+    this.emitters.length = 0;
+  }
+
+  /**
+   * Returns a number between 0 & 1. This is seeded rather than using
+   * Math.random so that particles are the same when recorded input is
+   * replayed, so it should also be used when placing emitters randomly
+   */
+  random(): number {
+    this.#seed = (this.#seed * 48271) % 2147483647;
+    return this.#seed / 2147483647;
+  }
+}
+
+/**
+ * Gets the value at t (between 0 & 1) of a set of evenly spaced colors
+ */
+export function sampleColors<T extends ReadonlyVec3 | ReadonlyVec4>(
+  out: Float32Array,
+  colors: ReadonlyArray<T>,
+  t: number,
+): Float32Array {
+  if (!colors.length) {
+    out.fill(0);
+    return out;
+  }
+  const position = Math.max(0, Math.min(1, t)) * (colors.length - 1);
+  const from = colors[Math.floor(position)];
+  const to = colors[Math.min(colors.length - 1, Math.floor(position) + 1)];
+  const amount = position - Math.floor(position);
+  for (let i = 0; i < out.length; ++i) {
+    out[i] = lerp(from[i] ?? 0, to[i] ?? 0, amount);
+  }
+  return out;
+}
+
+function lerp(from: number, to: number, amount: number): number {
+  return from + (to - from) * amount;
+}
@@ -0,0 +1,232 @@
+export const DEFAULT_SAVE_SLOT = "default";
+
+/**
+ * A key value store for serialized save data. All operations are async so
+ * that backends like IndexedDB can be used.
+ */
+export interface SaveStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<Array<string>>;
+}
+
+export class MemorySaveStore implements SaveStore {
+  #values: Map<string, string>;
+
+  constructor(values?: { [key: string]: string }) {
+    this.#values = new Map(values ? Object.entries(values) : []);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.#values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.#values.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.#values.delete(key);
+  }
+
+  async keys(): Promise<Array<string>> {
+    return [...this.#values.keys()];
+  }
+}
+
+export class LocalStorageSaveStore implements SaveStore {
+  #storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.#storage = storage;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.#storage.getItem(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.#storage.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.#storage.removeItem(key);
+  }
+
+  async keys(): Promise<Array<string>> {
+    const keys = [];
+    for (let i = 0; i < this.#storage.length; ++i) {
+      keys.push(this.#storage.key(i)!);
+    }
+    return keys;
+  }
+}
+
+export class IndexedDBSaveStore implements SaveStore {
+  #databaseName: string;
+  #storeName: string;
+  #db: Promise<IDBDatabase> | null;
+
+  constructor(
+    databaseName: string = "pixelheart",
+    storeName: string = "saves",
+  ) {
+    this.#databaseName = databaseName;
+    this.#storeName = storeName;
+    this.#db = null;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.#request("readonly", (s) => s.get(key));
+    return typeof value === "string" ? value : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.#request("readwrite", (s) => s.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.#request("readwrite", (s) => s.delete(key));
+  }
+
+  async keys(): Promise<Array<string>> {
+    const keys = await this.#request("readonly", (s) => s.getAllKeys());
+    return keys.filter((k): k is string => typeof k === "string");
+  }
+
+  #open(): Promise<IDBDatabase> {
+    // the database is opened lazily so that constructing the store doesn't
+    // require IndexedDB to be available until it's actually used
+    if (!this.#db) {
+      this.#db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.#databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.#storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.#db;
+  }
+
+  async #request<T>(
+    mode: IDBTransactionMode,
+    op: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.#open();
+    return new Promise((resolve, reject) => {
+      const request = op(
+        db.transaction(this.#storeName, mode).objectStore(this.#storeName),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Named save slots stored as JSON under a common key. The default slot is
+ * stored under the key itself so that existing saves continue to load.
+ */
+export class SaveSlots<T> {
+  #store: SaveStore;
+  #key: string;
+
+  constructor(store: SaveStore, key: string) {
+    this.#store = store;
+    this.#key = key;
+  }
+
+  async load(slot: string = DEFAULT_SAVE_SLOT): Promise<T | undefined> {
+    const value = await this.#store.get(this.#slotKey(slot));
+    return value ? (JSON.parse(value) as T) : undefined;
+  }
+
+  async save(slot: string, state: T): Promise<void> {
+    await this.#store.set(this.#slotKey(slot), JSON.stringify(state));
+  }
+
+  async delete(slot: string): Promise<void> {
+    await this.#store.remove(this.#slotKey(slot));
+  }
+
+  async list(): Promise<Array<string>> {
+    const prefix = `${this.#key}:`;
+    const slots = [];
+    for (const key of await this.#store.keys()) {
+      if (key === this.#key) {
+        slots.push(DEFAULT_SAVE_SLOT);
+      } else if (key.startsWith(prefix)) {
+        slots.push(key.substring(prefix.length));
+      }
+    }
+    return slots;
+  }
+
+  #slotKey(slot: string): string {
+    return slot === DEFAULT_SAVE_SLOT ? this.#key : `${this.#key}:${slot}`;
+  }
+}
+
+/**
+ * A save payload at some previous version. Migrations only know the shape of
+ * the version they upgrade from, so the rest of the payload has to be
+ * narrowed before it is used
+ */
+export type VersionedSave = { version: number } & Record<string, unknown>;
+
+export type SaveMigration = (state: VersionedSave) => VersionedSave;
+
+/**
+ * A chain of functions that upgrade a versioned save payload one step at a
+ * time until it reaches the current version.
+ */
+export class SaveMigrations<T> {
+  readonly currentVersion: number;
+  #migrations: Map<number, SaveMigration>;
+
+  constructor(currentVersion: number) {
+    this.currentVersion = currentVersion;
+    this.#migrations = new Map();
+  }
+
+  /**
+   * Registers a function that upgrades a payload from the given version.
+   * The returned payload must have a higher version than the input.
+   */
+  register(fromVersion: number, migrate: SaveMigration): SaveMigrations<T> {
+    if (this.#migrations.has(fromVersion)) {
+      throw new Error(
+        `Migration from save version ${fromVersion} already registered`,
+      );
+    }
+    this.#migrations.set(fromVersion, migrate);
+    return this;
+  }
+
+  migrate(payload: unknown): T {
+    let state = payload as VersionedSave;
+    if (!state || typeof state.version !== "number") {
+      throw new Error("Save is missing a version");
+    }
+    while (state.version < this.currentVersion) {
+      const migration = this.#migrations.get(state.version);
+      if (!migration) {
+        throw new Error(`No migration from save version ${state.version}`);
+      }
+      const migrated = migration(state);
+      if (!(migrated.version > state.version)) {
+        throw new Error(
+          `Migration from save version ${state.version} didn't increase the version`,
+        );
+      }
+      state = migrated;
+    }
+    if (state.version > this.currentVersion) {
+      throw new Error(`Invalid save version ${state.version}`);
+    }
+    return state as T;
+  }
+}
@@ -1,4 +1,4 @@
-import { ReadonlyVec4, mat3, vec3, vec4 } from "gl-matrix";
+import { ReadonlyVec2, ReadonlyVec4, mat3, vec2, vec3, vec4 } from "gl-matrix";
 
 import { TEXTURE } from "./images.js";
 import { GameContext } from "./game.js";
@@ -13,6 +13,14 @@ export interface SpriteConfig {
     readonly bottom: number;
     readonly right: number;
   }>;
+  // the size in pixels of the borders of each frame which aren't stretched
+  // when the sprite is drawn as a 9-slice
+  readonly nineSlice?: {
+    readonly top: number;
+    readonly left: number;
+    readonly bottom: number;
+    readonly right: number;
+  };
 }
 
 export interface SpriteSheetConfig {
@@ -51,10 +59,23 @@ export interface Sprite<T> {
   readonly width: number;
   readonly height: number;
   readonly frames: Array<ReadonlyVec4>;
+  // [top, right, bottom, left] border sizes in pixels, or null if the sprite
+  // has no 9-slice data
+  readonly nineSlice: ReadonlyVec4 | null;
   draw(
     effect: SpriteEffect<T>,
     position: ReadonlyVec4,
-    frame?: number
+    frame?: number,
+    opts?: SpriteDrawOptions
+  ): Sprite<T>;
+  // draws the sprite stretched to fill the position while keeping its
+  // borders at their original size. Sprites without 9-slice data are
+  // stretched as with draw
+  drawNineSlice(
+    effect: SpriteEffect<T>,
+    position: ReadonlyVec4,
+    frame?: number,
+    opts?: SpriteDrawOptions
   ): Sprite<T>;
 }
 
@@ -62,9 +83,100 @@ export interface SpriteSheet<T> extends Record<string, Sprite<T>> {
   [TEXTURE]: T;
 }
 
+/**
+ * Effects that sort sprites draw them by layer & then by y, so that sprites
+ * lower on the screen overlap those above them. Sprites with the same key are
+ * drawn in the order they were drawn
+ */
+export interface SortKey {
+  layer: number;
+  // usually the absolute y position of the sprite
+  y: number;
+}
+
+export interface SpriteDrawOptions {
+  // effects that don't sort sprites ignore the sort key & draw sprites in the
+  // order they were drawn. Effects that do sort sprites give sprites without a
+  // key the key of the sprite drawn before them
+  sortKey?: SortKey;
+  // mirrors the sprite within its rect
+  flipX?: boolean;
+  flipY?: boolean;
+  // clockwise rotation in radians around the pivot
+  rotation?: number;
+  // the point the sprite rotates around, from [0, 0] at the top left of its
+  // rect to [1, 1] at the bottom right. Defaults to the center
+  pivot?: ReadonlyVec2;
+  // [r, g, b, a] that the color of the sprite is multiplied by
+  tint?: ReadonlyVec4;
+}
+
 export interface SpriteEffect<T> {
   setTextures(texture: T): SpriteEffect<T>;
-  draw(rect: ReadonlyVec4, textureCoords: ReadonlyVec4): SpriteEffect<T>;
+  draw(
+    rect: ReadonlyVec4,
+    textureCoords: ReadonlyVec4,
+    opts?: SpriteDrawOptions
+  ): SpriteEffect<T>;
+}
+
+const CENTER = vec2.fromValues(0.5, 0.5);
+
+/**
+ * Gets the transform from a unit quad to the screen space rect of a sprite,
+ * rotated around its pivot. The rotation is applied in pixels so that it isn't
+ * skewed by the aspect ratio of the screen
+ */
+export function getSpriteModel(
+  out: mat3,
+  rect: ReadonlyVec4,
+  screen: { width: number; height: number },
+  opts?: SpriteDrawOptions
+): mat3 {
+  mat3.identity(out);
+  if (opts?.rotation) {
+    const pivot = opts.pivot ?? CENTER;
+    const x = rect[3] + (rect[1] - rect[3]) * pivot[0];
+    const y = rect[0] + (rect[2] - rect[0]) * pivot[1];
+    mat3.scale(out, out, [1 / screen.width, 1 / screen.height]);
+    mat3.translate(out, out, [x * screen.width, y * screen.height]);
+    mat3.rotate(out, out, opts.rotation);
+    mat3.scale(out, out, [screen.width, screen.height]);
+    mat3.translate(out, out, [-x, -y]);
+  }
+  mat3.translate(out, out, [rect[3], rect[0]]);
+  mat3.scale(out, out, [rect[1] - rect[3], rect[2] - rect[0]]);
+  return out;
+}
+
+/**
+ * Gets the transform from a unit quad to the texture coordinates of a sprite,
+ * which are mirrored if the sprite is flipped
+ */
+export function getSpriteUV(
+  out: mat3,
+  textureCoords: ReadonlyVec4,
+  texture: { width: number; height: number },
+  opts?: SpriteDrawOptions
+): mat3 {
+  mat3.identity(out);
+  mat3.translate(out, out, [
+    textureCoords[3] / texture.width,
+    textureCoords[0] / texture.height,
+  ]);
+  mat3.scale(out, out, [
+    (textureCoords[1] - textureCoords[3]) / texture.width,
+    (textureCoords[2] - textureCoords[0]) / texture.height,
+  ]);
+  if (opts?.flipX) {
+    mat3.translate(out, out, [1, 0]);
+    mat3.scale(out, out, [-1, 1]);
+  }
+  if (opts?.flipY) {
+    mat3.translate(out, out, [0, 1]);
+    mat3.scale(out, out, [1, -1]);
+  }
+  return out;
 }
 
 function getSpriteState(): Map<
@@ -132,10 +244,10 @@ export function loadSpriteSheetSync<T>(
   sheet: SpriteSheetConfig,
   textures: T,
 ): SpriteSheet<T> {
-  const value = createSpriteFrames(sheet, textures);
+  const value = createSpriteFrames(ctx, sheet, textures);
   registerSprite(sheet, (newSheet) => {
     Object.keys(value).forEach((k) => delete value[k]);
-    Object.assign(value, createSpriteFrames(newSheet, textures));
+    Object.assign(value, createSpriteFrames(ctx, newSheet, textures));
   });
   return {
     ...value,
@@ -143,25 +255,65 @@ export function loadSpriteSheetSync<T>(
   };
 }
 
-function createSpriteFrames<T>(sheet: SpriteSheetConfig, textures: T) {
+function createSpriteFrames<T>(
+  ctx: GameContext,
+  sheet: SpriteSheetConfig,
+  textures: T
+) {
   return Object.keys(sheet.sprites).reduce(
     (p: Record<string, Sprite<T>>, n: string) => {
       const sprite = sheet.sprites[n];
       const frames = sprite.frames.map((f) =>
         vec4.fromValues(f.top, f.right, f.bottom, f.left)
       );
+      const nineSlice = sprite.nineSlice
+        ? vec4.fromValues(
+          sprite.nineSlice.top,
+          sprite.nineSlice.right,
+          sprite.nineSlice.bottom,
+          sprite.nineSlice.left
+        )
+        : null;
       p[n] = {
         index: sprite.index,
         width: sprite.width,
         height: sprite.height,
         frames,
+        nineSlice,
         draw: (
           effect: SpriteEffect<T>,
           position: ReadonlyVec4,
-          frame: number = 0
+          frame: number = 0,
+          opts?: SpriteDrawOptions
         ) => {
           effect.setTextures(textures);
-          effect.draw(position, frames[Math.floor(frame) % frames.length]);
+          effect.draw(
+            position,
+            frames[Math.floor(frame) % frames.length],
+            opts
+          );
+          return p[n];
+        },
+        drawNineSlice: (
+          effect: SpriteEffect<T>,
+          position: ReadonlyVec4,
+          frame: number = 0,
+          opts?: SpriteDrawOptions
+        ) => {
+          const textureCoords = frames[Math.floor(frame) % frames.length];
+          effect.setTextures(textures);
+          if (!nineSlice) {
+            effect.draw(position, textureCoords, opts);
+          } else {
+            drawNineSlice(
+              ctx,
+              effect,
+              position,
+              textureCoords,
+              nineSlice,
+              opts
+            );
+          }
           return p[n];
         },
       };
@@ -171,6 +323,76 @@ function createSpriteFrames<T>(sheet: SpriteSheetConfig, textures: T) {
   );
 }
 
+/**
+ * Draws the nine regions of a 9-slice. The corners are drawn at their
+ * original size, the edges are stretched along their length & the center is
+ * stretched in both directions.
+ */
+function drawNineSlice<T>(
+  ctx: GameContext,
+  effect: SpriteEffect<T>,
+  position: ReadonlyVec4,
+  textureCoords: ReadonlyVec4,
+  insets: ReadonlyVec4,
+  opts?: SpriteDrawOptions
+) {
+  // when flipped, the borders swap sides along with the regions between them
+  const flipX = !!opts?.flipX;
+  const flipY = !!opts?.flipY;
+
+  // the position is in screen space, while the insets are in pixels
+  const top = insets[flipY ? 2 : 0] / ctx.screen.height;
+  const right = insets[flipX ? 3 : 1] / ctx.screen.width;
+  const bottom = insets[flipY ? 0 : 2] / ctx.screen.height;
+  const left = insets[flipX ? 1 : 3] / ctx.screen.width;
+  const xs = [position[3], position[3] + left, position[1] - right, position[1]];
+  const ys = [position[0], position[0] + top, position[2] - bottom, position[2]];
+
+  // texture coordinates are usually flipped vertically, so the insets are
+  // applied towards the center of the frame in whichever direction that is
+  const dy = Math.sign(textureCoords[2] - textureCoords[0]);
+  const us = [
+    textureCoords[3],
+    textureCoords[3] + insets[3],
+    textureCoords[1] - insets[1],
+    textureCoords[1],
+  ];
+  const vs = [
+    textureCoords[0],
+    textureCoords[0] + dy * insets[0],
+    textureCoords[2] - dy * insets[2],
+    textureCoords[2],
+  ];
+
+  // every region rotates around the pivot of the whole position
+  const pivot = opts?.pivot ?? CENTER;
+  const pivotX = position[3] + (position[1] - position[3]) * pivot[0];
+  const pivotY = position[0] + (position[2] - position[0]) * pivot[1];
+
+  for (let y = 0; y < 3; ++y) {
+    for (let x = 0; x < 3; ++x) {
+      // skip regions with no area when the position is smaller than the
+      // borders
+      if (xs[x + 1] <= xs[x] || ys[y + 1] <= ys[y]) {
+        continue;
+      }
+      const u = flipX ? 2 - x : x;
+      const v = flipY ? 2 - y : y;
+      effect.draw(
+        vec4.fromValues(ys[y], xs[x + 1], ys[y + 1], xs[x]),
+        vec4.fromValues(vs[v], us[u + 1], vs[v + 1], us[u]),
+        opts && {
+          ...opts,
+          pivot: vec2.fromValues(
+            (pivotX - xs[x]) / (xs[x + 1] - xs[x]),
+            (pivotY - ys[y]) / (ys[y + 1] - ys[y])
+          ),
+        }
+      );
+    }
+  }
+}
+
 export class SpriteAnimator<T> {
   #sheet: SpriteSheet<T>;
   #sprite: Sprite<T>;
@@ -221,7 +443,12 @@ export class SpriteAnimator<T> {
     }
   }
 
-  draw(effect: SpriteEffect<T>, position: ReadonlyVec4, offset: number = 0) {
-    this.#sprite.draw(effect, position, this.frame + offset);
+  draw(
+    effect: SpriteEffect<T>,
+    position: ReadonlyVec4,
+    offset: number = 0,
+    opts?: SpriteDrawOptions
+  ) {
+    this.#sprite.draw(effect, position, this.frame + offset, opts);
   }
 }
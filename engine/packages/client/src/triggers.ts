@@ -0,0 +1,159 @@
+import { ReadonlyVec2, ReadonlyVec4 } from "gl-matrix";
+
+import { CoreComponents, Entity, System, World } from "./entities.js";
+import { GameContext } from "./game.js";
+import { MapData } from "./map.js";
+
+export type TriggerEventType = "enter" | "exit" | "interact";
+
+export type TriggerAction =
+  | { type: "warp"; map: string; x: number; y: number }
+  | { type: "dialog"; text: string };
+
+export interface TriggerDefinition {
+  // the events that cause the action to run
+  on: Array<TriggerEventType>;
+  action: TriggerAction;
+}
+
+/**
+ * Trigger definitions for a map, keyed by the triggerId painted onto its
+ * tiles. A triggerId of 0 means the tile has no trigger.
+ */
+export interface MapTriggers {
+  [triggerId: string]: TriggerDefinition;
+}
+
+export interface TriggerEvent {
+  type: TriggerEventType;
+  entity: Entity;
+  triggerId: number;
+  trigger: TriggerDefinition;
+}
+
+export type TriggerMap = Pick<MapData, "tileSize" | "layers" | "read">;
+
+/**
+ * Returns the ids of all triggers on the tiles under an entity. If the
+ * entity has a bounding box then every tile it overlaps is checked,
+ * otherwise only the tile containing its position.
+ */
+export function getTriggerIds(
+  map: TriggerMap,
+  position: ReadonlyVec2,
+  boundingBox?: ReadonlyVec4,
+): Array<number> {
+  const minX = Math.floor(
+    (position[0] + (boundingBox ? boundingBox[3] : 0)) / map.tileSize,
+  );
+  const minY = Math.floor(
+    (position[1] + (boundingBox ? boundingBox[0] : 0)) / map.tileSize,
+  );
+  // bounding box edges that lie exactly on a tile boundary don't overlap
+  // the next tile
+  const maxX = boundingBox
+    ? Math.ceil((position[0] + boundingBox[1]) / map.tileSize) - 1
+    : minX;
+  const maxY = boundingBox
+    ? Math.ceil((position[1] + boundingBox[2]) / map.tileSize) - 1
+    : minY;
+
+  const ids: Array<number> = [];
+  for (let y = minY; y <= maxY; ++y) {
+    for (let x = minX; x <= maxX; ++x) {
+      for (let z = 0; z < map.layers; ++z) {
+        const triggerId = map.read(x, y, z).triggerId;
+        if (triggerId !== 0 && ids.indexOf(triggerId) < 0) {
+          ids.push(triggerId);
+        }
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Tracks which map triggers each entity with a trigger component overlaps
+ * and raises enter & exit events as that changes. Interact events are raised
+ * by calling interact(), usually in response to player input. Events are
+ * only raised for trigger definitions that list them in their `on` events.
+ */
+export class TriggerSystem<
+  C extends Pick<CoreComponents<any>, "transform" | "trigger" | "collider">,
+> implements System<C> {
+  map: TriggerMap | null;
+  triggers: MapTriggers;
+  #handler: (event: TriggerEvent, world: World<C>, ctx: GameContext) => void;
+
+  constructor(
+    handler: (event: TriggerEvent, world: World<C>, ctx: GameContext) => void,
+  ) {
+    this.map = null;
+    this.triggers = {};
+    this.#handler = handler;
+  }
+
+  /**
+   * Changes the map that triggers are read from. Entities are considered to
+   * have left all the triggers on the previous map without exit events.
+   */
+  setMap(world: World<C>, map: TriggerMap | null, triggers: MapTriggers = {}) {
+    this.map = map;
+    this.triggers = triggers;
+    for (const [_, c] of world.query("trigger")) {
+      c.trigger.active = [];
+    }
+  }
+
+  update(world: World<C>, ctx: GameContext, _fixedDelta: number) {
+    if (!this.map) {
+      return;
+    }
+    for (const [entity, c] of world.query("transform", "trigger")) {
+      const collider = world.get(entity, "collider");
+      const ids = getTriggerIds(
+        this.map,
+        c.transform.position,
+        collider?.boundingBox,
+      );
+      const previous = c.trigger.active;
+      c.trigger.active = ids;
+      for (const id of previous) {
+        if (ids.indexOf(id) < 0) {
+          this.#raise(world, ctx, "exit", entity, id);
+        }
+      }
+      for (const id of ids) {
+        if (previous.indexOf(id) < 0) {
+          this.#raise(world, ctx, "enter", entity, id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Raises interact events for every trigger the entity currently overlaps
+   */
+  interact(world: World<C>, ctx: GameContext, entity: Entity) {
+    const trigger = world.get(entity, "trigger");
+    if (!trigger) {
+      return;
+    }
+    for (const id of [...trigger.active]) {
+      this.#raise(world, ctx, "interact", entity, id);
+    }
+  }
+
+  #raise(
+    world: World<C>,
+    ctx: GameContext,
+    type: TriggerEventType,
+    entity: Entity,
+    triggerId: number,
+  ) {
+    const trigger = this.triggers[triggerId];
+    if (trigger && trigger.on.indexOf(type) >= 0) {
+      this.#handler({ type, entity, triggerId, trigger }, world, ctx);
+    }
+  }
+}
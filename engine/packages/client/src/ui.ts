@@ -0,0 +1,636 @@
+import { ReadonlyVec2, ReadonlyVec4, vec2, vec4 } from "gl-matrix";
+
+import { Font, TextLayoutOptions, measureText } from "./font.js";
+import { GameContext } from "./game.js";
+import { Sprite } from "./sprite.js";
+
+export type UIAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+const ANCHORS: Record<UIAnchor, ReadonlyVec2> = {
+  "top-left": vec2.fromValues(0, 0),
+  top: vec2.fromValues(0.5, 0),
+  "top-right": vec2.fromValues(1, 0),
+  left: vec2.fromValues(0, 0.5),
+  center: vec2.fromValues(0.5, 0.5),
+  right: vec2.fromValues(1, 0.5),
+  "bottom-left": vec2.fromValues(0, 1),
+  bottom: vec2.fromValues(0.5, 1),
+  "bottom-right": vec2.fromValues(1, 1),
+};
+
+export interface UIElementOptions {
+  // where the element is placed within its parent. Ignored for the children
+  // of panels that stack their children. Defaults to top-left
+  anchor?: UIAnchor;
+  // moves the element in pixels from its anchored position
+  offset?: ReadonlyVec2;
+  // a size in pixels, or fill to take up all of the space available in the
+  // parent. Defaults to the size of the elements content
+  width?: number | "fill";
+  height?: number | "fill";
+  visible?: boolean;
+}
+
+export interface UITextOptions extends TextLayoutOptions {
+  color?: ReadonlyVec4;
+}
+
+export interface UIBorder {
+  color: ReadonlyVec4;
+  width: number;
+}
+
+/**
+ * Draws the primitives that UI elements are made of. All rects are
+ * [top, right, bottom, left] in pixels relative to the top left of the
+ * screen.
+ */
+export interface UIRenderer<T> {
+  fill(rect: ReadonlyVec4, color: ReadonlyVec4, border?: UIBorder): void;
+  text(font: Font, text: string, rect: ReadonlyVec4, opts: UITextOptions): void;
+  // if nineSlice is set the sprite is drawn using its 9-slice data
+  sprite(
+    sprite: Sprite<T>,
+    rect: ReadonlyVec4,
+    opts?: { frame?: number; nineSlice?: boolean },
+  ): void;
+}
+
+export interface UIPointer {
+  // relative to the top left of the screen
+  readonly position: ReadonlyVec2;
+  readonly down: boolean;
+  // the pointer was released this update
+  readonly released: boolean;
+}
+
+export class UIElement<T> {
+  // the laid out position of the element in pixels relative to the top left
+  // of the screen. Only valid after the UI has been updated
+  readonly rect: vec4;
+  anchor: UIAnchor;
+  offset: vec2;
+  width: number | "fill" | null;
+  height: number | "fill" | null;
+  visible: boolean;
+
+  constructor(opts: UIElementOptions = {}) {
+    this.rect = vec4.create();
+    this.anchor = opts.anchor ?? "top-left";
+    this.offset = opts.offset ? vec2.clone(opts.offset) : vec2.create();
+    this.width = opts.width ?? null;
+    this.height = opts.height ?? null;
+    this.visible = opts.visible ?? true;
+  }
+
+  /**
+   * The size of the elements content in pixels, given the width available
+   * to it. Used to size the element if it doesn't have a fixed size.
+   */
+  measure(_width: number): vec2 {
+    return vec2.create();
+  }
+
+  layout(rect: ReadonlyVec4) {
+    vec4.copy(this.rect, rect);
+  }
+
+  /**
+   * Returns true if any of the pointers are over an interactive part of the
+   * element, in which case the game should ignore them.
+   */
+  handlePointers(_pointers: Array<UIPointer>): boolean {
+    return false;
+  }
+
+  draw(_renderer: UIRenderer<T>) {}
+}
+
+export interface UIPanelOptions extends UIElementOptions {
+  padding?: number;
+  // if set, children are placed one after another rather than by their
+  // anchors. Children that fill the stacking direction share any space left
+  // over after the other children are placed
+  direction?: "row" | "column" | null;
+  gap?: number;
+  // how stacked children are aligned across the stacking direction
+  align?: "start" | "center" | "end";
+  color?: ReadonlyVec4 | null;
+  border?: UIBorder | null;
+}
+
+/**
+ * A container for other elements, optionally with a solid background.
+ * Pointers over a panel with a background are captured so that the game
+ * doesn't react to clicks or touches on menus & dialogs.
+ */
+export class UIPanel<T> extends UIElement<T> {
+  readonly children: Array<UIElement<T>>;
+  padding: number;
+  direction: "row" | "column" | null;
+  gap: number;
+  align: "start" | "center" | "end";
+  color: ReadonlyVec4 | null;
+  border: UIBorder | null;
+
+  constructor(opts: UIPanelOptions = {}) {
+    super(opts);
+    this.children = [];
+    this.padding = opts.padding ?? 0;
+    this.direction = opts.direction ?? null;
+    this.gap = opts.gap ?? 0;
+    this.align = opts.align ?? "start";
+    this.color = opts.color ?? null;
+    this.border = opts.border ?? null;
+  }
+
+  add(...children: Array<UIElement<T>>): UIPanel<T> {
+    this.children.push(...children);
+    return this;
+  }
+
+  remove(child: UIElement<T>): UIPanel<T> {
+    const index = this.children.indexOf(child);
+    if (index >= 0) {
+      this.children.splice(index, 1);
+    }
+    return this;
+  }
+
+  measure(width: number): vec2 {
+    const available = vec2.fromValues(width - this.padding * 2, 0);
+    const size = vec2.create();
+    const visible = this.children.filter((c) => c.visible);
+    if (this.direction) {
+      const main = this.direction === "row" ? 0 : 1;
+      const cross = 1 - main;
+      for (const child of visible) {
+        const childSize = measureChild(child, available);
+        size[main] += childSize[main];
+        size[cross] = Math.max(size[cross], childSize[cross]);
+      }
+      size[main] += Math.max(0, visible.length - 1) * this.gap;
+    } else {
+      for (const child of visible) {
+        const childSize = measureChild(child, available);
+        size[0] = Math.max(size[0], childSize[0] + Math.abs(child.offset[0]));
+        size[1] = Math.max(size[1], childSize[1] + Math.abs(child.offset[1]));
+      }
+    }
+    return vec2.add(
+      size,
+      size,
+      vec2.fromValues(this.padding * 2, this.padding * 2),
+    );
+  }
+
+  layout(rect: ReadonlyVec4) {
+    super.layout(rect);
+    const content = vec4.fromValues(
+      rect[0] + this.padding,
+      rect[1] - this.padding,
+      rect[2] - this.padding,
+      rect[3] + this.padding,
+    );
+    const available = vec2.fromValues(
+      Math.max(0, content[1] - content[3]),
+      Math.max(0, content[2] - content[0]),
+    );
+    const visible = this.children.filter((c) => c.visible);
+
+    if (!this.direction) {
+      for (const child of visible) {
+        const size = resolveSize(child, available);
+        const anchor = ANCHORS[child.anchor];
+        child.layout(
+          toRect(
+            vec2.fromValues(
+              content[3] +
+                Math.floor((available[0] - size[0]) * anchor[0]) +
+                child.offset[0],
+              content[0] +
+                Math.floor((available[1] - size[1]) * anchor[1]) +
+                child.offset[1],
+            ),
+            size,
+          ),
+        );
+      }
+      return;
+    }
+
+    const main = this.direction === "row" ? 0 : 1;
+    const cross = 1 - main;
+    const sizes = visible.map((child) =>
+      resolveStackedSize(child, available, main),
+    );
+
+    // share out the space left over after the other children
+    const fills = visible.filter((c) => isStackedFill(c, main)).length;
+    if (fills) {
+      const used =
+        sizes.reduce((p, s) => p + s[main], 0) +
+        Math.max(0, visible.length - 1) * this.gap;
+      const share = Math.max(0, Math.floor((available[main] - used) / fills));
+      visible.forEach((child, i) => {
+        if (isStackedFill(child, main)) {
+          sizes[i][main] = share;
+          // content sized elements may need to be measured again now that
+          // their width is known
+          if (main === 0 && child.height === null) {
+            sizes[i][1] = child.measure(share)[1];
+          }
+        }
+      });
+    }
+
+    const position = vec2.fromValues(content[3], content[0]);
+    const alignment =
+      this.align === "center" ? 0.5 : this.align === "end" ? 1 : 0;
+    visible.forEach((child, i) => {
+      const childPosition = vec2.clone(position);
+      childPosition[cross] += Math.floor(
+        (available[cross] - sizes[i][cross]) * alignment,
+      );
+      vec2.add(childPosition, childPosition, child.offset);
+      child.layout(toRect(childPosition, sizes[i]));
+      position[main] += sizes[i][main] + this.gap;
+    });
+  }
+
+  handlePointers(pointers: Array<UIPointer>): boolean {
+    let captured = false;
+    // children are drawn in order, so the last child is on top
+    for (let i = this.children.length - 1; i >= 0; --i) {
+      const child = this.children[i];
+      if (child.visible && child.handlePointers(pointers)) {
+        captured = true;
+      }
+    }
+    return (
+      captured ||
+      (this.color !== null && pointers.some((p) => contains(this.rect, p)))
+    );
+  }
+
+  draw(renderer: UIRenderer<T>) {
+    if (this.color) {
+      renderer.fill(this.rect, this.color, this.border ?? undefined);
+    }
+    for (const child of this.children) {
+      if (child.visible) {
+        child.draw(renderer);
+      }
+    }
+  }
+}
+
+export interface UIFrameOptions<T> extends UIPanelOptions {
+  sprite: Sprite<T>;
+}
+
+/**
+ * A panel with a 9-slice sprite background, for dialog boxes & menus.
+ */
+export class UIFrame<T> extends UIPanel<T> {
+  sprite: Sprite<T>;
+
+  constructor(opts: UIFrameOptions<T>) {
+    super(opts);
+    this.sprite = opts.sprite;
+  }
+
+  handlePointers(pointers: Array<UIPointer>): boolean {
+    return (
+      super.handlePointers(pointers) ||
+      pointers.some((p) => contains(this.rect, p))
+    );
+  }
+
+  draw(renderer: UIRenderer<T>) {
+    renderer.sprite(this.sprite, this.rect, { nineSlice: true });
+    super.draw(renderer);
+  }
+}
+
+export interface UILabelOptions extends UIElementOptions, UITextOptions {
+  text: string;
+  font: Font;
+}
+
+export class UILabel<T> extends UIElement<T> {
+  text: string;
+  font: Font;
+  color: ReadonlyVec4 | null;
+  align: UITextOptions["align"];
+  wrap: boolean;
+
+  constructor(opts: UILabelOptions) {
+    super(opts);
+    this.text = opts.text;
+    this.font = opts.font;
+    this.color = opts.color ?? null;
+    this.align = opts.align;
+    this.wrap = opts.wrap ?? true;
+  }
+
+  measure(width: number): vec2 {
+    const size = measureText(
+      this.font.config,
+      this.text,
+      this.wrap ? width : Infinity,
+    );
+    return vec2.fromValues(size.width, size.height);
+  }
+
+  draw(renderer: UIRenderer<T>) {
+    renderer.text(this.font, this.text, this.rect, {
+      color: this.color ?? undefined,
+      align: this.align,
+      wrap: this.wrap,
+    });
+  }
+}
+
+export interface UIButtonColors {
+  normal: ReadonlyVec4;
+  hover: ReadonlyVec4;
+  pressed: ReadonlyVec4;
+  disabled: ReadonlyVec4;
+  text: ReadonlyVec4;
+}
+
+const DEFAULT_BUTTON_COLORS: UIButtonColors = {
+  normal: vec4.fromValues(0.2, 0.2, 0.3, 1),
+  hover: vec4.fromValues(0.3, 0.3, 0.45, 1),
+  pressed: vec4.fromValues(0.1, 0.1, 0.15, 1),
+  disabled: vec4.fromValues(0.2, 0.2, 0.2, 0.5),
+  text: vec4.fromValues(1, 1, 1, 1),
+};
+
+export interface UIButtonOptions extends UIElementOptions {
+  text: string;
+  font: Font;
+  onClick?: () => void;
+  padding?: number;
+  disabled?: boolean;
+  colors?: Partial<UIButtonColors>;
+  border?: UIBorder | null;
+}
+
+/**
+ * A text button which is clicked when a mouse button or touch is released
+ * over it.
+ */
+export class UIButton<T> extends UIElement<T> {
+  text: string;
+  font: Font;
+  onClick: (() => void) | null;
+  padding: number;
+  disabled: boolean;
+  colors: UIButtonColors;
+  border: UIBorder | null;
+  #hovered: boolean;
+  #pressed: boolean;
+
+  constructor(opts: UIButtonOptions) {
+    super(opts);
+    this.text = opts.text;
+    this.font = opts.font;
+    this.onClick = opts.onClick ?? null;
+    this.padding = opts.padding ?? 4;
+    this.disabled = opts.disabled ?? false;
+    this.colors = { ...DEFAULT_BUTTON_COLORS, ...opts.colors };
+    this.border = opts.border ?? null;
+    this.#hovered = false;
+    this.#pressed = false;
+  }
+
+  get hovered(): boolean {
+    return this.#hovered;
+  }
+
+  get pressed(): boolean {
+    return this.#pressed;
+  }
+
+  measure(_width: number): vec2 {
+    const size = measureText(this.font.config, this.text);
+    return vec2.fromValues(
+      size.width + this.padding * 2,
+      size.height + this.padding * 2,
+    );
+  }
+
+  handlePointers(pointers: Array<UIPointer>): boolean {
+    const over = pointers.filter((p) => contains(this.rect, p));
+    this.#hovered = over.length > 0;
+    this.#pressed = !this.disabled && over.some((p) => p.down);
+    if (!this.disabled && over.some((p) => p.released)) {
+      this.onClick?.();
+    }
+    return this.#hovered;
+  }
+
+  draw(renderer: UIRenderer<T>) {
+    renderer.fill(
+      this.rect,
+      this.disabled
+        ? this.colors.disabled
+        : this.#pressed
+          ? this.colors.pressed
+          : this.#hovered
+            ? this.colors.hover
+            : this.colors.normal,
+      this.border ?? undefined,
+    );
+    const textHeight = measureText(this.font.config, this.text).height;
+    const top =
+      this.rect[0] + Math.floor((this.rect[2] - this.rect[0] - textHeight) / 2);
+    renderer.text(
+      this.font,
+      this.text,
+      vec4.fromValues(
+        top,
+        this.rect[1] - this.padding,
+        top + textHeight,
+        this.rect[3] + this.padding,
+      ),
+      { color: this.colors.text, align: "center", wrap: false },
+    );
+  }
+}
+
+export interface UIProgressBarOptions extends UIElementOptions {
+  // between 0 & 1
+  value?: number;
+  color?: ReadonlyVec4;
+  background?: ReadonlyVec4;
+  border?: UIBorder | null;
+}
+
+export class UIProgressBar<T> extends UIElement<T> {
+  value: number;
+  color: ReadonlyVec4;
+  background: ReadonlyVec4;
+  border: UIBorder | null;
+
+  constructor(opts: UIProgressBarOptions = {}) {
+    super(opts);
+    this.value = opts.value ?? 0;
+    this.color = opts.color ?? vec4.fromValues(0.8, 0.2, 0.2, 1);
+    this.background = opts.background ?? vec4.fromValues(0, 0, 0, 0.5);
+    this.border = opts.border ?? null;
+  }
+
+  measure(_width: number): vec2 {
+    return vec2.fromValues(48, 6);
+  }
+
+  draw(renderer: UIRenderer<T>) {
+    renderer.fill(this.rect, this.background, this.border ?? undefined);
+    const inset = this.border?.width ?? 0;
+    const width = this.rect[1] - this.rect[3] - inset * 2;
+    const value = Math.max(0, Math.min(1, this.value));
+    if (value > 0) {
+      renderer.fill(
+        vec4.fromValues(
+          this.rect[0] + inset,
+          this.rect[3] + inset + Math.round(width * value),
+          this.rect[2] - inset,
+          this.rect[3] + inset,
+        ),
+        this.color,
+      );
+    }
+  }
+}
+
+/**
+ * The root of a tree of UI elements, laid out against the safe area of the
+ * screen. Call update once per update so that the elements can respond to
+ * the mouse & touches, and draw once per draw.
+ */
+export class UI<T> {
+  readonly root: UIPanel<T>;
+  #captured: boolean;
+
+  constructor() {
+    this.root = new UIPanel({ width: "fill", height: "fill" });
+    this.#captured = false;
+  }
+
+  add(...elements: Array<UIElement<T>>): UI<T> {
+    this.root.add(...elements);
+    return this;
+  }
+
+  remove(element: UIElement<T>): UI<T> {
+    this.root.remove(element);
+    return this;
+  }
+
+  /**
+   * Whether the mouse or any touches were over an interactive element in the
+   * last update, in which case the game should ignore them.
+   */
+  get captured(): boolean {
+    return this.#captured;
+  }
+
+  update(ctx: GameContext): boolean {
+    this.root.layout(ctx.screen.safeArea.boundingRect);
+
+    const pointers: Array<UIPointer> = [
+      {
+        position: ctx.mouse.position,
+        down: !!ctx.mouse.down[0],
+        released: !!ctx.mouse.clicked[0],
+      },
+    ];
+    for (const touch of ctx.touches.down.values()) {
+      pointers.push({ position: touch.position, down: true, released: false });
+    }
+    for (const touch of ctx.touches.ended.values()) {
+      pointers.push({ position: touch.position, down: false, released: true });
+    }
+    this.#captured = this.root.handlePointers(pointers);
+    return this.#captured;
+  }
+
+  draw(ctx: GameContext, renderer: UIRenderer<T>) {
+    // elements may have changed since the last update
+    this.root.layout(ctx.screen.safeArea.boundingRect);
+    this.root.draw(renderer);
+  }
+}
+
+function resolveSize<T>(element: UIElement<T>, available: ReadonlyVec2): vec2 {
+  const width =
+    element.width === "fill"
+      ? available[0]
+      : (element.width ?? element.measure(available[0])[0]);
+  const height =
+    element.height === "fill"
+      ? available[1]
+      : (element.height ?? element.measure(width)[1]);
+  return vec2.fromValues(width, height);
+}
+
+// children that fill their parent take up no space when measuring the
+// parent, as they fill whatever size the parent ends up being
+function measureChild<T>(element: UIElement<T>, available: ReadonlyVec2): vec2 {
+  const size = resolveSize(element, available);
+  if (element.width === "fill") {
+    size[0] = 0;
+  }
+  if (element.height === "fill") {
+    size[1] = 0;
+  }
+  return size;
+}
+
+function isStackedFill<T>(element: UIElement<T>, main: number): boolean {
+  return (main === 0 ? element.width : element.height) === "fill";
+}
+
+// children that fill the stacking direction take up no space until the
+// space left over after the other children is known
+function resolveStackedSize<T>(
+  element: UIElement<T>,
+  available: ReadonlyVec2,
+  main: number,
+): vec2 {
+  const size = resolveSize(element, available);
+  if (isStackedFill(element, main)) {
+    size[main] = 0;
+  }
+  return size;
+}
+
+function toRect(position: ReadonlyVec2, size: ReadonlyVec2): vec4 {
+  return vec4.fromValues(
+    position[1],
+    position[0] + size[0],
+    position[1] + size[1],
+    position[0],
+  );
+}
+
+function contains(rect: ReadonlyVec4, pointer: UIPointer): boolean {
+  return (
+    pointer.position[0] >= rect[3] &&
+    pointer.position[0] < rect[1] &&
+    pointer.position[1] >= rect[0] &&
+    pointer.position[1] < rect[2]
+  );
+}
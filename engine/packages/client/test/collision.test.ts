@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { CollisionMap, moveAndSlide } from "../src/collision.js";
+import { MapTile, MapTileCollisionShape } from "../src/map.js";
+
+const TILE_SIZE = 16;
+// [top, right, bottom, left] relative to the position
+const BOX = [0, 8, 8, 0] as const;
+
+// a 10x10 map of walkable tiles, except for the given blocking tiles
+function createMap(
+  blocked: { [tile: string]: MapTileCollisionShape } = {},
+): CollisionMap {
+  return {
+    tileSize: TILE_SIZE,
+    layers: 1,
+    read: (x: number, y: number): MapTile => {
+      const inside = x >= 0 && y >= 0 && x < 10 && y < 10;
+      const shape = blocked[`${x},${y}`];
+      return {
+        index: inside ? 1 : 0,
+        walkable: inside && !shape,
+        spatialHash: false,
+        animated: false,
+        triggerId: 0,
+        collisionShape: shape,
+      };
+    },
+  };
+}
+
+describe("moveAndSlide", () => {
+  it("moves freely through walkable tiles", () => {
+    const result = moveAndSlide(createMap(), [20, 20], BOX, [30, 10]);
+    assert.deepEqual([...result.position], [50, 30]);
+    assert.equal(result.blockedX, false);
+    assert.equal(result.blockedY, false);
+    assert.equal(result.contacts.length, 0);
+  });
+
+  it("stops against a blocking tile & reports the contact", () => {
+    const map = createMap({ "3,1": "full" });
+    const result = moveAndSlide(map, [20, 20], BOX, [30, 0]);
+    // the right edge of the box stops at the left edge of tile 3
+    assert.deepEqual([...result.position], [40, 20]);
+    assert.equal(result.blockedX, true);
+    assert.equal(result.contacts.length, 1);
+    assert.equal(result.contacts[0].tileX, 3);
+    assert.equal(result.contacts[0].tileY, 1);
+    assert.deepEqual([...result.contacts[0].normal], [-1, 0]);
+  });
+
+  it("slides along a wall when moving diagonally into it", () => {
+    const map = createMap({ "3,1": "full", "3,2": "full" });
+    const result = moveAndSlide(map, [20, 20], BOX, [30, 10]);
+    assert.deepEqual([...result.position], [40, 30]);
+    assert.equal(result.blockedX, true);
+    assert.equal(result.blockedY, false);
+  });
+
+  it("only collides with the blocking part of a partial tile", () => {
+    // the top half of the tile below blocks, so the box can move into the
+    // bottom half of the tile it is in but no further
+    const map = createMap({ "1,2": "top" });
+    const blocked = moveAndSlide(map, [20, 20], BOX, [0, 20]);
+    assert.deepEqual([...blocked.position], [20, 24]);
+    assert.equal(blocked.blockedY, true);
+
+    const bottom = createMap({ "1,2": "bottom" });
+    const free = moveAndSlide(bottom, [20, 20], BOX, [0, 10]);
+    assert.deepEqual([...free.position], [20, 30]);
+    assert.equal(free.blockedY, false);
+  });
+
+  it("treats tiles outside the map as blocking", () => {
+    const result = moveAndSlide(createMap(), [4, 4], BOX, [-10, -10]);
+    assert.deepEqual([...result.position], [0, 0]);
+    assert.equal(result.blockedX, true);
+    assert.equal(result.blockedY, true);
+  });
+});
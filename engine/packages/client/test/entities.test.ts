@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { Entity, World } from "../src/entities.js";
+
+interface Components {
+  name: string;
+  health: number;
+  speed: number;
+}
+
+describe("World.query", () => {
+  it("returns only the entities that have all of the components", () => {
+    const world = new World<Components>();
+    const player = world.create({ name: "player", health: 10, speed: 2 });
+    const rock = world.create({ name: "rock" });
+    const slime = world.create({ name: "slime", health: 3 });
+
+    const results = [...world.query("name", "health")];
+    assert.deepEqual(results, [
+      [player, { name: "player", health: 10 }],
+      [slime, { name: "slime", health: 3 }],
+    ]);
+    assert.deepEqual(
+      [...world.query("name")].map(([e]) => e),
+      [player, rock, slime],
+    );
+  });
+
+  it("returns nothing if no entity has a component", () => {
+    const world = new World<Components>();
+    world.create({ name: "player" });
+    assert.deepEqual([...world.query("name", "speed")], []);
+    assert.deepEqual([...world.query()], []);
+  });
+
+  it("reflects components that are added & removed", () => {
+    const world = new World<Components>();
+    const player = world.create({ name: "player" });
+    world.add(player, "speed", 4);
+    assert.deepEqual([...world.query("speed")], [[player, { speed: 4 }]]);
+    world.remove(player, "speed");
+    assert.deepEqual([...world.query("speed")], []);
+  });
+
+  it("allows entities to be created & destroyed while iterating", () => {
+    const world = new World<Components>();
+    const a = world.create({ health: 1 });
+    const b = world.create({ health: 2 });
+
+    const visited: Array<Entity> = [];
+    for (const [entity] of world.query("health")) {
+      visited.push(entity);
+      if (entity === a) {
+        world.destroy(a);
+        world.create({ health: 3 });
+      }
+    }
+    // entities are visited as they were when iteration started
+    assert.deepEqual(visited, [a, b]);
+    assert.equal(world.exists(a), false);
+    assert.deepEqual(
+      [...world.query("health")].map(([, c]) => c.health),
+      [2, 3],
+    );
+  });
+});
@@ -0,0 +1,269 @@
+import { vec2, vec4 } from "gl-matrix";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  CoreComponents,
+  Entity,
+  MovementSystem,
+  World,
+} from "../src/entities.js";
+import { GameClient, GameContext } from "../src/game.js";
+import { HeadlessGameRunner } from "../src/headless-runner.js";
+import { GPUTexture, loadTextureFromUrl } from "../src/images.js";
+import { MapData, encodeMapTile } from "../src/map.js";
+import { ResourceLoader } from "../src/resource-loader.js";
+
+interface State {
+  position: number;
+  resources: ResourceLoader<{ texture: GPUTexture }> | null;
+}
+
+// moves 1px right for every update that ArrowRight is held
+class WalkingGame implements GameClient<State, { position: number }> {
+  #assets: boolean;
+
+  constructor(assets: boolean = false) {
+    this.#assets = assets;
+  }
+
+  onStart(ctx: GameContext, previousState?: { position: number }): State {
+    return {
+      position: previousState?.position ?? 0,
+      resources: this.#assets
+        ? new ResourceLoader({
+            texture: loadTextureFromUrl(ctx, "/images/character.png"),
+          })
+        : null,
+    };
+  }
+
+  onSave(state: State) {
+    return { position: state.position };
+  }
+
+  onUpdate(ctx: GameContext, state: State) {
+    if (ctx.keys.down.has("ArrowRight")) {
+      state.position += 1;
+    }
+  }
+
+  onDraw() {}
+
+  isReady(state: State): boolean {
+    return state.resources?.ready ?? true;
+  }
+}
+
+const FIXED_UPDATE = 1000 / 60;
+const SCREEN = { width: 320, height: 240 };
+
+type MapComponents = Pick<
+  CoreComponents<unknown>,
+  "transform" | "velocity" | "collider"
+>;
+
+interface MapState {
+  map: MapData;
+  world: World<MapComponents>;
+  character: Entity;
+}
+
+const TILE_SIZE = 16;
+// small chunks so that walking across the map crosses chunk boundaries
+const CHUNK_SIZE = 4;
+
+// walks a character right through a streamed map using the engine's movement
+// system, in the same way as the game does
+class MapWalkingGame implements GameClient<MapState, {}> {
+  onStart(ctx: GameContext): MapState {
+    const map = new MapData(TILE_SIZE, {
+      width: 32,
+      height: 16,
+      layers: 1,
+      chunkSize: CHUNK_SIZE,
+      chunkUrl: (x: number, y: number) => `/maps/test/${x}_${y}.png`,
+      loadImageData: (url: string) => ctx.assets.loadImageData(url),
+    });
+    const world = new World<MapComponents>().addSystem(
+      new MovementSystem<MapComponents>(map),
+    );
+    const character = world.create({
+      transform: { position: vec2.fromValues(24, 24) },
+      velocity: { velocity: vec2.create() },
+      collider: { boundingBox: vec4.fromValues(-4, 4, 4, -4) },
+    });
+    return { map, world, character };
+  }
+
+  onSave() {
+    return {};
+  }
+
+  onUpdate(ctx: GameContext, state: MapState, fixedDelta: number) {
+    state.map.updateLoadedChunks(ctx, vec2.create());
+    const velocity = state.world.get(state.character, "velocity")!;
+    vec2.set(velocity.velocity, ctx.keys.down.has("ArrowRight") ? 1 : 0, 0);
+    state.world.update(ctx, fixedDelta);
+  }
+
+  onDraw() {}
+
+  isReady(state: MapState): boolean {
+    const { position } = state.world.get(state.character, "transform")!;
+    return (
+      !state.map.loading &&
+      state.map.isLoaded(
+        Math.floor(position[0] / TILE_SIZE),
+        Math.floor(position[1] / TILE_SIZE),
+      )
+    );
+  }
+}
+
+// serves map chunks in which every tile is walkable except the blocked ones
+function createMapAssets(blocked: Array<string>) {
+  return {
+    loadImage: (url: string) => Promise.reject(new Error(url)),
+    loadImageData: async (url: string) => {
+      const [chunkX, chunkY] = url
+        .slice(url.lastIndexOf("/") + 1, -".png".length)
+        .split("_")
+        .map(Number);
+      const data = new Uint8ClampedArray(CHUNK_SIZE * CHUNK_SIZE * 4);
+      for (let y = 0; y < CHUNK_SIZE; ++y) {
+        for (let x = 0; x < CHUNK_SIZE; ++x) {
+          const tileX = chunkX * CHUNK_SIZE + x;
+          const tileY = chunkY * CHUNK_SIZE + y;
+          encodeMapTile(data, 4 * (y * CHUNK_SIZE + x), {
+            index: 1,
+            triggerId: 0,
+            walkable: !blocked.includes(`${tileX},${tileY}`),
+            spatialHash: false,
+            animated: false,
+          });
+        }
+      }
+      return { width: CHUNK_SIZE, height: CHUNK_SIZE, data } as ImageData;
+    },
+  };
+}
+
+// walks right for 60 ticks, checking that the character never overlaps an
+// unwalkable tile & returns its final position
+async function walkRight(blocked: Array<string>): Promise<vec2> {
+  const runner = new HeadlessGameRunner({
+    game: new MapWalkingGame(),
+    fixedUpdate: FIXED_UPDATE,
+    screen: SCREEN,
+    assets: createMapAssets(blocked),
+    input: [
+      { tick: 0, event: { type: "keydown", key: "ArrowRight" } },
+      { tick: 60, event: { type: "keyup", key: "ArrowRight" } },
+    ],
+  });
+  await runner.stepUntilReady(10);
+
+  const { world, map, character } = runner.state;
+  const { position } = world.get(character, "transform")!;
+  const { boundingBox } = world.get(character, "collider")!;
+  for (let i = 0; i < 60; ++i) {
+    runner.step();
+    const left = Math.floor((position[0] + boundingBox[3]) / TILE_SIZE);
+    const right = Math.ceil((position[0] + boundingBox[1]) / TILE_SIZE) - 1;
+    const top = Math.floor((position[1] + boundingBox[0]) / TILE_SIZE);
+    const bottom = Math.ceil((position[1] + boundingBox[2]) / TILE_SIZE) - 1;
+    for (let y = top; y <= bottom; ++y) {
+      for (let x = left; x <= right; ++x) {
+        assert.ok(
+          map.isWalkable(x, y),
+          `tile ${x},${y} is unwalkable at tick ${runner.tick}`,
+        );
+      }
+    }
+  }
+  assert.equal(runner.tick, 60);
+  return position;
+}
+
+describe("HeadlessGameRunner", () => {
+  it("moves the character 60px when ArrowRight is held for 60 ticks", () => {
+    const runner = new HeadlessGameRunner({
+      game: new WalkingGame(),
+      fixedUpdate: FIXED_UPDATE,
+      screen: SCREEN,
+      input: [
+        { tick: 0, event: { type: "keydown", key: "ArrowRight" } },
+        { tick: 60, event: { type: "keyup", key: "ArrowRight" } },
+      ],
+    });
+
+    runner.step(60);
+    assert.equal(runner.state.position, 60);
+    runner.step(60);
+    assert.equal(runner.state.position, 60);
+    assert.deepEqual(runner.save(), { position: 60 });
+  });
+
+  it("loads assets through the provided loader", async () => {
+    const loaded: Array<string> = [];
+    const runner = new HeadlessGameRunner({
+      game: new WalkingGame(true),
+      fixedUpdate: FIXED_UPDATE,
+      screen: SCREEN,
+      assets: {
+        loadImage: async (url) => {
+          loaded.push(url);
+          return { width: 16, height: 32 } as HTMLImageElement;
+        },
+        loadImageData: (url) => Promise.reject(new Error(url)),
+      },
+    });
+
+    await runner.stepUntilReady(10);
+    assert.deepEqual(loaded, ["/images/character.png"]);
+    runner.state.resources!.ifReady((r) => {
+      assert.equal(r.texture.width, 16);
+      assert.equal(r.texture.height, 32);
+    });
+  });
+
+  it("doesn't apply input or count ticks until the game is ready", async () => {
+    const runner = new HeadlessGameRunner({
+      game: new WalkingGame(true),
+      fixedUpdate: FIXED_UPDATE,
+      screen: SCREEN,
+      assets: {
+        loadImage: async () => ({ width: 16, height: 16 }) as HTMLImageElement,
+        loadImageData: (url) => Promise.reject(new Error(url)),
+      },
+      input: [
+        { tick: 0, event: { type: "keydown", key: "ArrowRight" } },
+        { tick: 10, event: { type: "keyup", key: "ArrowRight" } },
+      ],
+    });
+
+    // the asset load can't resolve until the runner yields
+    runner.step(5);
+    assert.equal(runner.tick, 0);
+    assert.equal(runner.state.position, 0);
+
+    await runner.stepUntilReady(10);
+    runner.step(20);
+    assert.equal(runner.tick, 20);
+    assert.equal(runner.state.position, 10);
+  });
+});
+
+describe("HeadlessGameRunner with a streamed map", () => {
+  it("walks 60px when ArrowRight is held for 60 ticks", async () => {
+    // the blocking tile is just beyond where the character stops
+    const position = await walkRight(["6,1"]);
+    assert.deepEqual([...position], [84, 24]);
+  });
+
+  it("stops the character at a blocking tile", async () => {
+    const position = await walkRight(["3,1"]);
+    assert.deepEqual([...position], [44, 24]);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SaveMigrations } from "../src/save-store.js";
+
+interface SaveV3 {
+  version: 3;
+  map: string;
+  position: [number, number];
+}
+
+function createMigrations() {
+  return new SaveMigrations<SaveV3>(3)
+    .register(1, (state) => ({ ...state, version: 2, x: 0, y: 0 }))
+    .register(2, (state) => ({
+      version: 3,
+      map: "overworld",
+      position: [state.x as number, state.y as number],
+    }));
+}
+
+describe("SaveMigrations", () => {
+  it("upgrades a save through each version in turn", () => {
+    assert.deepEqual(createMigrations().migrate({ version: 1 }), {
+      version: 3,
+      map: "overworld",
+      position: [0, 0],
+    });
+    assert.deepEqual(createMigrations().migrate({ version: 2, x: 4, y: 5 }), {
+      version: 3,
+      map: "overworld",
+      position: [4, 5],
+    });
+  });
+
+  it("returns saves at the current version unchanged", () => {
+    const save = { version: 3, map: "cave", position: [1, 2] };
+    assert.equal(createMigrations().migrate(save), save);
+  });
+
+  it("rejects saves that can't be migrated", () => {
+    const migrations = createMigrations();
+    assert.throws(() => migrations.migrate(null), /missing a version/);
+    assert.throws(() => migrations.migrate({}), /missing a version/);
+    assert.throws(
+      () => migrations.migrate({ version: 0 }),
+      /No migration from save version 0/,
+    );
+    assert.throws(
+      () => migrations.migrate({ version: 4 }),
+      /Invalid save version 4/,
+    );
+  });
+
+  it("rejects migrations that don't increase the version", () => {
+    const migrations = new SaveMigrations(2).register(1, (state) => state);
+    assert.throws(
+      () => migrations.migrate({ version: 1 }),
+      /didn't increase the version/,
+    );
+  });
+
+  it("doesn't allow a version to be migrated twice", () => {
+    const migrations = createMigrations();
+    assert.throws(
+      () => migrations.register(1, (state) => ({ ...state, version: 2 })),
+      /already registered/,
+    );
+  });
+});
@@ -0,0 +1,20 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_lighting;
+uniform float u_threshold;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+const vec3 LUMINANCE = vec3(0.2126, 0.7152, 0.0722);
+
+void main() {
+  vec3 color = texture(u_lighting, v_texCoord).rgb;
+  float brightness = dot(color, LUMINANCE);
+  // only the part of the lighting that is brighter than the threshold blooms,
+  // keeping the hue of the original color
+  float amount = max(brightness - u_threshold, 0.0) / max(brightness, 0.0001);
+  o_color = vec4(color * amount, 1.0);
+}
@@ -1,52 +1,138 @@
 #version 300 es
 
-precision mediump float;
+// lights are positioned in pixels, which needs more precision than mediump
+precision highp float;
 
 in vec2 v_texCoord;
 in vec3 v_ambient;
 in vec3 v_diffuse;
 in vec3 v_direction;
 in float v_radius;
+// spot lights: the xy direction of the cone & the cosines of its outer & inner
+// angles. area lights: the half width & height of the lights rect
+in vec4 v_shape;
+// the attenuation exponent & specular power of the light
+in vec2 v_falloff;
+in vec2 v_lightCoord;
 
 uniform vec3 u_viewDirection;
 uniform int u_lightingMode;
 uniform sampler2D u_albedoTexture;
 uniform sampler2D u_normalTexture;
 uniform sampler2D u_specularTexture;
+uniform sampler2D u_cookieTexture;
+uniform int u_hasCookie;
 uniform mat3 u_toTangentSpace;
+uniform vec2 u_screenSize;
 
 const int LIGHTING_MODE_DIRECTIONAL = 0;
 const int LIGHTING_MODE_POINT = 1;
-const float LIGHT_ATTENUATION_EXP = 2.0;
-const float SPECULAR_POWER = 32.0;
+const int LIGHTING_MODE_SPOT = 2;
+const int LIGHTING_MODE_AREA = 3;
+// the height in pixels of a fully white pixel in a sprites height layer
+const float MAX_OCCLUDER_HEIGHT = 32.0;
+const float MAX_SHADOW_LENGTH = 64.0;
+const int SHADOW_STEPS = 16;
+const float SHADOW_SOFTNESS = 2.0;
+const float SHADOW_STRENGTH = 0.85;
 
 layout(location = 0) out vec4 o_lighting;
 
+float getHeight(vec2 texCoord) {
+  return texture(u_specularTexture, texCoord).g * MAX_OCCLUDER_HEIGHT;
+}
+
+// marches from the surface towards the light through the heights in the
+// gbuffer. direction is in texture space, and maxDistance is in pixels with the
+// ray rising by slope pixels for every pixel travelled
+float getVisibility(vec2 direction, float maxDistance, float slope, float surfaceHeight) {
+  vec2 pixelSize = 1.0 / u_screenSize;
+  float stepSize = max(1.0, maxDistance / float(SHADOW_STEPS));
+  float visibility = 1.0;
+  for (int i = 1; i <= SHADOW_STEPS; ++i) {
+    float d = float(i) * stepSize;
+    if (d >= maxDistance) {
+      break;
+    }
+    float occluderHeight = getHeight(v_texCoord + direction * d * pixelSize);
+    float rayHeight = surfaceHeight + slope * d;
+    // occluders that the ray only just clips cast a softer shadow
+    visibility = min(visibility, 1.0 - smoothstep(0.0, SHADOW_SOFTNESS, occluderHeight - rayHeight));
+  }
+  return mix(1.0, visibility, SHADOW_STRENGTH);
+}
+
 void main() {
   vec3 tNormal = normalize(texture(u_normalTexture, v_texCoord).rgb * 2.0 - 1.0);
   vec3 albedo = texture(u_albedoTexture, v_texCoord).rgb;
-  vec3 specular = texture(u_specularTexture, v_texCoord).rgb;
+  // the green channel of the specular texture holds the height
+  float specular = texture(u_specularTexture, v_texCoord).r;
+  float surfaceHeight = getHeight(v_texCoord);
 
   vec3 ambient = v_ambient * albedo;
 
+  // in all modes other than directional v_direction is actually a position in
+  // pixels relative to the top left of the screen, and area lights shine from
+  // the closest point in their rect
+  vec2 pixel = v_texCoord * u_screenSize;
+  vec3 lightPosition = u_lightingMode == LIGHTING_MODE_AREA
+    ? vec3(v_direction.xy + clamp(pixel - v_direction.xy, -v_shape.xy, v_shape.xy), v_direction.z)
+    : v_direction;
   vec3 lightDirection = u_lightingMode == LIGHTING_MODE_DIRECTIONAL 
     ? v_direction 
-    // in point light mode v_direction is actually a position
-    : vec3(v_texCoord, 0.0) - v_direction;
-  lightDirection.y *= u_lightingMode == LIGHTING_MODE_DIRECTIONAL ? 1.0 : -1.0;
+    : vec3(pixel, 0.0) - lightPosition;
   float intensity = u_lightingMode == LIGHTING_MODE_DIRECTIONAL 
     ? 1.0 
-    : pow(1.0 - min(v_radius, length(lightDirection)) / v_radius, LIGHT_ATTENUATION_EXP);
+    : pow(1.0 - min(v_radius, length(lightDirection)) / v_radius, v_falloff.x);
+  if (u_lightingMode == LIGHTING_MODE_SPOT) {
+    vec2 toPixel = lightDirection.xy;
+    float cosAngle = length(toPixel) > 0.0 ? dot(normalize(toPixel), v_shape.xy) : 1.0;
+    intensity *= smoothstep(v_shape.z, v_shape.w, cosAngle);
+  }
+  lightDirection.y *= u_lightingMode == LIGHTING_MODE_DIRECTIONAL ? 1.0 : -1.0;
+
+  vec3 lightColor = u_hasCookie == 1
+    ? v_diffuse * texture(u_cookieTexture, vec2(v_lightCoord.x, 1.0 - v_lightCoord.y)).rgb
+    : v_diffuse;
   vec3 tLightReflection = normalize(lightDirection * -1.0) * u_toTangentSpace;
 
   // make sure the light direction is in the same tangent space as the normal
   float diffuse = max(dot(tNormal, tLightReflection), 0.0);
-  vec3 diffuseColor = albedo * v_diffuse * diffuse * intensity;
+  vec3 diffuseColor = albedo * lightColor * diffuse * intensity;
 
   vec3 tHalfDirection = normalize(tLightReflection + (u_viewDirection * -1.0 * u_toTangentSpace));
   float specularAngle = max(dot(tNormal, tHalfDirection), 0.0);
-  float specularIntensity = pow(specularAngle, SPECULAR_POWER);
-  vec3 specularColor = v_diffuse * specularIntensity * specular * intensity;
+  float specularIntensity = pow(specularAngle, v_falloff.y);
+  vec3 specularColor = lightColor * specularIntensity * specular * intensity;
+
+  float visibility = 1.0;
+  if (u_lightingMode == LIGHTING_MODE_DIRECTIONAL) {
+    // directional lights are infinitely far away, so march a fixed distance
+    // back along the lights direction, which is flipped into texture space
+    vec2 toLight = vec2(-v_direction.x, v_direction.y);
+    float horizontal = length(toLight);
+    if (horizontal > 0.001 && v_direction.z < 0.0) {
+      float slope = -v_direction.z / horizontal;
+      visibility = getVisibility(
+        toLight / horizontal,
+        min(MAX_SHADOW_LENGTH, MAX_OCCLUDER_HEIGHT / slope),
+        slope,
+        surfaceHeight
+      );
+    }
+  } else {
+    vec2 toLight = lightPosition.xy - pixel;
+    float lightDistance = length(toLight);
+    if (lightDistance > 1.0) {
+      visibility = getVisibility(
+        toLight / lightDistance,
+        lightDistance,
+        (lightPosition.z - surfaceHeight) / lightDistance,
+        surfaceHeight
+      );
+    }
+  }
 
-  o_lighting = vec4(ambient + diffuseColor + specularColor, 1.0);
+  // ambient light isn't occluded, so shadows are never fully black
+  o_lighting = vec4(ambient + (diffuseColor + specularColor) * visibility, 1.0);
 }
@@ -8,20 +8,29 @@ in vec3 a_ambient;
 in vec3 a_diffuse;
 in vec3 a_direction;
 in float a_radius;
+in vec4 a_shape;
+in vec2 a_falloff;
 
 out vec3 v_ambient;
 out vec3 v_diffuse;
 out vec3 v_direction;
 out float v_radius;
+out vec4 v_shape;
+out vec2 v_falloff;
 out vec2 v_texCoord;
+out vec2 v_lightCoord;
 
 void main() {
   vec3 uvPosition = a_uv * vec3(a_position, 1.0);
   v_texCoord = uvPosition.xy;
+  // cookies are stretched over the area covered by the light
+  v_lightCoord = a_position;
   v_ambient = a_ambient;
   v_diffuse = a_diffuse;
   v_direction = a_direction;
   v_radius = a_radius;
+  v_shape = a_shape;
+  v_falloff = a_falloff;
 
   vec3 clipPosition = a_mvp * vec3(a_position, 1.0);
   gl_Position = vec4(clipPosition.xy, 0.0, 1.0);
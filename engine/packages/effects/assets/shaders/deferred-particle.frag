@@ -0,0 +1,43 @@
+#version 300 es
+
+precision mediump float;
+
+in vec2 v_texCoord;
+in vec4 v_color;
+in vec3 v_emissive;
+
+uniform sampler2D u_diffuseTexture;
+uniform sampler2D u_normalTexture;
+uniform sampler2D u_specularTexture;
+uniform sampler2D u_emissiveTexture;
+
+layout(location = 0) out vec4 o_normal;
+layout(location = 1) out vec4 o_albedo;
+layout(location = 2) out vec4 o_specular;
+layout(location = 3) out vec4 o_lighting;
+layout(location = 4) out vec4 o_mask;
+
+const mat4 BAYER = mat4(
+  0.0 / 16.0, 12.0 / 16.0, 3.0 / 16.0, 15.0 / 16.0,
+  8.0 / 16.0, 4.0 / 16.0, 11.0 / 16.0, 7.0 / 16.0,
+  2.0 / 16.0, 14.0 / 16.0, 1.0 / 16.0, 13.0 / 16.0,
+  10.0 / 16.0, 6.0 / 16.0, 9.0 / 16.0, 5.0 / 16.0
+);
+
+void main() {
+  vec4 albedo = texture(u_diffuseTexture, v_texCoord) * v_color;
+  vec3 normal = texture(u_normalTexture, v_texCoord).xyz;
+  vec2 specularHeight = texture(u_specularTexture, v_texCoord).xy;
+  vec3 emissive = texture(u_emissiveTexture, v_texCoord).xyz + v_emissive;
+
+  // gbuffers don't support partial transparency, so particles fade out by
+  // dithering rather than blending
+  ivec2 cell = ivec2(gl_FragCoord.xy) % 4;
+  float transparency = albedo.w > BAYER[cell.x][cell.y] ? 1.0 : 0.0;
+
+  o_albedo = vec4(albedo.xyz * transparency, transparency);
+  o_mask = o_albedo;
+  o_normal = vec4(normal, transparency);
+  o_specular = vec4(specularHeight, 0.0, transparency);
+  o_lighting = vec4(emissive * transparency, transparency);
+}
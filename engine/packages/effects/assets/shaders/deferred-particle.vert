@@ -0,0 +1,22 @@
+#version 300 es
+
+in vec2 a_position;
+
+in mat3 a_uv;
+in mat3 a_mvp;
+in vec4 a_color;
+in vec3 a_emissive;
+
+out vec2 v_texCoord;
+out vec4 v_color;
+out vec3 v_emissive;
+
+void main() {
+  vec3 uvPosition = a_uv * vec3(a_position, 1.0);
+  vec3 clipPosition = a_mvp * vec3(a_position, 1.0);
+
+  v_color = a_color;
+  v_emissive = a_emissive;
+  v_texCoord = uvPosition.xy;
+  gl_Position = vec4(clipPosition.xy, 0.0, 1.0);
+}
@@ -3,6 +3,8 @@
 precision mediump float;
 
 in vec2 v_texCoord;
+in mat2 v_normalTransform;
+in vec4 v_tint;
 
 uniform sampler2D u_diffuseTexture;
 uniform sampler2D u_normalTexture;
@@ -17,17 +19,21 @@ layout(location = 4) out vec4 o_mask;
 
 
 void main() {
-  vec4 albedo = texture(u_diffuseTexture, v_texCoord);
+  vec4 albedo = texture(u_diffuseTexture, v_texCoord) * v_tint;
   vec3 normal = texture(u_normalTexture, v_texCoord).xyz;
-  float specular = texture(u_specularTexture, v_texCoord).x;
+  normal.xy = (v_normalTransform * (normal.xy * 2.0 - 1.0)) * 0.5 + 0.5;
+  // the specular texture also holds the height of each pixel, which the
+  // lighting pass uses to cast shadows
+  vec2 specularHeight = texture(u_specularTexture, v_texCoord).xy;
   vec3 emissive = texture(u_emissiveTexture, v_texCoord).xyz;
 
-  // gbuffers don't support partial transparency, so we clamp to 0/1
+  // gbuffers don't support partial transparency, so we clamp to 0/1.
+  // Partially transparent sprites are drawn in a separate forward pass
   float transparency = albedo.w < 0.99 ? 0.0 : 1.0;
 
   o_albedo = vec4(albedo.xyz * transparency, transparency);
   o_mask = o_albedo;
   o_normal = vec4(normal, transparency);
-  o_specular = vec4(specular, specular, specular, transparency);
+  o_specular = vec4(specularHeight, 0.0, transparency);
   o_lighting = vec4(emissive, transparency);
 }
@@ -4,13 +4,20 @@ in vec2 a_position;
 
 in mat3 a_uv;
 in mat3 a_mvp;
+// rotates & flips the sprites normals along with the sprite
+in mat2 a_normalTransform;
+in vec4 a_tint;
 
 out vec2 v_texCoord;
+out mat2 v_normalTransform;
+out vec4 v_tint;
 
 void main() {
   vec3 uvPosition = a_uv * vec3(a_position, 1.0);
   vec3 clipPosition = a_mvp * vec3(a_position, 1.0);
 
   v_texCoord = uvPosition.xy;
+  v_normalTransform = a_normalTransform;
+  v_tint = a_tint;
   gl_Position = vec4(clipPosition.xy, 0.0, 1.0);
 }
@@ -0,0 +1,94 @@
+#version 300 es
+
+// lights are positioned in pixels, which needs more precision than mediump
+precision highp float;
+
+in vec2 v_texCoord;
+in vec2 v_screenCoord;
+in float v_alpha;
+in mat2 v_normalTransform;
+in vec4 v_tint;
+
+uniform sampler2D u_diffuseTexture;
+uniform sampler2D u_normalTexture;
+uniform sampler2D u_specularTexture;
+uniform sampler2D u_emissiveTexture;
+// a single row of lights, each LIGHT_TEXELS wide. See getLight for the layout
+uniform sampler2D u_lightTexture;
+uniform int u_lightCount;
+uniform vec3 u_viewDirection;
+uniform mat3 u_toTangentSpace;
+uniform vec2 u_screenSize;
+
+const int LIGHTING_MODE_DIRECTIONAL = 0;
+const int LIGHTING_MODE_POINT = 1;
+const int LIGHTING_MODE_SPOT = 2;
+const int LIGHTING_MODE_AREA = 3;
+const int MAX_FORWARD_LIGHTS = 64;
+const int LIGHT_TEXELS = 5;
+
+layout(location = 0) out vec4 o_lighting;
+
+// 0: ambient & lighting mode, 1: diffuse & radius, 2: direction (or position),
+// 3: shape, 4: attenuation exponent & specular power
+vec4 getLight(int light, int texel) {
+  return texelFetch(u_lightTexture, ivec2(light * LIGHT_TEXELS + texel, 0), 0);
+}
+
+void main() {
+  vec4 albedo = texture(u_diffuseTexture, v_texCoord) * v_tint;
+  float alpha = albedo.a * v_alpha;
+  if (alpha <= 0.0) {
+    discard;
+  }
+  vec3 tNormal = texture(u_normalTexture, v_texCoord).rgb * 2.0 - 1.0;
+  tNormal = normalize(vec3(v_normalTransform * tNormal.xy, tNormal.z));
+  float specular = texture(u_specularTexture, v_texCoord).r;
+  vec3 emissive = texture(u_emissiveTexture, v_texCoord).rgb;
+  vec2 pixel = v_screenCoord * u_screenSize;
+  vec3 tViewDirection = u_viewDirection * -1.0 * u_toTangentSpace;
+
+  // the same as the deferred lighting pass, except that transparent sprites
+  // aren't in the gbuffer so they don't receive shadows or light cookies
+  vec3 color = emissive;
+  for (int i = 0; i < MAX_FORWARD_LIGHTS; ++i) {
+    if (i >= u_lightCount) {
+      break;
+    }
+    vec4 ambientMode = getLight(i, 0);
+    vec4 diffuseRadius = getLight(i, 1);
+    vec3 direction = getLight(i, 2).xyz;
+    vec4 shape = getLight(i, 3);
+    vec2 falloff = getLight(i, 4).xy;
+    int mode = int(ambientMode.w + 0.5);
+    float radius = diffuseRadius.w;
+
+    vec3 lightPosition = mode == LIGHTING_MODE_AREA
+      ? vec3(direction.xy + clamp(pixel - direction.xy, -shape.xy, shape.xy), direction.z)
+      : direction;
+    vec3 lightDirection = mode == LIGHTING_MODE_DIRECTIONAL
+      ? direction
+      : vec3(pixel, 0.0) - lightPosition;
+    float intensity = mode == LIGHTING_MODE_DIRECTIONAL
+      ? 1.0
+      : pow(1.0 - min(radius, length(lightDirection)) / radius, falloff.x);
+    if (mode == LIGHTING_MODE_SPOT) {
+      vec2 toPixel = lightDirection.xy;
+      float cosAngle = length(toPixel) > 0.0 ? dot(normalize(toPixel), shape.xy) : 1.0;
+      intensity *= smoothstep(shape.z, shape.w, cosAngle);
+    }
+    lightDirection.y *= mode == LIGHTING_MODE_DIRECTIONAL ? 1.0 : -1.0;
+
+    vec3 tLightReflection = normalize(lightDirection * -1.0) * u_toTangentSpace;
+    float diffuse = max(dot(tNormal, tLightReflection), 0.0);
+    vec3 tHalfDirection = normalize(tLightReflection + tViewDirection);
+    float specularIntensity = pow(max(dot(tNormal, tHalfDirection), 0.0), falloff.y);
+
+    color += ambientMode.rgb * albedo.rgb +
+      (albedo.rgb * diffuse + specularIntensity * specular) *
+      diffuseRadius.rgb *
+      intensity;
+  }
+
+  o_lighting = vec4(color, alpha);
+}
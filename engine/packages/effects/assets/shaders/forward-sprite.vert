@@ -0,0 +1,33 @@
+#version 300 es
+
+in vec2 a_position;
+
+in mat3 a_uv;
+// transforms the quad into screen space, rather than clip space, so that the
+// position of each pixel can be used for lighting
+in mat3 a_model;
+in float a_alpha;
+// rotates & flips the sprites normals along with the sprite
+in mat2 a_normalTransform;
+in vec4 a_tint;
+
+uniform mat3 u_viewProjection;
+
+out vec2 v_texCoord;
+out vec2 v_screenCoord;
+out float v_alpha;
+out mat2 v_normalTransform;
+out vec4 v_tint;
+
+void main() {
+  vec3 uvPosition = a_uv * vec3(a_position, 1.0);
+  vec3 screenPosition = a_model * vec3(a_position, 1.0);
+  vec3 clipPosition = u_viewProjection * screenPosition;
+
+  v_texCoord = uvPosition.xy;
+  v_screenCoord = screenPosition.xy;
+  v_alpha = a_alpha;
+  v_normalTransform = a_normalTransform;
+  v_tint = a_tint;
+  gl_Position = vec4(clipPosition.xy, 0.0, 1.0);
+}
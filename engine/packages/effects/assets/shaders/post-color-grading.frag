@@ -0,0 +1,36 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_input;
+// a strip of u_lutSize square slices laid out left to right, with red
+// increasing to the right in each slice, green increasing downwards & blue
+// increasing with each slice
+uniform sampler2D u_lut;
+uniform float u_lutSize;
+uniform float u_strength;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+vec3 sampleSlice(float slice, vec2 redGreen) {
+  vec2 texCoord = vec2(
+    (slice + (redGreen.r * (u_lutSize - 1.0) + 0.5) / u_lutSize) / u_lutSize,
+    // textures are flipped when they are loaded
+    1.0 - (redGreen.g * (u_lutSize - 1.0) + 0.5) / u_lutSize
+  );
+  return texture(u_lut, texCoord).rgb;
+}
+
+void main() {
+  vec4 color = texture(u_input, v_texCoord);
+  vec3 clamped = clamp(color.rgb, 0.0, 1.0);
+  // blend between the two closest blue slices
+  float blue = clamped.b * (u_lutSize - 1.0);
+  vec3 graded = mix(
+    sampleSlice(floor(blue), clamped.rg),
+    sampleSlice(ceil(blue), clamped.rg),
+    fract(blue)
+  );
+  o_color = vec4(mix(color.rgb, graded, u_strength), color.a);
+}
@@ -0,0 +1,12 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_input;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+void main() {
+  o_color = texture(u_input, v_texCoord);
+}
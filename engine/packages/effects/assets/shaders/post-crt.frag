@@ -0,0 +1,31 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_input;
+uniform vec2 u_inputSize;
+// how far the screen bulges outwards, 0 is flat
+uniform float u_curvature;
+// how much every other row of pixels is darkened
+uniform float u_scanlineStrength;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+void main() {
+  vec2 centered = v_texCoord * 2.0 - 1.0;
+  vec2 texCoord =
+    (centered * (1.0 + u_curvature * dot(centered, centered)) + 1.0) * 0.5;
+  if (
+    texCoord.x < 0.0 ||
+    texCoord.x > 1.0 ||
+    texCoord.y < 0.0 ||
+    texCoord.y > 1.0
+  ) {
+    o_color = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  vec4 color = texture(u_input, texCoord);
+  float scanline = mod(floor(texCoord.y * u_inputSize.y), 2.0);
+  o_color = vec4(color.rgb * (1.0 - scanline * u_scanlineStrength), color.a);
+}
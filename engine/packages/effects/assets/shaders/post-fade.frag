@@ -0,0 +1,16 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_input;
+uniform vec3 u_fadeColor;
+// 0 is no fade, 1 is completely faded to the fade color
+uniform float u_fade;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+void main() {
+  vec4 color = texture(u_input, v_texCoord);
+  o_color = vec4(mix(color.rgb, u_fadeColor, u_fade), color.a);
+}
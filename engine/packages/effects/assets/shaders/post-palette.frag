@@ -0,0 +1,32 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_input;
+// a row of colors, each one pixel wide
+uniform sampler2D u_palette;
+uniform int u_paletteSize;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+const int MAX_PALETTE_SIZE = 256;
+
+void main() {
+  vec4 color = texture(u_input, v_texCoord);
+  vec3 closest = color.rgb;
+  float closestDistance = 1e6;
+  for (int i = 0; i < MAX_PALETTE_SIZE; ++i) {
+    if (i >= u_paletteSize) {
+      break;
+    }
+    vec3 paletteColor = texelFetch(u_palette, ivec2(i, 0), 0).rgb;
+    vec3 difference = paletteColor - color.rgb;
+    float d = dot(difference, difference);
+    if (d < closestDistance) {
+      closestDistance = d;
+      closest = paletteColor;
+    }
+  }
+  o_color = vec4(closest, color.a);
+}
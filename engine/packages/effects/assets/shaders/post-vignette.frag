@@ -0,0 +1,24 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_input;
+uniform vec2 u_inputSize;
+// the distance from the center of the screen, relative to half the height of
+// the screen, where the vignette starts
+uniform float u_radius;
+// how far past the radius the vignette takes to reach full strength
+uniform float u_softness;
+uniform float u_strength;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+void main() {
+  vec4 color = texture(u_input, v_texCoord);
+  // keep the vignette circular on screens that aren't square
+  vec2 offset = (v_texCoord - 0.5) * 2.0;
+  offset.x *= u_inputSize.x / u_inputSize.y;
+  float vignette = smoothstep(u_radius, u_radius + u_softness, length(offset));
+  o_color = vec4(color.rgb * (1.0 - vignette * u_strength), color.a);
+}
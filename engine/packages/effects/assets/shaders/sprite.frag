@@ -4,12 +4,13 @@ precision mediump float;
 
 in vec2 v_texCoord;
 in float v_alpha;
+in vec4 v_tint;
 
 uniform sampler2D u_texture;
 
 out vec4 outColor;
 
 void main() {
-  outColor = texture(u_texture, v_texCoord);
+  outColor = texture(u_texture, v_texCoord) * v_tint;
   outColor.a *= v_alpha;
 }
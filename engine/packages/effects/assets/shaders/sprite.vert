@@ -5,15 +5,18 @@ in vec2 a_position;
 in mat3 a_uv;
 in mat3 a_mvp;
 in float a_alpha;
+in vec4 a_tint;
 
 out vec2 v_texCoord;
 out float v_alpha;
+out vec4 v_tint;
 
 void main() {
   vec3 uvPosition = a_uv * vec3(a_position, 1.0);
   vec3 clipPosition = a_mvp * vec3(a_position, 1.0);
 
   v_alpha = a_alpha;
+  v_tint = a_tint;
   v_texCoord = uvPosition.xy;
   gl_Position = vec4(clipPosition.xy, 0.0, 1.0);
 }
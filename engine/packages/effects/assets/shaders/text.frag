@@ -0,0 +1,16 @@
+#version 300 es
+
+precision mediump float;
+
+in vec2 v_texCoord;
+in vec4 v_color;
+
+uniform sampler2D u_texture;
+
+out vec4 outColor;
+
+void main() {
+  // only the shape of the glyphs is used, so text can be drawn in any color
+  float coverage = texture(u_texture, v_texCoord).a;
+  outColor = vec4(v_color.rgb, v_color.a * coverage);
+}
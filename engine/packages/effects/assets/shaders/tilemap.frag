@@ -0,0 +1,93 @@
+#version 300 es
+
+precision highp float;
+precision highp int;
+
+in vec2 v_tile;
+
+uniform sampler2D u_diffuseTexture;
+uniform sampler2D u_normalTexture;
+uniform sampler2D u_specularTexture;
+uniform sampler2D u_emissiveTexture;
+
+// encoded map tiles for a chunk, with each layer stored as a
+// chunkSize x chunkSize plane stacked vertically
+uniform sampler2D u_mapTexture;
+// one row per sprite index. The first texel holds the number of frames
+// for the sprite & the rest hold the frame rects as (top, right, bottom, left)
+uniform sampler2D u_spriteFrames;
+uniform vec2 u_spriteSheetSize;
+// the absolute tile position of the top left tile in the chunk
+uniform vec2 u_chunkOffset;
+uniform int u_chunkSize;
+uniform int u_layer;
+uniform float u_frame;
+
+layout(location = 0) out vec4 o_normal;
+layout(location = 1) out vec4 o_albedo;
+layout(location = 2) out vec4 o_specular;
+layout(location = 3) out vec4 o_lighting;
+layout(location = 4) out vec4 o_mask;
+
+const int FLAG_SPATIAL_HASH = 2;
+const int FLAG_ANIMATED = 4;
+
+// port of the Park-Miller step in math.hash, so tiles pick the same variants
+// as when they were drawn on the CPU. Only valid for non-negative values, but
+// tile positions within a map are never negative
+int lehmer(int x) {
+  // math.hash uses a fractional Q (M / A), so A * (x % Q) - R * floor(x / Q)
+  // can be rearranged to A * x - (M + R) * floor(x / Q). The result always
+  // fits in an int, so the intermediate values can safely wrap around
+  int k = int(floor(float(x) / (2147483647.0 / 48271.0)));
+  int temp = int(uint(x) * 48271u - uint(k) * 2147487046u);
+  return temp >= 0 ? temp : temp + 2147483647;
+}
+
+uint hash(ivec2 p) {
+  return uint(lehmer(p.x) ^ lehmer(p.y));
+}
+
+void main() {
+  ivec2 tile = ivec2(floor(v_tile));
+  vec2 withinTile = fract(v_tile);
+
+  vec4 encoded = texelFetch(u_mapTexture, ivec2(tile.x, tile.y + u_layer * u_chunkSize), 0);
+  int index = int(encoded.r * 255.0 + 0.5);
+  int flags = int(encoded.b * 255.0 + 0.5);
+  if (index == 0) {
+    discard;
+  }
+
+  int frameCount = int(texelFetch(u_spriteFrames, ivec2(0, index), 0).x);
+  if (frameCount == 0) {
+    discard;
+  }
+
+  uint frame = 0u;
+  if ((flags & FLAG_SPATIAL_HASH) != 0) {
+    frame += hash(ivec2(u_chunkOffset) + tile);
+  }
+  if ((flags & FLAG_ANIMATED) != 0) {
+    frame += uint(u_frame);
+  }
+  vec4 rect = texelFetch(u_spriteFrames, ivec2(1 + int(frame % uint(frameCount)), index), 0);
+  vec2 texCoord = vec2(
+    mix(rect.w, rect.y, withinTile.x),
+    mix(rect.x, rect.z, withinTile.y)
+  ) / u_spriteSheetSize;
+
+  vec4 albedo = texture(u_diffuseTexture, texCoord);
+  vec3 normal = texture(u_normalTexture, texCoord).xyz;
+  vec2 specularHeight = texture(u_specularTexture, texCoord).xy;
+  vec3 emissive = texture(u_emissiveTexture, texCoord).xyz;
+
+  // gbuffers don't support partial transparency, so we clamp to 0/1
+  float transparency = albedo.w < 0.99 ? 0.0 : 1.0;
+
+  o_albedo = vec4(albedo.xyz * transparency, transparency);
+  o_mask = o_albedo;
+  o_normal = vec4(normal, transparency);
+  o_specular = vec4(specularHeight, 0.0, transparency);
+  o_lighting = vec4(emissive, transparency);
+}
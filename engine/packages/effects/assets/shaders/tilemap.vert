@@ -0,0 +1,18 @@
+#version 300 es
+
+in vec2 a_position;
+
+// transforms the unit quad to cover a map chunk on screen
+uniform mat3 u_mvp;
+// transforms the unit quad to tile coordinates within the map chunk
+uniform mat3 u_tileTransform;
+
+out vec2 v_tile;
+
+void main() {
+  vec3 tilePosition = u_tileTransform * vec3(a_position, 1.0);
+  vec3 clipPosition = u_mvp * vec3(a_position, 1.0);
+
+  v_tile = tilePosition.xy;
+  gl_Position = vec4(clipPosition.xy, 0.0, 1.0);
+}
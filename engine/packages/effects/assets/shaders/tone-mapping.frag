@@ -0,0 +1,30 @@
+#version 300 es
+
+precision mediump float;
+
+uniform sampler2D u_lighting;
+uniform sampler2D u_bloom;
+uniform int u_hasBloom;
+uniform float u_bloomStrength;
+uniform float u_exposure;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+// Krzysztof Narkowicz's fit of the ACES filmic tone mapping curve
+vec3 toneMap(vec3 color) {
+  return clamp(
+    (color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14),
+    0.0,
+    1.0
+  );
+}
+
+void main() {
+  vec4 lighting = texture(u_lighting, v_texCoord);
+  vec3 color = lighting.rgb;
+  if (u_hasBloom == 1) {
+    color += texture(u_bloom, v_texCoord).rgb * u_bloomStrength;
+  }
+  o_color = vec4(toneMap(color * u_exposure), clamp(lighting.a, 0.0, 1.0));
+}
@@ -1,6 +1,12 @@
 import {
+  AreaLight,
+  DirectionalLight,
   GameContext,
+  LightEffect,
+  LightSource,
+  PointLight,
   Quad,
+  SpotLight,
   SpriteViewProjection,
   FrameBuffer,
   GBuffer,
@@ -8,21 +14,44 @@ import {
   ShaderProgram,
   GPUTexture,
   TEXTURE,
+  createTexture,
+  getSpriteModel,
+  getSpriteUV,
   loadTextureFromUrl,
   SpriteAnimator,
   SpriteEffect,
   SpriteSheet,
   SpriteSheetConfig,
+  SortKey,
+  SpriteDrawOptions,
+  TextureFormat,
   ToTangentSpace,
 } from "@pixelheart/client";
-import { vec3, mat3, ReadonlyVec4 } from "@pixelheart/client/gl-matrix";
-
+import {
+  vec2,
+  vec3,
+  vec4,
+  mat2,
+  mat3,
+  ReadonlyVec2,
+  ReadonlyVec3,
+  ReadonlyVec4,
+} from "@pixelheart/client/gl-matrix";
+
+import { GaussianBlurEffect } from "./gaussian-blur.js";
+import bloomFragmentShader from "./shaders/bloom-threshold.frag.js";
 import lightingFragmentShader, {
   Constants as LightingConstants,
 } from "./shaders/deferred-lighting.frag.js";
 import lightingVertexShader from "./shaders/deferred-lighting.vert.js";
 import fragmentShader from "./shaders/deferred-sprite.frag.js";
 import vertexShader from "./shaders/deferred-sprite.vert.js";
+import forwardFragmentShader, {
+  Constants as ForwardConstants,
+} from "./shaders/forward-sprite.frag.js";
+import forwardVertexShader from "./shaders/forward-sprite.vert.js";
+import quadVertexShader from "./shaders/quad.vert.js";
+import toneMappingFragmentShader from "./shaders/tone-mapping.frag.js";
 
 export type DeferredSpriteTextures = {
   diffuseTexture: GPUTexture;
@@ -33,8 +62,38 @@ export type DeferredSpriteTextures = {
 export type DeferredSpriteSheet = SpriteSheet<DeferredSpriteTextures>;
 export class DeferredSpriteAnimator extends SpriteAnimator<DeferredSpriteTextures> { }
 
+export interface BloomOptions {
+  // lighting brighter than this luminance contributes to the bloom
+  threshold: number;
+  // how much of the blurred bloom is added back onto the lighting
+  strength: number;
+  // defaults to 2
+  blurStrength?: number;
+  // the bloom is blurred at this fraction of the screen resolution, defaults
+  // to 0.5
+  scale?: number;
+}
+
+export interface DeferredSpriteEffectOptions {
+  // accumulate lighting in a half float buffer so that overlapping lights &
+  // emissive sprites can exceed 1.0, which is then tone mapped. Requires
+  // EXT_color_buffer_float, falling back to LDR lighting if unsupported
+  hdr?: boolean;
+  // scales the lighting before it is tone mapped, defaults to 1
+  exposure?: number;
+  // only applied to HDR lighting
+  bloom?: BloomOptions;
+}
+
 const BLACK: vec3 = vec3.fromValues(0, 0, 0);
 const FULL_UV = mat3.create();
+const NO_SHAPE: vec4 = vec4.create();
+const DEFAULT_ATTENUATION = 2.0;
+const DEFAULT_SPECULAR_POWER = 32.0;
+// used for sprites drawn without a sort key when no sprites have been drawn
+// since the last flush
+const DEFAULT_SORT_KEY: SortKey = { layer: 0, y: 0 };
+const WHITE: vec4 = vec4.fromValues(1, 1, 1, 1);
 
 export async function deferredTextureLoader(
   ctx: GameContext,
@@ -55,34 +114,47 @@ export async function deferredTextureLoader(
   };
 }
 
-export type ScreenSpaceDirectionalLight = {
-  diffuse: vec3;
-  ambient: vec3;
-  direction: vec3;
-};
-
-export type ScreenSpacePointLight = {
-  diffuse: vec3;
-  position: vec3;
-  radius: number;
-};
-
 type SpriteInstance = {
+  textures: DeferredSpriteTextures;
+  sortKey: SortKey;
   mvp: mat3;
   uv: mat3;
+  normalTransform: mat2;
+  tint: ReadonlyVec4;
+};
+
+type TransparentSpriteInstance = {
+  textures: DeferredSpriteTextures;
+  sortKey: SortKey;
+  model: mat3;
+  uv: mat3;
+  normalTransform: mat2;
+  tint: ReadonlyVec4;
+  alpha: number;
 };
 
 type LightInstance = {
   mvp: mat3;
   uv: mat3;
-  ambient: vec3;
-  diffuse: vec3;
-  direction: vec3;
+  ambient: ReadonlyVec3;
+  diffuse: ReadonlyVec3;
+  direction: ReadonlyVec3;
   radius: number;
+  shape: ReadonlyVec4;
+  falloff: ReadonlyVec2;
+};
+
+type PendingLight = LightSource | ({ type: "directional" } & DirectionalLight);
+
+// lights are drawn in batches of the same type that share a cookie
+type LightBatch = {
+  mode: LightingConstants;
+  cookie: GPUTexture | null;
+  lights: Array<LightInstance>;
 };
 
 export class DeferredSpriteEffect
-  implements SpriteEffect<DeferredSpriteTextures>
+  implements SpriteEffect<DeferredSpriteTextures>, LightEffect
 {
   #gl: WebGL2RenderingContext;
   #gBufferProgram: ShaderProgram<typeof vertexShader, typeof fragmentShader>;
@@ -94,8 +166,22 @@ export class DeferredSpriteEffect
     typeof lightingFragmentShader
   >;
   #lightBuffer: InstanceBuffer<typeof lightingVertexShader, LightInstance>;
-  #pendingDirectionalLights: Array<LightInstance>;
-  #pendingPointLights: Array<LightInstance>;
+  #pendingLights: Array<PendingLight>;
+
+  #forwardProgram: ShaderProgram<
+    typeof forwardVertexShader,
+    typeof forwardFragmentShader
+  >;
+  #forwardBuffer: InstanceBuffer<
+    typeof forwardVertexShader,
+    TransparentSpriteInstance
+  >;
+  #forwardLights: {
+    texture: GPUTexture;
+    data: Float32Array;
+  };
+  #transparent: Array<TransparentSpriteInstance>;
+  #transparentAlpha: number | null;
 
   #texture: DeferredSpriteTextures | null;
   #quad: Quad;
@@ -105,14 +191,40 @@ export class DeferredSpriteEffect
     maskFrameBuffer: FrameBuffer<typeof fragmentShader>;
     noMaskFrameBuffer: FrameBuffer<typeof fragmentShader>;
     lightingFrameBuffer: FrameBuffer<typeof lightingFragmentShader>;
+    forwardFrameBuffer: FrameBuffer<typeof forwardFragmentShader>;
   } | null;
 
-  constructor(ctx: GameContext) {
+  // whether lighting is accumulated in HDR, which can be false even if it
+  // was requested
+  readonly hdr: boolean;
+  exposure: number;
+  bloom: BloomOptions | null;
+  #hdrPasses: {
+    bloomProgram: ShaderProgram<
+      typeof quadVertexShader,
+      typeof bloomFragmentShader
+    >;
+    toneMappingProgram: ShaderProgram<
+      typeof quadVertexShader,
+      typeof toneMappingFragmentShader
+    >;
+    blur: GaussianBlurEffect;
+  } | null;
+  #hdrFrameBuffers: {
+    bloomFrameBuffer: FrameBuffer<typeof bloomFragmentShader>;
+    toneMappingFrameBuffer: FrameBuffer<typeof toneMappingFragmentShader>;
+    bloom: GPUTexture;
+    output: GPUTexture;
+  } | null;
+
+  constructor(ctx: GameContext, opts?: DeferredSpriteEffectOptions) {
     this.#gl = ctx.gl;
     this.#gBufferProgram = new ShaderProgram(ctx.gl, vertexShader, fragmentShader);
     this.#instanceBuffer = new InstanceBuffer(this.#gl, this.#gBufferProgram, {
       a_mvp: (instance) => instance.mvp,
       a_uv: (instance) => instance.uv,
+      a_normalTransform: (instance) => instance.normalTransform,
+      a_tint: (instance) => instance.tint,
     });
     this.#pending = [];
     this.#lightingProgram = new ShaderProgram(
@@ -127,13 +239,81 @@ export class DeferredSpriteEffect
       a_diffuse: (instance) => instance.diffuse,
       a_direction: (instance) => instance.direction,
       a_radius: (instance) => instance.radius,
+      a_shape: (instance) => instance.shape,
+      a_falloff: (instance) => instance.falloff,
+    });
+    this.#pendingLights = [];
+
+    this.#forwardProgram = new ShaderProgram(
+      ctx.gl,
+      forwardVertexShader,
+      forwardFragmentShader
+    );
+    this.#forwardBuffer = new InstanceBuffer(this.#gl, this.#forwardProgram, {
+      a_model: (instance) => instance.model,
+      a_uv: (instance) => instance.uv,
+      a_normalTransform: (instance) => instance.normalTransform,
+      a_tint: (instance) => instance.tint,
+      a_alpha: (instance) => instance.alpha,
     });
-    this.#pendingDirectionalLights = [];
-    this.#pendingPointLights = [];
+    // lights are passed to the forward pass as a single row of texels, so the
+    // texture isn't affected by textures being flipped when they are uploaded
+    const forwardLightWidth =
+      ForwardConstants.MAX_FORWARD_LIGHTS * ForwardConstants.LIGHT_TEXELS;
+    this.#forwardLights = {
+      texture: {
+        [TEXTURE]: createTexture(
+          this.#gl,
+          this.#gl.RGBA32F,
+          this.#gl.RGBA,
+          this.#gl.FLOAT,
+          forwardLightWidth,
+          1,
+          { filter: this.#gl.NEAREST }
+        ),
+        width: forwardLightWidth,
+        height: 1,
+      },
+      data: new Float32Array(forwardLightWidth * 4),
+    };
+    this.#transparent = [];
+    this.#transparentAlpha = null;
 
     this.#quad = new Quad(this.#gl);
     this.#texture = null;
     this.#frameBuffers = null;
+
+    this.hdr =
+      !!opts?.hdr && !!this.#gl.getExtension("EXT_color_buffer_float");
+    if (opts?.hdr && !this.hdr) {
+      console.warn(
+        "EXT_color_buffer_float is not supported, falling back to LDR lighting"
+      );
+    }
+    this.exposure = opts?.exposure ?? 1.0;
+    this.bloom = opts?.bloom ?? null;
+    const hdrFormat: TextureFormat = {
+      internalFormat: this.#gl.RGBA16F,
+      format: this.#gl.RGBA,
+      type: this.#gl.HALF_FLOAT,
+    };
+    this.#hdrPasses = this.hdr
+      ? {
+        bloomProgram: new ShaderProgram(
+          ctx.gl,
+          quadVertexShader,
+          bloomFragmentShader
+        ),
+        toneMappingProgram: new ShaderProgram(
+          ctx.gl,
+          quadVertexShader,
+          toneMappingFragmentShader
+        ),
+        blur: new GaussianBlurEffect(ctx, hdrFormat),
+      }
+      : null;
+    this.#hdrFrameBuffers = null;
+
     this.#gBuffer = new GBuffer(this.#gl, {
       normal: {
         internalFormat: this.#gl.RGBA,
@@ -150,11 +330,13 @@ export class DeferredSpriteEffect
         format: this.#gl.RGBA,
         type: this.#gl.UNSIGNED_BYTE,
       },
-      lighting: {
-        internalFormat: this.#gl.RGBA,
-        format: this.#gl.RGBA,
-        type: this.#gl.UNSIGNED_BYTE,
-      },
+      lighting: this.hdr
+        ? hdrFormat
+        : {
+          internalFormat: this.#gl.RGBA,
+          format: this.#gl.RGBA,
+          type: this.#gl.UNSIGNED_BYTE,
+        },
       mask: {
         internalFormat: this.#gl.RGBA,
         format: this.#gl.RGBA,
@@ -163,10 +345,16 @@ export class DeferredSpriteEffect
     });
   }
 
+  /**
+   * Draws sprites into the G-buffer & then lights them. Lights are positioned
+   * relative to the absolutePosition of the top left of the screen, which
+   * defaults to 0,0
+   */
   use(
     opts: {
       width: number;
       height: number;
+      absolutePosition?: ReadonlyVec2;
     },
     fillScope: (s: DeferredSpriteEffect, pass?: number) => void,
     maskScope?: (mask: GPUTexture) => void
@@ -190,6 +378,49 @@ export class DeferredSpriteEffect
         lightingFrameBuffer: new FrameBuffer(this.#gl, this.#lightingProgram, {
           o_lighting: gBuffer.lighting,
         }),
+        forwardFrameBuffer: new FrameBuffer(this.#gl, this.#forwardProgram, {
+          o_lighting: gBuffer.lighting,
+        }),
+      }
+      if (this.#hdrPasses) {
+        const bloom = {
+          [TEXTURE]: createTexture(
+            this.#gl,
+            this.#gl.RGBA16F,
+            this.#gl.RGBA,
+            this.#gl.HALF_FLOAT,
+            opts.width,
+            opts.height
+          ),
+          width: opts.width,
+          height: opts.height,
+        };
+        const output = {
+          [TEXTURE]: createTexture(
+            this.#gl,
+            this.#gl.RGBA,
+            this.#gl.RGBA,
+            this.#gl.UNSIGNED_BYTE,
+            opts.width,
+            opts.height
+          ),
+          width: opts.width,
+          height: opts.height,
+        };
+        this.#hdrFrameBuffers = {
+          bloomFrameBuffer: new FrameBuffer(
+            this.#gl,
+            this.#hdrPasses.bloomProgram,
+            { o_color: bloom }
+          ),
+          toneMappingFrameBuffer: new FrameBuffer(
+            this.#gl,
+            this.#hdrPasses.toneMappingProgram,
+            { o_color: output }
+          ),
+          bloom,
+          output,
+        };
       }
     });
 
@@ -219,6 +450,9 @@ export class DeferredSpriteEffect
       });
     }
 
+    const lightBatches = this.#getLightBatches(
+      opts.absolutePosition ?? vec2.create()
+    );
     f.lightingFrameBuffer.bind(() => {
       const previousBlend = this.#gl.getParameter(this.#gl.BLEND);
       const previousBlendSrcFunc = this.#gl.getParameter(
@@ -232,37 +466,32 @@ export class DeferredSpriteEffect
 
       this.#lightingProgram.use((p) => {
         p.setUniforms({
-          u_albedoTexture: g.albedo,
-          u_normalTexture: g.normal,
-          u_specularTexture: g.specular,
           u_toTangentSpace: ToTangentSpace,
           u_viewDirection: vec3.fromValues(0, 0, -1),
+          // lights are occluded by the heights in the specular buffer, which
+          // are measured in pixels
+          u_screenSize: [this.#gBuffer.width, this.#gBuffer.height],
         });
 
-        if (this.#pendingDirectionalLights.length) {
-          p.setUniforms({
-            u_lightingMode: LightingConstants.LIGHTING_MODE_DIRECTIONAL,
-          });
-          this.#quad.bindInstances(
-            p,
-            { position: "a_position" },
-            this.#lightBuffer.load(this.#pendingDirectionalLights),
-            (q) => q.draw()
-          );
-          this.#pendingDirectionalLights.length = 0;
-        }
-        if (this.#pendingPointLights.length) {
+        for (const batch of lightBatches) {
+          // texture units are assigned in the order samplers are set, so all
+          // of the samplers have to be set together
           p.setUniforms({
-            u_lightingMode: LightingConstants.LIGHTING_MODE_POINT,
+            u_albedoTexture: g.albedo,
+            u_normalTexture: g.normal,
+            u_specularTexture: g.specular,
+            ...(batch.cookie ? { u_cookieTexture: batch.cookie } : {}),
+            u_hasCookie: batch.cookie ? 1 : 0,
+            u_lightingMode: batch.mode,
           });
           this.#quad.bindInstances(
             p,
             { position: "a_position" },
-            this.#lightBuffer.load(this.#pendingPointLights),
+            this.#lightBuffer.load(batch.lights),
             (q) => q.draw()
           );
-          this.#pendingPointLights.length = 0;
         }
+        this.#pendingLights.length = 0;
       });
 
       if (!previousBlend) {
@@ -271,110 +500,298 @@ export class DeferredSpriteEffect
       this.#gl.blendFunc(previousBlendSrcFunc, previousBlendDestFunc);
     });
 
+    if (this.#transparent.length) {
+      f.forwardFrameBuffer.bind(() => {
+        this.#drawTransparent(lightBatches);
+      });
+    }
+
+    if (this.#hdrPasses) {
+      this.#toneMap(g.lighting);
+    }
+
     this.#gl.viewport(vp[0], vp[1], vp[2], vp[3]);
   }
 
-  addDirectionalLight(
-    light: ScreenSpaceDirectionalLight
-  ): DeferredSpriteEffect {
-    this.#pendingDirectionalLights.push({
-      mvp: SpriteViewProjection,
-      uv: FULL_UV,
-      ambient: light.ambient,
-      diffuse: light.diffuse,
-      direction: light.direction,
-      radius: 0,
+  /**
+   * Resolves the HDR lighting into an LDR texture, adding the bloom from any
+   * lighting brighter than the bloom threshold
+   */
+  #toneMap(lighting: GPUTexture) {
+    const h = this.#hdrPasses!;
+    const f = this.#hdrFrameBuffers!;
+    const previousBlend = this.#gl.getParameter(this.#gl.BLEND);
+    this.#gl.disable(this.#gl.BLEND);
+
+    let bloom: GPUTexture | null = null;
+    if (this.bloom) {
+      const threshold = this.bloom.threshold;
+      f.bloomFrameBuffer.bind(() => {
+        h.bloomProgram.use((p) => {
+          p.setUniforms({
+            u_lighting: lighting,
+            u_threshold: threshold,
+          });
+          this.#quad.bind(p, { position: "a_position" }, (q) => q.draw());
+        });
+      });
+      bloom = h.blur
+        .draw(f.bloom, this.bloom.blurStrength ?? 2.0, this.bloom.scale ?? 0.5)
+        .getBlurTexture();
+    }
+
+    f.toneMappingFrameBuffer.bind(() => {
+      h.toneMappingProgram.use((p) => {
+        p.setUniforms({
+          u_lighting: lighting,
+          ...(bloom ? { u_bloom: bloom } : {}),
+          u_hasBloom: bloom ? 1 : 0,
+          u_bloomStrength: this.bloom?.strength ?? 0.0,
+          u_exposure: this.exposure,
+        });
+        this.#quad.bind(p, { position: "a_position" }, (q) => q.draw());
+      });
     });
+
+    if (previousBlend) {
+      this.#gl.enable(this.#gl.BLEND);
+    }
+  }
+
+  /**
+   * Sprites drawn within the scope are partially transparent. Rather than
+   * being written into the G-buffer, they are lit by the same lights in a
+   * forward pass after the lighting pass & blended over the lit scene,
+   * sorted by their sort keys. Transparent sprites don't cast or receive shadows,
+   * aren't affected by light cookies & don't contribute to the mask
+   */
+  transparent(
+    alpha: number,
+    scope: (s: DeferredSpriteEffect) => void
+  ): DeferredSpriteEffect {
+    const previousAlpha = this.#transparentAlpha;
+    this.#transparentAlpha = alpha;
+    scope(this);
+    this.#transparentAlpha = previousAlpha;
     return this;
   }
 
-  addPointLight(light: ScreenSpacePointLight): DeferredSpriteEffect {
-    if (light.position[2] >= light.radius) {
-      // doesn't intersect the ground plane, so disregard the light
-      return this;
+  #drawTransparent(lightBatches: Array<LightBatch>) {
+    // the forward pass can only use a fixed number of lights, any more than
+    // that are ignored
+    const data = this.#forwardLights.data;
+    let lightCount = 0;
+    for (const batch of lightBatches) {
+      for (const l of batch.lights) {
+        if (lightCount === ForwardConstants.MAX_FORWARD_LIGHTS) {
+          break;
+        }
+        const offset = lightCount * ForwardConstants.LIGHT_TEXELS * 4;
+        data.set(l.ambient, offset);
+        data[offset + 3] = batch.mode;
+        data.set(l.diffuse, offset + 4);
+        data[offset + 7] = l.radius;
+        data.set(l.direction, offset + 8);
+        data.set(l.shape, offset + 12);
+        data.set(l.falloff, offset + 16);
+        ++lightCount;
+      }
     }
-
-    const intersectingRadius = Math.sqrt(
-      light.radius * light.radius - light.position[2] * light.position[2]
+    const lightTexture = this.#forwardLights.texture;
+    this.#gl.activeTexture(this.#gl.TEXTURE0);
+    this.#gl.bindTexture(this.#gl.TEXTURE_2D, lightTexture[TEXTURE]);
+    this.#gl.texSubImage2D(
+      this.#gl.TEXTURE_2D,
+      0,
+      0,
+      0,
+      lightTexture.width,
+      1,
+      this.#gl.RGBA,
+      this.#gl.FLOAT,
+      data
     );
+    this.#gl.bindTexture(this.#gl.TEXTURE_2D, null);
 
-    const mvp = mat3.create();
-    mat3.translate(mvp, mvp, [
-      light.position[0] - intersectingRadius,
-      light.position[1] - intersectingRadius,
-    ]);
-    mat3.scale(mvp, mvp, [intersectingRadius * 2, intersectingRadius * 2]);
-    mat3.mul(mvp, SpriteViewProjection, mvp);
-    const uv = mat3.create();
-    mat3.translate(uv, uv, [
-      light.position[0] - intersectingRadius,
-      light.position[1] - intersectingRadius,
-    ]);
-    mat3.scale(uv, uv, [intersectingRadius * 2, intersectingRadius * 2]);
+    const previousBlend = this.#gl.getParameter(this.#gl.BLEND);
+    const previousBlendSrcFunc = this.#gl.getParameter(
+      this.#gl.BLEND_SRC_ALPHA
+    );
+    const previousBlendDestFunc = this.#gl.getParameter(
+      this.#gl.BLEND_DST_ALPHA
+    );
+    this.#gl.enable(this.#gl.BLEND);
+    this.#gl.blendFuncSeparate(
+      this.#gl.SRC_ALPHA,
+      this.#gl.ONE_MINUS_SRC_ALPHA,
+      this.#gl.ONE,
+      this.#gl.ONE_MINUS_SRC_ALPHA
+    );
 
-    this.#pendingPointLights.push({
-      mvp,
-      uv,
-      ambient: BLACK,
-      diffuse: light.diffuse,
-      direction: vec3.fromValues(
-        light.position[0],
-        light.position[1],
-        light.position[2]
-      ),
-      radius: light.radius,
+    this.#forwardProgram.use((p) => {
+      p.setUniforms({
+        u_viewProjection: SpriteViewProjection,
+        u_toTangentSpace: ToTangentSpace,
+        u_viewDirection: vec3.fromValues(0, 0, -1),
+        u_screenSize: [this.#gBuffer.width, this.#gBuffer.height],
+        u_lightCount: lightCount,
+      });
+      forEachBatch(this.#transparent, (textures, batch) => {
+        p.setUniforms({
+          u_diffuseTexture: textures.diffuseTexture,
+          u_normalTexture: textures.normalTexture,
+          u_specularTexture: textures.specularTexture,
+          u_emissiveTexture: textures.emissiveTexture,
+          u_lightTexture: lightTexture,
+        });
+        this.#quad.bindInstances(
+          p,
+          { position: "a_position" },
+          this.#forwardBuffer.load(batch),
+          (q) => q.draw()
+        );
+      });
     });
+    this.#transparent.length = 0;
+
+    if (!previousBlend) {
+      this.#gl.disable(this.#gl.BLEND);
+    }
+    this.#gl.blendFunc(previousBlendSrcFunc, previousBlendDestFunc);
+  }
+
+  addDirectionalLight(light: DirectionalLight): DeferredSpriteEffect {
+    this.#pendingLights.push({ type: "directional", ...light });
+    return this;
+  }
+
+  addPointLight(light: PointLight): DeferredSpriteEffect {
+    this.#pendingLights.push({ type: "point", ...light });
+    return this;
+  }
+
+  addSpotLight(light: SpotLight): DeferredSpriteEffect {
+    this.#pendingLights.push({ type: "spot", ...light });
+    return this;
+  }
+
+  addAreaLight(light: AreaLight): DeferredSpriteEffect {
+    this.#pendingLights.push({ type: "area", ...light });
+    return this;
+  }
+
+  addLight(light: LightSource): DeferredSpriteEffect {
+    this.#pendingLights.push(light);
     return this;
   }
 
+  /**
+   * Groups lights into batches of the same type that share a cookie, culling
+   * any lights that aren't on screen
+   */
+  #getLightBatches(absolutePosition: ReadonlyVec2): Array<LightBatch> {
+    const screenSize = vec2.fromValues(
+      this.#gBuffer.width,
+      this.#gBuffer.height
+    );
+    const batches: Array<LightBatch> = [];
+    for (const light of this.#pendingLights) {
+      const instance = createLightInstance(light, absolutePosition, screenSize);
+      if (!instance) {
+        continue;
+      }
+      const mode = LIGHTING_MODES[light.type];
+      const cookie = light.cookie ?? null;
+      let batch = batches.find((b) => b.mode === mode && b.cookie === cookie);
+      if (!batch) {
+        batch = { mode, cookie, lights: [] };
+        batches.push(batch);
+      }
+      batch.lights.push(instance);
+    }
+    return batches;
+  }
+
+  /**
+   * The lit scene, which has already been tone mapped if HDR is enabled
+   */
   getLightingTexture(): GPUTexture | undefined {
+    if (this.#hdrPasses) {
+      return this.#hdrFrameBuffers?.output;
+    }
     return this.#gBuffer.textures?.lighting;
   }
 
   setTextures(param: DeferredSpriteTextures): DeferredSpriteEffect {
-    if (param === this.#texture) {
-      return this;
-    } else if (this.#pending.length) {
-      this.#end();
-    }
     this.#texture = param;
+    return this;
+  }
 
-    this.#gBufferProgram.setUniforms({
-      u_diffuseTexture: param.diffuseTexture[TEXTURE],
-      u_normalTexture: param.normalTexture[TEXTURE],
-      u_specularTexture: param.specularTexture[TEXTURE],
-      u_emissiveTexture: param.emissiveTexture[TEXTURE],
-    });
-
+  /**
+   * Draws any pending sprites. This must be called before other effects draw
+   * into the G-buffer with their own shaders so that draw order is preserved.
+   * Sprites are only sorted against the other sprites drawn since the last
+   * flush
+   */
+  flush(): DeferredSpriteEffect {
+    this.#end();
     return this;
   }
 
+  /**
+   * Sprites are sorted by their sort key before they are drawn, and
+   * consecutive sprites that share textures are batched together. Sprites
+   * drawn without a sort key use the key of the sprite drawn before them, so
+   * they stay in the order they were drawn relative to that sprite
+   */
   draw(
     screenSpaceRect: ReadonlyVec4,
-    textureCoords: ReadonlyVec4
+    textureCoords: ReadonlyVec4,
+    opts?: SpriteDrawOptions
   ): DeferredSpriteEffect {
     if (this.#texture) {
-      const mvp = mat3.create();
-      mat3.translate(mvp, mvp, [screenSpaceRect[3], screenSpaceRect[0]]);
-      mat3.scale(mvp, mvp, [
-        screenSpaceRect[1] - screenSpaceRect[3],
-        screenSpaceRect[2] - screenSpaceRect[0],
-      ]);
-      mat3.multiply(mvp, SpriteViewProjection, mvp);
-
-      const uv = mat3.create();
-      mat3.translate(uv, uv, [
-        textureCoords[3] / this.#texture.diffuseTexture.width,
-        textureCoords[0] / this.#texture.diffuseTexture.height,
-      ]);
-      mat3.scale(uv, uv, [
-        (textureCoords[1] - textureCoords[3]) /
-        this.#texture.diffuseTexture.width,
-        (textureCoords[2] - textureCoords[0]) /
-        this.#texture.diffuseTexture.height,
-      ]);
-
-      this.#pending.push({ mvp, uv });
+      const previous =
+        this.#transparentAlpha !== null ? this.#transparent : this.#pending;
+      const sortKey =
+        opts?.sortKey ??
+        previous[previous.length - 1]?.sortKey ??
+        DEFAULT_SORT_KEY;
+      const model = getSpriteModel(
+        mat3.create(),
+        screenSpaceRect,
+        this.#gBuffer,
+        opts
+      );
+      const uv = getSpriteUV(
+        mat3.create(),
+        textureCoords,
+        this.#texture.diffuseTexture,
+        opts
+      );
+      const normalTransform = getNormalTransform(mat2.create(), opts);
+      const tint = opts?.tint ?? WHITE;
+
+      if (this.#transparentAlpha !== null) {
+        this.#transparent.push({
+          textures: this.#texture,
+          sortKey,
+          model,
+          uv,
+          normalTransform,
+          tint,
+          alpha: this.#transparentAlpha,
+        });
+      } else {
+        const mvp = mat3.multiply(mat3.create(), SpriteViewProjection, model);
+        this.#pending.push({
+          textures: this.#texture,
+          sortKey,
+          mvp,
+          uv,
+          normalTransform,
+          tint,
+        });
+      }
     }
     return this;
   }
@@ -384,14 +801,165 @@ export class DeferredSpriteEffect
       return;
     }
 
-    this.#quad.bindInstances(
-      this.#gBufferProgram,
-      { position: "a_position" },
-      this.#instanceBuffer.load(this.#pending),
-      (q) => q.draw()
-    );
+    forEachBatch(this.#pending, (textures, batch) => {
+      this.#gBufferProgram.setUniforms({
+        u_diffuseTexture: textures.diffuseTexture[TEXTURE],
+        u_normalTexture: textures.normalTexture[TEXTURE],
+        u_specularTexture: textures.specularTexture[TEXTURE],
+        u_emissiveTexture: textures.emissiveTexture[TEXTURE],
+      });
+      this.#quad.bindInstances(
+        this.#gBufferProgram,
+        { position: "a_position" },
+        this.#instanceBuffer.load(batch),
+        (q) => q.draw()
+      );
+    });
 
     this.#pending.length = 0;
-    this.#texture = null;
   }
 }
+
+/**
+ * Normals are stored in tangent space, where x points up the screen & y points
+ * right. So rotating a sprite clockwise also rotates its normals clockwise,
+ * and flipping a sprite horizontally flips the y of its normals
+ */
+function getNormalTransform(out: mat2, opts?: SpriteDrawOptions): mat2 {
+  mat2.fromRotation(out, opts?.rotation ?? 0);
+  return mat2.scale(out, out, [opts?.flipY ? -1 : 1, opts?.flipX ? -1 : 1]);
+}
+
+/**
+ * Sorts sprites by their sort key & calls back with each run of consecutive
+ * sprites that share textures. Array.sort is stable, so sprites with the same
+ * key stay in the order they were drawn
+ */
+function forEachBatch<
+  T extends { textures: DeferredSpriteTextures; sortKey: SortKey }
+>(
+  instances: Array<T>,
+  cb: (textures: DeferredSpriteTextures, batch: Array<T>) => void
+) {
+  instances.sort(
+    (a, b) => a.sortKey.layer - b.sortKey.layer || a.sortKey.y - b.sortKey.y
+  );
+  let start = 0;
+  for (let i = 1; i <= instances.length; ++i) {
+    if (
+      i < instances.length &&
+      instances[i].textures === instances[start].textures
+    ) {
+      continue;
+    }
+    cb(instances[start].textures, instances.slice(start, i));
+    start = i;
+  }
+}
+
+const LIGHTING_MODES: Record<PendingLight["type"], LightingConstants> = {
+  directional: LightingConstants.LIGHTING_MODE_DIRECTIONAL,
+  point: LightingConstants.LIGHTING_MODE_POINT,
+  spot: LightingConstants.LIGHTING_MODE_SPOT,
+  area: LightingConstants.LIGHTING_MODE_AREA,
+};
+
+/**
+ * Creates an instance covering the area of the G-buffer that a light
+ * reaches, or null if the light is off screen or doesn't reach the ground.
+ * Lights are converted from absolute positions to pixels relative to the top
+ * left of the screen
+ */
+function createLightInstance(
+  light: PendingLight,
+  absolutePosition: ReadonlyVec2,
+  screenSize: ReadonlyVec2
+): LightInstance | null {
+  const specularPower = light.specularPower ?? DEFAULT_SPECULAR_POWER;
+  if (light.type === "directional") {
+    return {
+      mvp: SpriteViewProjection,
+      uv: FULL_UV,
+      ambient: light.ambient,
+      diffuse: light.diffuse,
+      direction: light.direction,
+      radius: 0,
+      shape: NO_SHAPE,
+      falloff: vec2.fromValues(0, specularPower),
+    };
+  }
+
+  // area lights shine from a rect rather than a point, so extents is the
+  // half size of the rect
+  const position = vec3.create();
+  const extents = vec2.create();
+  const shape = vec4.create();
+  if (light.type === "area") {
+    vec2.set(
+      extents,
+      (light.rect[1] - light.rect[3]) / 2,
+      (light.rect[2] - light.rect[0]) / 2
+    );
+    vec3.set(
+      position,
+      light.rect[3] + extents[0],
+      light.rect[0] + extents[1],
+      light.height
+    );
+    vec4.set(shape, extents[0], extents[1], 0, 0);
+  } else {
+    vec3.copy(position, light.position);
+    if (light.type === "spot") {
+      const direction = vec2.normalize(vec2.create(), light.direction);
+      // the inner angle has to be inside the outer angle for the edge of the
+      // cone to be smoothed
+      const outer = Math.min(Math.cos(light.angle), 0.999);
+      const inner = Math.max(
+        Math.cos(light.angle * (1 - light.falloff)),
+        outer + 0.001
+      );
+      vec4.set(shape, direction[0], direction[1], outer, inner);
+    }
+  }
+  position[0] -= absolutePosition[0];
+  position[1] -= absolutePosition[1];
+
+  if (position[2] >= light.radius) {
+    // doesn't intersect the ground plane, so disregard the light
+    return null;
+  }
+  const intersectingRadius = Math.sqrt(
+    light.radius * light.radius - position[2] * position[2]
+  );
+  const left = position[0] - extents[0] - intersectingRadius;
+  const top = position[1] - extents[1] - intersectingRadius;
+  const width = (extents[0] + intersectingRadius) * 2;
+  const height = (extents[1] + intersectingRadius) * 2;
+  if (
+    left > screenSize[0] ||
+    top > screenSize[1] ||
+    left + width < 0 ||
+    top + height < 0
+  ) {
+    return null;
+  }
+
+  const uv = mat3.create();
+  mat3.translate(uv, uv, [left / screenSize[0], top / screenSize[1]]);
+  mat3.scale(uv, uv, [width / screenSize[0], height / screenSize[1]]);
+  const mvp = mat3.mul(mat3.create(), SpriteViewProjection, uv);
+
+  return {
+    mvp,
+    uv,
+    ambient: BLACK,
+    diffuse: light.diffuse,
+    direction: position,
+    radius: light.radius,
+    shape,
+    falloff: vec2.fromValues(
+      light.attenuation ?? DEFAULT_ATTENUATION,
+      specularPower
+    ),
+  };
+}
@@ -5,6 +5,7 @@ import {
   Quad,
   ShaderProgram,
   TEXTURE,
+  TextureFormat,
   createTexture,
 } from "@pixelheart/client";
 
@@ -20,12 +21,23 @@ export class GaussianBlurEffect {
     frameBuffers: Array<FrameBuffer<typeof fragmentShader>>;
     textures: Array<GPUTexture>;
   } | null;
+  #format: TextureFormat;
 
-  constructor(ctx: GameContext) {
+  /**
+   * The format of the blurred textures defaults to RGBA/UNSIGNED_BYTE, a
+   * floating point format can be used to blur HDR inputs without clamping
+   * them
+   */
+  constructor(ctx: GameContext, format?: TextureFormat) {
     this.#gl = ctx.gl;
     this.#program = new ShaderProgram(ctx.gl, vertexShader, fragmentShader)!;
     this.#quad = new Quad(this.#gl);
     this.#blurBuffer = null;
+    this.#format = format ?? {
+      internalFormat: this.#gl.RGBA,
+      format: this.#gl.RGBA,
+      type: this.#gl.UNSIGNED_BYTE,
+    };
   }
 
   draw(
@@ -43,11 +55,12 @@ export class GaussianBlurEffect {
         textures.push({
           [TEXTURE]: createTexture(
             this.#gl,
-            this.#gl.RGBA,
-            this.#gl.RGBA,
-            this.#gl.UNSIGNED_BYTE,
+            this.#format.internalFormat,
+            this.#format.format,
+            this.#format.type,
             input.width * scale,
-            input.height * scale
+            input.height * scale,
+            this.#format.opts
           ),
           width: input.width * scale,
           height: input.height * scale,
@@ -2,3 +2,8 @@ export * from "./deferred-sprite-effect.js";
 export * from "./sprite-effect.js";
 export * from "./solid-effect.js";
 export * from "./gaussian-blur.js";
+export * from "./post-process.js";
+export * from "./tilemap-effect.js";
+export * from "./particle-effect.js";
+export * from "./text-effect.js";
+export * from "./ui-effect.js";
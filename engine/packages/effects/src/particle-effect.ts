@@ -0,0 +1,143 @@
+import {
+  GameContext,
+  InstanceBuffer,
+  ParticleSystem,
+  Quad,
+  ShaderProgram,
+  SpriteViewProjection,
+  TEXTURE,
+  sampleColors,
+} from "@pixelheart/client";
+import { ReadonlyVec2, mat3, vec4 } from "@pixelheart/client/gl-matrix";
+
+import {
+  DeferredSpriteEffect,
+  DeferredSpriteSheet,
+} from "./deferred-sprite-effect.js";
+import fragmentShader from "./shaders/deferred-particle.frag.js";
+import vertexShader from "./shaders/deferred-particle.vert.js";
+
+type ParticleInstance = {
+  mvp: mat3;
+  uv: mat3;
+  color: Float32Array;
+  emissive: Float32Array;
+};
+
+/**
+ * Draws the particles of a ParticleSystem into the deferred G-buffer as
+ * instanced quads. Particles are tinted & faded by the colors of their
+ * emitter, and emissive colors are written into the lighting buffer so that
+ * particles can glow without any lights.
+ */
+export class ParticleEffect {
+  #program: ShaderProgram<typeof vertexShader, typeof fragmentShader>;
+  #instanceBuffer: InstanceBuffer<typeof vertexShader, ParticleInstance>;
+  #quad: Quad;
+  #pending: Array<ParticleInstance>;
+
+  constructor(ctx: GameContext) {
+    this.#program = new ShaderProgram(ctx.gl, vertexShader, fragmentShader);
+    this.#instanceBuffer = new InstanceBuffer(ctx.gl, this.#program, {
+      a_mvp: (instance) => instance.mvp,
+      a_uv: (instance) => instance.uv,
+      a_color: (instance) => instance.color,
+      a_emissive: (instance) => instance.emissive,
+    });
+    this.#quad = new Quad(ctx.gl);
+    this.#pending = [];
+  }
+
+  /**
+   * Draws all the particles in a system using sprites from the given sheet.
+   * Must be called within the fill scope of the DeferredSpriteEffect.
+   */
+  draw(
+    ctx: GameContext,
+    s: DeferredSpriteEffect,
+    system: ParticleSystem,
+    sheet: DeferredSpriteSheet,
+    screenAbsolutePosition: ReadonlyVec2,
+  ): ParticleEffect {
+    const textures = sheet[TEXTURE];
+    const { width, height } = textures.diffuseTexture;
+
+    for (const emitter of system.emitters) {
+      const sprite = sheet[emitter.config.sprite];
+      if (!sprite) {
+        continue;
+      }
+      for (const p of emitter.particles) {
+        const t = p.age / p.lifetime;
+        // particles are centered on their position & snapped to whole pixels
+        const top =
+          Math.round(p.position[1] - sprite.height / 2) -
+          screenAbsolutePosition[1];
+        const left =
+          Math.round(p.position[0] - sprite.width / 2) -
+          screenAbsolutePosition[0];
+        const rect = ctx.screen.toScreenSpace(
+          vec4.create(),
+          vec4.fromValues(top, left + sprite.width, top + sprite.height, left),
+        );
+        // the frames of the sprite are played once over the particles life
+        const textureCoords =
+          sprite.frames[
+            Math.min(
+              sprite.frames.length - 1,
+              Math.floor(t * sprite.frames.length),
+            )
+          ];
+
+        const mvp = mat3.create();
+        mat3.translate(mvp, mvp, [rect[3], rect[0]]);
+        mat3.scale(mvp, mvp, [rect[1] - rect[3], rect[2] - rect[0]]);
+        mat3.multiply(mvp, SpriteViewProjection, mvp);
+
+        const uv = mat3.create();
+        mat3.translate(uv, uv, [
+          textureCoords[3] / width,
+          textureCoords[0] / height,
+        ]);
+        mat3.scale(uv, uv, [
+          (textureCoords[1] - textureCoords[3]) / width,
+          (textureCoords[2] - textureCoords[0]) / height,
+        ]);
+
+        this.#pending.push({
+          mvp,
+          uv,
+          color: sampleColors(new Float32Array(4), emitter.config.colors, t),
+          emissive: sampleColors(
+            new Float32Array(3),
+            emitter.config.emissive ?? [],
+            t,
+          ),
+        });
+      }
+    }
+
+    if (!this.#pending.length) {
+      return this;
+    }
+
+    // draw any sprites queued before the particles so that they are drawn first
+    s.flush();
+    this.#program.use((p) => {
+      p.setUniforms({
+        u_diffuseTexture: textures.diffuseTexture,
+        u_normalTexture: textures.normalTexture,
+        u_specularTexture: textures.specularTexture,
+        u_emissiveTexture: textures.emissiveTexture,
+      });
+      this.#quad.bindInstances(
+        p,
+        { position: "a_position" },
+        this.#instanceBuffer.load(this.#pending),
+        (q) => q.draw(),
+      );
+    });
+    this.#pending = [];
+    return this;
+  }
+}
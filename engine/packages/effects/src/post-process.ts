@@ -0,0 +1,185 @@
+import {
+  FrameBuffer,
+  GPUTexture,
+  GameContext,
+  Quad,
+  ShaderProgram,
+  ShaderSource,
+  TEXTURE,
+  createTexture,
+} from "@pixelheart/client";
+
+import copyFragmentShader from "./shaders/post-copy.frag.js";
+import vertexShader from "./shaders/quad.vert.js";
+
+/**
+ * Every pass reads the output of the previous pass from u_input & writes its
+ * own output to o_color. Passes can also declare a u_inputSize vec2 uniform,
+ * which is set to the size of the input in pixels.
+ */
+export type PostProcessShader = ShaderSource & {
+  outAttributes: { o_color: { type: "vec4" } };
+  uniforms: { u_input: "sampler2D" };
+};
+
+type PassUniforms<TFrag extends PostProcessShader> = Parameters<
+  ShaderProgram<typeof vertexShader, TFrag>["setUniforms"]
+>[0];
+
+export class PostProcessPass<TFrag extends PostProcessShader> {
+  readonly name: string;
+  readonly program: ShaderProgram<typeof vertexShader, TFrag>;
+  enabled: boolean;
+  // set on the program every time the pass is drawn, so these can be changed
+  // between frames
+  uniforms: PassUniforms<TFrag>;
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    name: string,
+    fragmentShader: TFrag,
+    uniforms: PassUniforms<TFrag>,
+  ) {
+    this.name = name;
+    this.program = new ShaderProgram(gl, vertexShader, fragmentShader);
+    this.enabled = true;
+    this.uniforms = uniforms;
+  }
+}
+
+/**
+ * Applies an ordered list of full screen passes to a texture, such as the
+ * lighting texture of the DeferredSpriteEffect, ping-ponging between a pair
+ * of frame buffers. The last enabled pass draws into whatever frame buffer is
+ * currently bound. Passes are ShaderPrograms, so they are hot reloaded along
+ * with every other shader.
+ *
+ * Shaders for common passes (color grading, vignette, crt, palette & fade)
+ * are included in @pixelheart/effects/shaders.
+ */
+export class PostProcessChain {
+  #gl: WebGL2RenderingContext;
+  #quad: Quad;
+  #copyPass: PostProcessPass<typeof copyFragmentShader>;
+  #passes: Array<PostProcessPass<PostProcessShader>>;
+  #buffers: {
+    frameBuffers: Array<FrameBuffer<typeof copyFragmentShader>>;
+    textures: Array<GPUTexture>;
+  } | null;
+
+  constructor(ctx: GameContext) {
+    this.#gl = ctx.gl;
+    this.#quad = new Quad(this.#gl);
+    this.#copyPass = new PostProcessPass(
+      this.#gl,
+      "copy",
+      copyFragmentShader,
+      {},
+    );
+    this.#passes = [];
+    this.#buffers = null;
+  }
+
+  /**
+   * Adds a pass after all of the existing passes
+   */
+  addPass<TFrag extends PostProcessShader>(
+    name: string,
+    fragmentShader: TFrag,
+    uniforms: PassUniforms<TFrag> = {},
+  ): PostProcessPass<TFrag> {
+    if (this.getPass(name)) {
+      throw new Error(`Post process pass ${name} has already been added`);
+    }
+    const pass = new PostProcessPass(this.#gl, name, fragmentShader, uniforms);
+    this.#passes.push(pass);
+    return pass;
+  }
+
+  getPass(name: string): PostProcessPass<PostProcessShader> | undefined {
+    return this.#passes.find((p) => p.name === name);
+  }
+
+  removePass(name: string): PostProcessChain {
+    this.#passes = this.#passes.filter((p) => p.name !== name);
+    return this;
+  }
+
+  draw(input: GPUTexture): PostProcessChain {
+    const enabled = this.#passes.filter((p) => p.enabled);
+    // with no passes enabled, the input is copied as is
+    const passes = enabled.length ? enabled : [this.#copyPass];
+
+    const previousBlend = this.#gl.getParameter(this.#gl.BLEND);
+    this.#gl.disable(this.#gl.BLEND);
+    const vp = this.#gl.getParameter(this.#gl.VIEWPORT);
+
+    let current = input;
+    for (let i = 0; i < passes.length; ++i) {
+      const pass = passes[i];
+      if (i === passes.length - 1) {
+        this.#gl.viewport(vp[0], vp[1], vp[2], vp[3]);
+        this.#drawPass(pass, current);
+      } else {
+        const b = this.#getBuffers(input);
+        const target = i % 2;
+        this.#gl.viewport(0, 0, input.width, input.height);
+        b.frameBuffers[target].bind(() => {
+          this.#drawPass(pass, current);
+        });
+        current = b.textures[target];
+      }
+    }
+
+    if (previousBlend) {
+      this.#gl.enable(this.#gl.BLEND);
+    }
+    return this;
+  }
+
+  #drawPass(pass: PostProcessPass<PostProcessShader>, input: GPUTexture) {
+    pass.program.use((p) => {
+      // texture units are assigned in the order samplers are set, so the
+      // input has to be set along with any samplers used by the pass
+      p.setUniforms({
+        ...pass.uniforms,
+        u_input: input,
+        u_inputSize: [input.width, input.height],
+      });
+      this.#quad.bind(p, { position: "a_position" }, (q) => q.draw());
+    });
+  }
+
+  #getBuffers(input: GPUTexture) {
+    if (
+      !this.#buffers ||
+      this.#buffers.textures[0].width !== input.width ||
+      this.#buffers.textures[0].height !== input.height
+    ) {
+      const textures: Array<GPUTexture> = [];
+      for (let i = 0; i < 2; ++i) {
+        textures.push({
+          [TEXTURE]: createTexture(
+            this.#gl,
+            this.#gl.RGBA,
+            this.#gl.RGBA,
+            this.#gl.UNSIGNED_BYTE,
+            input.width,
+            input.height,
+            { filter: this.#gl.NEAREST },
+          ),
+          width: input.width,
+          height: input.height,
+        });
+      }
+      this.#buffers = {
+        textures,
+        frameBuffers: textures.map(
+          (t) =>
+            new FrameBuffer(this.#gl, this.#copyPass.program, { o_color: t }),
+        ),
+      };
+    }
+    return this.#buffers;
+  }
+}
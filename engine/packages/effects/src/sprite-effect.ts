@@ -5,13 +5,16 @@ import {
   Quad,
   ShaderProgram,
   SpriteAnimator,
+  SpriteDrawOptions,
   SpriteEffect,
   SpriteSheet,
   SpriteSheetConfig,
   SpriteViewProjection,
+  getSpriteModel,
+  getSpriteUV,
   loadTextureFromUrl,
 } from "@pixelheart/client";
-import { mat3, ReadonlyVec4 } from "@pixelheart/client/gl-matrix";
+import { mat3, vec4, ReadonlyVec4 } from "@pixelheart/client/gl-matrix";
 
 import fragmentShader from "./shaders/sprite.frag.js";
 import vertexShader from "./shaders/sprite.vert.js";
@@ -31,10 +34,14 @@ type SpriteInstance = {
   mvp: mat3;
   uv: mat3;
   alpha: number;
+  tint: ReadonlyVec4;
 };
 
+const WHITE = vec4.fromValues(1, 1, 1, 1);
+
 export class SimpleSpriteEffect implements SpriteEffect<SimpleSpriteTextures> {
   #gl: WebGL2RenderingContext;
+  #screen: GameContext["screen"];
   #program: ShaderProgram<typeof vertexShader, typeof fragmentShader>;
   #instanceBuffer: InstanceBuffer<typeof vertexShader, SpriteInstance>;
   #quad: Quad;
@@ -44,11 +51,13 @@ export class SimpleSpriteEffect implements SpriteEffect<SimpleSpriteTextures> {
 
   constructor(ctx: GameContext) {
     this.#gl = ctx.gl;
+    this.#screen = ctx.screen;
     this.#program = new ShaderProgram(ctx.gl, vertexShader, fragmentShader)!;
     this.#instanceBuffer = new InstanceBuffer(this.#gl, this.#program, {
       a_mvp: (instance) => instance.mvp,
       a_uv: (instance) => instance.uv,
       a_alpha: (instance) => instance.alpha,
+      a_tint: (instance) => instance.tint,
     });
     this.#quad = new Quad(this.#gl);
     this.#pending = [];
@@ -83,24 +92,22 @@ export class SimpleSpriteEffect implements SpriteEffect<SimpleSpriteTextures> {
     return this;
   }
 
-  draw(rect: ReadonlyVec4, textureCoords: ReadonlyVec4): SimpleSpriteEffect {
+  draw(
+    rect: ReadonlyVec4,
+    textureCoords: ReadonlyVec4,
+    opts?: SpriteDrawOptions
+  ): SimpleSpriteEffect {
     if (this.#texture) {
-      const mvp = mat3.create();
-      mat3.translate(mvp, mvp, [rect[3], rect[0]]);
-      mat3.scale(mvp, mvp, [rect[1] - rect[3], rect[2] - rect[0]]);
+      const mvp = getSpriteModel(mat3.create(), rect, this.#screen, opts);
       mat3.multiply(mvp, SpriteViewProjection, mvp);
+      const uv = getSpriteUV(mat3.create(), textureCoords, this.#texture, opts);
 
-      const uv = mat3.create();
-      mat3.translate(uv, uv, [
-        textureCoords[3] / this.#texture.width,
-        textureCoords[0] / this.#texture.height,
-      ]);
-      mat3.scale(uv, uv, [
-        (textureCoords[1] - textureCoords[3]) / this.#texture.width,
-        (textureCoords[2] - textureCoords[0]) / this.#texture.height,
-      ]);
-
-      this.#pending.push({ mvp, uv, alpha: this.#alpha });
+      this.#pending.push({
+        mvp,
+        uv,
+        alpha: this.#alpha,
+        tint: opts?.tint ?? WHITE,
+      });
     }
     return this;
   }
@@ -0,0 +1,143 @@
+import {
+  Font,
+  GameContext,
+  InstanceBuffer,
+  Quad,
+  ShaderProgram,
+  SpriteViewProjection,
+  TextLayoutOptions,
+  layoutText,
+} from "@pixelheart/client";
+import { ReadonlyVec4, mat3, vec4 } from "@pixelheart/client/gl-matrix";
+
+import fragmentShader from "./shaders/text.frag.js";
+import vertexShader from "./shaders/text.vert.js";
+
+export interface TextOptions extends TextLayoutOptions {
+  // defaults to opaque white
+  color?: ReadonlyVec4;
+}
+
+type GlyphInstance = {
+  mvp: mat3;
+  uv: mat3;
+  color: ReadonlyVec4;
+};
+
+const DEFAULT_COLOR = vec4.fromValues(1, 1, 1, 1);
+
+/**
+ * Draws text using bitmap fonts. Glyphs are drawn as instanced quads in the
+ * same way as the SimpleSpriteEffect, with the alpha of the font texture used
+ * as a mask so that the same font can be drawn in any color.
+ */
+export class TextEffect {
+  #ctx: GameContext;
+  #program: ShaderProgram<typeof vertexShader, typeof fragmentShader>;
+  #instanceBuffer: InstanceBuffer<typeof vertexShader, GlyphInstance>;
+  #quad: Quad;
+  #font: Font | null;
+  #pending: Array<GlyphInstance>;
+
+  constructor(ctx: GameContext) {
+    this.#ctx = ctx;
+    this.#program = new ShaderProgram(ctx.gl, vertexShader, fragmentShader);
+    this.#instanceBuffer = new InstanceBuffer(ctx.gl, this.#program, {
+      a_mvp: (instance) => instance.mvp,
+      a_uv: (instance) => instance.uv,
+      a_color: (instance) => instance.color,
+    });
+    this.#quad = new Quad(ctx.gl);
+    this.#font = null;
+    this.#pending = [];
+  }
+
+  use(scope: (s: TextEffect) => void) {
+    this.#program.use(() => {
+      scope(this);
+      this.#end();
+      this.#font = null;
+    });
+  }
+
+  setFont(font: Font): TextEffect {
+    if (font === this.#font) {
+      return this;
+    } else if (this.#pending.length) {
+      this.#end();
+    }
+    this.#font = font;
+    return this;
+  }
+
+  /**
+   * Draws text within a [top, right, bottom, left] rect in pixels relative
+   * to the top left of the screen. Any lines that don't fit within the
+   * height of the rect are not drawn.
+   */
+  draw(text: string, rect: ReadonlyVec4, opts: TextOptions = {}): TextEffect {
+    if (!this.#font) {
+      return this;
+    }
+    const { config, texture } = this.#font;
+    const layout = layoutText(config, text, rect[1] - rect[3], opts);
+    const color = opts.color ? vec4.clone(opts.color) : DEFAULT_COLOR;
+
+    for (const { glyph, x, y } of layout.glyphs) {
+      if (rect[0] + y + config.lineHeight > rect[2]) {
+        break;
+      }
+      const glyphRect = this.#ctx.screen.toScreenSpace(
+        vec4.create(),
+        vec4.fromValues(
+          rect[0] + y,
+          rect[3] + x + glyph.width,
+          rect[0] + y + glyph.height,
+          rect[3] + x,
+        ),
+      );
+
+      const mvp = mat3.create();
+      mat3.translate(mvp, mvp, [glyphRect[3], glyphRect[0]]);
+      mat3.scale(mvp, mvp, [
+        glyphRect[1] - glyphRect[3],
+        glyphRect[2] - glyphRect[0],
+      ]);
+      mat3.multiply(mvp, SpriteViewProjection, mvp);
+
+      const uv = mat3.create();
+      mat3.translate(uv, uv, [
+        glyph.left / texture.width,
+        glyph.top / texture.height,
+      ]);
+      mat3.scale(uv, uv, [
+        (glyph.right - glyph.left) / texture.width,
+        (glyph.bottom - glyph.top) / texture.height,
+      ]);
+
+      this.#pending.push({ mvp, uv, color });
+    }
+    return this;
+  }
+
+  #end() {
+    if (!this.#font || !this.#pending.length) {
+      this.#pending = [];
+      return;
+    }
+    // the texture is set when the glyphs are drawn rather than in setFont, as
+    // fonts are reloaded in place & the texture may have changed since
+    this.#program.setUniforms({
+      u_texture: this.#font.texture,
+    });
+    this.#quad.bindInstances(
+      this.#program,
+      { position: "a_position" },
+      this.#instanceBuffer.load(this.#pending),
+      (q) => {
+        q.draw();
+      },
+    );
+    this.#pending = [];
+  }
+}
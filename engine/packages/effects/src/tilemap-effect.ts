@@ -0,0 +1,265 @@
+import {
+  GameContext,
+  MapChunk,
+  MapContainer,
+  MapData,
+  Quad,
+  ShaderProgram,
+  SpriteSheetConfig,
+  SpriteViewProjection,
+  TEXTURE,
+  createTexture,
+} from "@pixelheart/client";
+import { ReadonlyVec2, mat3, vec4 } from "@pixelheart/client/gl-matrix";
+
+import {
+  DeferredSpriteEffect,
+  DeferredSpriteTextures,
+} from "./deferred-sprite-effect.js";
+import fragmentShader from "./shaders/tilemap.frag.js";
+import vertexShader from "./shaders/tilemap.vert.js";
+
+type ChunkTexture = {
+  data: MapData;
+  version: number;
+  texture: WebGLTexture;
+};
+
+type SpriteFramesTexture = {
+  sprites: SpriteSheetConfig["sprites"];
+  texture: WebGLTexture;
+};
+
+/**
+ * Draws map layers into the deferred G-buffer. Rather than drawing every tile
+ * as a sprite, the encoded tiles of each loaded map chunk are uploaded as a
+ * texture & the fragment shader resolves tile indexes to sprite sheet frames,
+ * so a layer is drawn with one quad per visible chunk regardless of the size
+ * of the screen.
+ */
+export class TilemapEffect {
+  #gl: WebGL2RenderingContext;
+  #program: ShaderProgram<typeof vertexShader, typeof fragmentShader>;
+  #quad: Quad;
+  #chunks: Map<MapChunk, ChunkTexture>;
+  #spriteFrames: WeakMap<SpriteSheetConfig, SpriteFramesTexture>;
+
+  constructor(ctx: GameContext) {
+    this.#gl = ctx.gl;
+    this.#program = new ShaderProgram(ctx.gl, vertexShader, fragmentShader);
+    this.#quad = new Quad(this.#gl);
+    this.#chunks = new Map();
+    this.#spriteFrames = new WeakMap();
+  }
+
+  /**
+   * Draws a single layer of a map. Must be called within the fill scope of
+   * the DeferredSpriteEffect. Tiles flagged as animated are offset by frame,
+   * and tiles flagged with a spatial hash are offset by a hash of their
+   * position.
+   */
+  draw(
+    ctx: GameContext,
+    s: DeferredSpriteEffect,
+    map: MapContainer<DeferredSpriteTextures>,
+    layer: number,
+    screenAbsolutePosition: ReadonlyVec2,
+    frame: number = 0
+  ): TilemapEffect {
+    const data = map.data;
+    this.#releaseChunks(data);
+    if (layer < 0 || layer >= data.layers) {
+      return this;
+    }
+
+    const chunkPixels = data.chunkSize * data.tileSize;
+    const minX = Math.floor(screenAbsolutePosition[0] / chunkPixels);
+    const minY = Math.floor(screenAbsolutePosition[1] / chunkPixels);
+    const maxX = Math.floor(
+      (screenAbsolutePosition[0] + ctx.screen.width) / chunkPixels
+    );
+    const maxY = Math.floor(
+      (screenAbsolutePosition[1] + ctx.screen.height) / chunkPixels
+    );
+
+    const textures = map.sprite[TEXTURE];
+    const spriteFrames = this.#getSpriteFrames(map.spriteConfig);
+    const tileTransform = mat3.fromScaling(mat3.create(), [
+      data.chunkSize,
+      data.chunkSize,
+    ]);
+
+    // draw any sprites queued before the map so that they are drawn first
+    s.flush();
+    this.#program.use((p) => {
+      for (let y = minY; y <= maxY; ++y) {
+        for (let x = minX; x <= maxX; ++x) {
+          const chunk = data.getChunk(x, y);
+          if (!chunk) {
+            continue;
+          }
+          const mapTexture = this.#getChunkTexture(data, chunk);
+
+          const rect = ctx.screen.toScreenSpace(
+            vec4.create(),
+            vec4.fromValues(
+              y * chunkPixels - screenAbsolutePosition[1],
+              (x + 1) * chunkPixels - screenAbsolutePosition[0],
+              (y + 1) * chunkPixels - screenAbsolutePosition[1],
+              x * chunkPixels - screenAbsolutePosition[0]
+            )
+          );
+          const mvp = mat3.create();
+          mat3.translate(mvp, mvp, [rect[3], rect[0]]);
+          mat3.scale(mvp, mvp, [rect[1] - rect[3], rect[2] - rect[0]]);
+          mat3.multiply(mvp, SpriteViewProjection, mvp);
+
+          // texture units are assigned in the order samplers are set, so all
+          // of the samplers have to be set together
+          p.setUniforms({
+            u_diffuseTexture: textures.diffuseTexture,
+            u_normalTexture: textures.normalTexture,
+            u_specularTexture: textures.specularTexture,
+            u_emissiveTexture: textures.emissiveTexture,
+            u_mapTexture: mapTexture,
+            u_spriteFrames: spriteFrames,
+            u_spriteSheetSize: [
+              textures.diffuseTexture.width,
+              textures.diffuseTexture.height,
+            ],
+            u_chunkOffset: [x * data.chunkSize, y * data.chunkSize],
+            u_chunkSize: data.chunkSize,
+            u_layer: layer,
+            u_frame: Math.floor(frame),
+            u_mvp: mvp,
+            u_tileTransform: tileTransform,
+          });
+          this.#quad.bind(p, { position: "a_position" }, (q) => {
+            q.draw();
+          });
+        }
+      }
+    });
+    return this;
+  }
+
+  #getChunkTexture(data: MapData, chunk: MapChunk): WebGLTexture {
+    let entry = this.#chunks.get(chunk);
+    if (!entry) {
+      entry = {
+        data,
+        version: -1,
+        texture: createTexture(
+          this.#gl,
+          this.#gl.RGBA,
+          this.#gl.RGBA,
+          this.#gl.UNSIGNED_BYTE,
+          data.chunkSize,
+          data.chunkSize * data.layers,
+          { filter: this.#gl.NEAREST }
+        ),
+      };
+      this.#chunks.set(chunk, entry);
+    }
+    // tiles written since the chunk was last uploaded (e.g. by the editor)
+    if (entry.version !== chunk.version) {
+      entry.version = chunk.version;
+      this.#upload(
+        entry.texture,
+        data.chunkSize,
+        data.chunkSize * data.layers,
+        this.#gl.UNSIGNED_BYTE,
+        chunk.data
+      );
+    }
+    return entry.texture;
+  }
+
+  #releaseChunks(data: MapData) {
+    for (const [chunk, entry] of this.#chunks) {
+      if (entry.data !== data || data.getChunk(chunk.x, chunk.y) !== chunk) {
+        this.#gl.deleteTexture(entry.texture);
+        this.#chunks.delete(chunk);
+      }
+    }
+  }
+
+  #getSpriteFrames(config: SpriteSheetConfig): WebGLTexture {
+    let entry = this.#spriteFrames.get(config);
+    // sprite sheets are reloaded in place, so check that the sprites haven't
+    // changed since the frames were last uploaded
+    if (entry && entry.sprites === config.sprites) {
+      return entry.texture;
+    }
+    if (entry) {
+      this.#gl.deleteTexture(entry.texture);
+    }
+
+    // each row holds the frame count for a sprite index followed by the
+    // rects of each of its frames
+    let maxFrames = 0;
+    for (const name of config.indexes) {
+      maxFrames = Math.max(maxFrames, config.sprites[name]?.frames.length ?? 0);
+    }
+    const width = maxFrames + 1;
+    const height = Math.max(config.indexes.length, 1);
+    const frames = new Float32Array(width * height * 4);
+    config.indexes.forEach((name, index) => {
+      const sprite = config.sprites[name];
+      if (!sprite) {
+        return;
+      }
+      const row = index * width * 4;
+      frames[row] = sprite.frames.length;
+      sprite.frames.forEach((f, i) => {
+        const offset = row + (i + 1) * 4;
+        frames[offset] = f.top;
+        frames[offset + 1] = f.right;
+        frames[offset + 2] = f.bottom;
+        frames[offset + 3] = f.left;
+      });
+    });
+
+    entry = {
+      sprites: config.sprites,
+      texture: createTexture(
+        this.#gl,
+        this.#gl.RGBA32F,
+        this.#gl.RGBA,
+        this.#gl.FLOAT,
+        width,
+        height,
+        { filter: this.#gl.NEAREST }
+      ),
+    };
+    this.#upload(entry.texture, width, height, this.#gl.FLOAT, frames);
+    this.#spriteFrames.set(config, entry);
+    return entry.texture;
+  }
+
+  #upload(
+    texture: WebGLTexture,
+    width: number,
+    height: number,
+    type: number,
+    pixels: ArrayBufferView
+  ) {
+    this.#gl.activeTexture(this.#gl.TEXTURE0);
+    this.#gl.bindTexture(this.#gl.TEXTURE_2D, texture);
+    // the data is read with texelFetch, so rows must stay in the same order
+    this.#gl.pixelStorei(this.#gl.UNPACK_FLIP_Y_WEBGL, false);
+    this.#gl.pixelStorei(this.#gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    this.#gl.texSubImage2D(
+      this.#gl.TEXTURE_2D,
+      0,
+      0,
+      0,
+      width,
+      height,
+      this.#gl.RGBA,
+      type,
+      pixels
+    );
+    this.#gl.bindTexture(this.#gl.TEXTURE_2D, null);
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  Font,
+  GameContext,
+  Sprite,
+  UI,
+  UIBorder,
+  UIRenderer,
+  UITextOptions,
+} from "@pixelheart/client";
+import { ReadonlyVec4, vec4 } from "@pixelheart/client/gl-matrix";
+
+import { SolidEffect } from "./solid-effect.js";
+import { SimpleSpriteEffect, SimpleSpriteTextures } from "./sprite-effect.js";
+import { TextEffect } from "./text-effect.js";
+
+type UICommand =
+  | {
+      type: "fill";
+      rect: ReadonlyVec4;
+      color: ReadonlyVec4;
+      border: UIBorder | null;
+    }
+  | {
+      type: "text";
+      font: Font;
+      text: string;
+      rect: ReadonlyVec4;
+      opts: UITextOptions;
+    }
+  | {
+      type: "sprite";
+      sprite: Sprite<SimpleSpriteTextures>;
+      rect: ReadonlyVec4;
+      frame: number;
+      nineSlice: boolean;
+    };
+
+/**
+ * Draws a UI using simple sprites, solid fills & bitmap text. Elements are
+ * drawn in order, with consecutive elements of the same kind drawn together.
+ */
+export class UIEffect implements UIRenderer<SimpleSpriteTextures> {
+  #ctx: GameContext;
+  #solidEffect: SolidEffect;
+  #spriteEffect: SimpleSpriteEffect;
+  #textEffect: TextEffect;
+  #commands: Array<UICommand>;
+
+  constructor(ctx: GameContext) {
+    this.#ctx = ctx;
+    this.#solidEffect = new SolidEffect(ctx);
+    this.#spriteEffect = new SimpleSpriteEffect(ctx);
+    this.#textEffect = new TextEffect(ctx);
+    this.#commands = [];
+  }
+
+  draw(ui: UI<SimpleSpriteTextures>): UIEffect {
+    ui.draw(this.#ctx, this);
+    let start = 0;
+    while (start < this.#commands.length) {
+      let end = start + 1;
+      while (
+        end < this.#commands.length &&
+        canBatch(this.#commands[start], this.#commands[end])
+      ) {
+        ++end;
+      }
+      this.#drawBatch(this.#commands.slice(start, end));
+      start = end;
+    }
+    this.#commands = [];
+    return this;
+  }
+
+  fill(rect: ReadonlyVec4, color: ReadonlyVec4, border?: UIBorder) {
+    this.#commands.push({ type: "fill", rect, color, border: border ?? null });
+  }
+
+  text(font: Font, text: string, rect: ReadonlyVec4, opts: UITextOptions) {
+    this.#commands.push({ type: "text", font, text, rect, opts });
+  }
+
+  sprite(
+    sprite: Sprite<SimpleSpriteTextures>,
+    rect: ReadonlyVec4,
+    opts: { frame?: number; nineSlice?: boolean } = {},
+  ) {
+    this.#commands.push({
+      type: "sprite",
+      sprite,
+      rect,
+      frame: opts.frame ?? 0,
+      nineSlice: opts.nineSlice ?? false,
+    });
+  }
+
+  #drawBatch(batch: Array<UICommand>) {
+    const screen = this.#ctx.screen;
+    const first = batch[0];
+    switch (first.type) {
+      case "fill":
+        this.#solidEffect.use((s) => {
+          s.setBorder(screen, borderWidth(first));
+          for (const c of batch) {
+            if (c.type === "fill") {
+              s.draw(
+                screen.toScreenSpace(vec4.create(), c.rect),
+                c.color,
+                c.border?.color,
+              );
+            }
+          }
+        });
+        break;
+
+      case "text":
+        this.#textEffect.use((s) => {
+          for (const c of batch) {
+            if (c.type === "text") {
+              s.setFont(c.font).draw(c.text, c.rect, c.opts);
+            }
+          }
+        });
+        break;
+
+      case "sprite":
+        this.#spriteEffect.use((s) => {
+          for (const c of batch) {
+            if (c.type !== "sprite") {
+              continue;
+            }
+            const rect = screen.toScreenSpace(vec4.create(), c.rect);
+            if (c.nineSlice) {
+              c.sprite.drawNineSlice(s, rect, c.frame);
+            } else {
+              c.sprite.draw(s, rect, c.frame);
+            }
+          }
+        });
+        break;
+    }
+  }
+}
+
+function borderWidth(c: { border: UIBorder | null }): number {
+  return c.border?.width ?? 0;
+}
+
+function canBatch(a: UICommand, b: UICommand): boolean {
+  // the border width is set for all the fills drawn together
+  return (
+    a.type === b.type &&
+    (a.type !== "fill" ||
+      b.type !== "fill" ||
+      borderWidth(a) === borderWidth(b))
+  );
+}
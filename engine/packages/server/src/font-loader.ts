@@ -0,0 +1,56 @@
+import { ErrorObject } from "ajv";
+import Ajv, { JTDDataType } from "ajv/dist/jtd.js";
+import path from "path";
+
+import { loadJson } from "./file-utils.js";
+
+// glyphs are laid out in rows of equally sized cells in the font sheet. Each
+// glyph is trimmed to the width of its non transparent pixels, so cells only
+// need to be wide enough to fit the widest glyph in the row
+const fontSchema = {
+  properties: {
+    lineHeight: { type: "int32" },
+    spaceWidth: { type: "int32" },
+    rows: {
+      elements: {
+        properties: {
+          x: { type: "int32" },
+          y: { type: "int32" },
+          cellWidth: { type: "int32" },
+          cellHeight: { type: "int32" },
+          chars: { type: "string" },
+        },
+      },
+    },
+  },
+  optionalProperties: {
+    letterSpacing: { type: "int32" },
+    kerning: { values: { type: "int32" } },
+    fallback: { type: "string" },
+  },
+} as const;
+
+const ajv = new Ajv.default();
+const validate = ajv.compile<FontMetadata>(fontSchema);
+
+export type FontMetadata = JTDDataType<typeof fontSchema>;
+
+export async function loadFontMetadata(
+  fontAssetsRoot: string,
+  font: string,
+): Promise<
+  | { ok: true; metadata: FontMetadata }
+  | { ok: false; errors: ErrorObject<string, Record<string, any>, unknown>[] }
+> {
+  const metadataPath = path.join(fontAssetsRoot, font, "metadata.json");
+  const metadata = await loadJson(metadataPath);
+  if (!metadata.ok) {
+    return { ok: false, errors: [] };
+  }
+
+  if (validate(metadata.data)) {
+    return { ok: true, metadata: metadata.data as FontMetadata };
+  } else {
+    return { ok: false, errors: validate.errors! };
+  }
+}
@@ -1,3 +1,4 @@
 export * from "./file-utils.js";
+export * from "./font-loader.js";
 export * from "./map-loader.js";
 export * from "./editor.js";
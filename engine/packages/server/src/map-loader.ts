@@ -1,5 +1,6 @@
 import { ErrorObject } from "ajv";
 import Ajv, { JTDDataType } from "ajv/dist/jtd.js";
+import { existsSync } from "fs";
 import path from "path";
 
 import { loadJson } from "./file-utils.js";
@@ -8,6 +9,7 @@ const mapSchema = {
   properties: {
     width: { type: "int32" },
     height: { type: "int32" },
+    layers: { type: "int32" },
     startPosition: {
       properties: {
         x: { type: "int32" },
@@ -16,12 +18,94 @@ const mapSchema = {
     },
     spriteSheet: { type: "string" },
   },
+  optionalProperties: {
+    // the width & height in tiles of the chunks the map is split into
+    chunkSize: { type: "int32" },
+  },
+} as const;
+
+// triggers are keyed by the triggerId painted onto map tiles
+const triggersSchema = {
+  values: {
+    properties: {
+      on: { elements: { enum: ["enter", "exit", "interact"] } },
+      action: {
+        discriminator: "type",
+        mapping: {
+          warp: {
+            properties: {
+              map: { type: "string" },
+              x: { type: "int32" },
+              y: { type: "int32" },
+            },
+          },
+          dialog: {
+            properties: {
+              text: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const lightOptions = {
+  attenuation: { type: "float32" },
+  specularPower: { type: "float32" },
+} as const;
+
+// lights are positioned relative to the center of the tile at x,y
+const lightsSchema = {
+  elements: {
+    properties: {
+      x: { type: "int32" },
+      y: { type: "int32" },
+      light: {
+        discriminator: "type",
+        mapping: {
+          point: {
+            properties: {
+              diffuse: { elements: { type: "float32" } },
+              position: { elements: { type: "float32" } },
+              radius: { type: "float32" },
+            },
+            optionalProperties: lightOptions,
+          },
+          spot: {
+            properties: {
+              diffuse: { elements: { type: "float32" } },
+              position: { elements: { type: "float32" } },
+              radius: { type: "float32" },
+              direction: { elements: { type: "float32" } },
+              angle: { type: "float32" },
+              falloff: { type: "float32" },
+            },
+            optionalProperties: lightOptions,
+          },
+          area: {
+            properties: {
+              diffuse: { elements: { type: "float32" } },
+              rect: { elements: { type: "float32" } },
+              height: { type: "float32" },
+              radius: { type: "float32" },
+            },
+            optionalProperties: lightOptions,
+          },
+        },
+      },
+    },
+  },
 } as const;
 
 const ajv = new Ajv.default();
 const validate = ajv.compile<MapMetadata>(mapSchema);
+const validateTriggers = ajv.compile<MapTriggersSource>(triggersSchema);
+const validateLights = ajv.compile<MapLightsSource>(lightsSchema);
 
 export type MapMetadata = JTDDataType<typeof mapSchema>;
+export type MapTriggersSource = JTDDataType<typeof triggersSchema>;
+export type MapLightsSource = JTDDataType<typeof lightsSchema>;
 
 function validateMapMetadata(metadata: Object):
   | {
@@ -51,3 +135,56 @@ export async function loadMapMetadata(
 
   return validateMapMetadata(metadata.data);
 }
+
+/**
+ * Loads the trigger definitions for a map. Triggers are optional, so a map
+ * without a triggers.json has no triggers rather than being invalid.
+ */
+export async function loadMapTriggers(
+  mapAssetsRoot: string,
+  map: string,
+): Promise<
+  | { ok: true; triggers: MapTriggersSource }
+  | { ok: false; errors: ErrorObject<string, Record<string, any>, unknown>[] }
+> {
+  const triggersPath = path.join(mapAssetsRoot, map, "triggers.json");
+  if (!existsSync(triggersPath)) {
+    return { ok: true, triggers: {} };
+  }
+  const triggers = await loadJson(triggersPath);
+  if (!triggers.ok) {
+    return { ok: false, errors: [] };
+  }
+
+  if (validateTriggers(triggers.data)) {
+    return { ok: true, triggers: triggers.data as MapTriggersSource };
+  } else {
+    return { ok: false, errors: validateTriggers.errors! };
+  }
+}
+
+/**
+ * Loads the lights placed on a map. Like triggers, lights are optional.
+ */
+export async function loadMapLights(
+  mapAssetsRoot: string,
+  map: string,
+): Promise<
+  | { ok: true; lights: MapLightsSource }
+  | { ok: false; errors: ErrorObject<string, Record<string, any>, unknown>[] }
+> {
+  const lightsPath = path.join(mapAssetsRoot, map, "lights.json");
+  if (!existsSync(lightsPath)) {
+    return { ok: true, lights: [] };
+  }
+  const lights = await loadJson(lightsPath);
+  if (!lights.ok) {
+    return { ok: false, errors: [] };
+  }
+
+  if (validateLights(lights.data)) {
+    return { ok: true, lights: lights.data as MapLightsSource };
+  } else {
+    return { ok: false, errors: validateLights.errors! };
+  }
+}
@@ -113,7 +113,8 @@ void main() {
     }
   }
   o_normal = vec4(tn, transparency);
-  o_specular = vec4(1.0, 1.0, 1.0, transparency);
+  // water is fully specular, but flat so it doesn't occlude any light
+  o_specular = vec4(1.0, 0.0, 0.0, transparency);
   o_lighting = vec4(0.0,0.0,0.0,0.0);
   o_mask = vec4(0.0,0.0,0.0,0.0);
 }
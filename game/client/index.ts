@@ -1,69 +1,209 @@
 import {
+  AnimationSystem,
+  AudioManager,
+  Camera,
+  CoreComponents,
+  Entity,
+  Font,
   GameClient,
   GameContext,
+  InputActionConfig,
+  InputActionMap,
+  InputBindings,
   MapContainer,
+  MapManager,
+  MovementSystem,
+  ParticleEmitter,
+  ParticleSystem,
   ResourceLoader,
+  SaveMigrations,
+  TriggerEvent,
+  TriggerSystem,
+  UI,
+  UILabel,
+  UIPanel,
+  World,
+  addLights,
   coords,
-  loadMapContainer,
+  drawEntities,
+  loadFont,
   loadSpriteSheet,
   math,
 } from "@pixelheart/client";
-import { ReadonlyVec2, vec2, vec3, vec4 } from "@pixelheart/client/gl-matrix";
+import { vec2, vec3, vec4 } from "@pixelheart/client/gl-matrix";
 import {
   DeferredSpriteAnimator,
   DeferredSpriteEffect,
   DeferredSpriteSheet,
   DeferredSpriteTextures,
+  ParticleEffect,
+  PostProcessChain,
   SimpleSpriteEffect,
   SimpleSpriteSheet,
+  SimpleSpriteTextures,
   SolidEffect,
+  TilemapEffect,
+  UIEffect,
   deferredTextureLoader,
   simpleTextureLoader,
 } from "@pixelheart/effects";
+import vignetteShader from "@pixelheart/effects/shaders/post-vignette.frag";
 
+import defaultFont from "./fonts/default.js";
+import islandMap from "./maps/island.js";
 import overworldMap from "./maps/overworld.js";
 import { NearestBlurEffect } from "./nearest-blur.js";
+import { DUST, FIREFLIES, SPLASH } from "./particles.js";
+import dialogSound from "./sounds/dialog.js";
 import characterSprite from "./sprites/character.js";
+import particlesSprite from "./sprites/particles.js";
 import uiSprite from "./sprites/ui.js";
 import { WaterEffect } from "./water-effect.js";
 
 const CONTROLLER_DEADZONE = 0.25;
 const TOUCH_DEADZONE = 5;
-const CURRENT_SERIALIZATION_VERSION = 2;
+const CURRENT_SERIALIZATION_VERSION = 3;
 const MAX_TIME = 1000;
+// frames per ms for animated map tiles
+const TILE_FRAME_RATE = 4 / 1000;
+// how long in ms dialog text is shown for
+const DIALOG_DURATION = 4000;
+// how often in ms a random tile on screen is checked for a water splash
+const SPLASH_INTERVAL = 100;
+
+const INPUT_ACTIONS: InputActionConfig = {
+  actions: {
+    up: [
+      { type: "key", key: "w" },
+      { type: "key", key: "ArrowUp" },
+      { type: "gamepadButton", button: 12 },
+      {
+        type: "gamepadAxis",
+        axis: 1,
+        direction: -1,
+        deadZone: CONTROLLER_DEADZONE,
+      },
+      { type: "touchStick", direction: "up", deadZone: TOUCH_DEADZONE },
+    ],
+    down: [
+      { type: "key", key: "s" },
+      { type: "key", key: "ArrowDown" },
+      { type: "gamepadButton", button: 13 },
+      {
+        type: "gamepadAxis",
+        axis: 1,
+        direction: 1,
+        deadZone: CONTROLLER_DEADZONE,
+      },
+      { type: "touchStick", direction: "down", deadZone: TOUCH_DEADZONE },
+    ],
+    left: [
+      { type: "key", key: "a" },
+      { type: "key", key: "ArrowLeft" },
+      { type: "gamepadButton", button: 14 },
+      {
+        type: "gamepadAxis",
+        axis: 0,
+        direction: -1,
+        deadZone: CONTROLLER_DEADZONE,
+      },
+      { type: "touchStick", direction: "left", deadZone: TOUCH_DEADZONE },
+    ],
+    right: [
+      { type: "key", key: "d" },
+      { type: "key", key: "ArrowRight" },
+      { type: "gamepadButton", button: 15 },
+      {
+        type: "gamepadAxis",
+        axis: 0,
+        direction: 1,
+        deadZone: CONTROLLER_DEADZONE,
+      },
+      { type: "touchStick", direction: "right", deadZone: TOUCH_DEADZONE },
+    ],
+    interact: [
+      { type: "key", key: "e" },
+      { type: "key", key: "Enter" },
+      { type: "gamepadButton", button: 0 },
+      { type: "touchTap" },
+    ],
+    pause: [
+      { type: "key", key: "Escape" },
+      { type: "gamepadButton", button: 9 },
+    ],
+  },
+  axes: {
+    move: {
+      x: { negative: "left", positive: "right" },
+      y: { negative: "up", positive: "down" },
+    },
+  },
+};
+
+// map layers are drawn in order, ground & decoration first, then the
+// character and finally the overhead layer on top of everything else
+const GROUND_LAYER = 0;
+const DECORATION_LAYER = 1;
+const OVERHEAD_LAYER = 2;
+
+const MAPS = {
+  overworld: overworldMap,
+  island: islandMap,
+};
+const START_MAP = "overworld";
 
 export interface PersistentState {
   version: number;
+  map: string;
   mapVersion?: string;
   character: {
     position: [number, number];
     direction: string;
   };
+  bindings?: InputBindings;
 }
 
+export type GameComponents = CoreComponents<DeferredSpriteTextures>;
+
 export interface GameState {
+  world: World<GameComponents>;
+  movement: MovementSystem<GameComponents>;
+  triggers: TriggerSystem<GameComponents>;
+  maps: MapManager<DeferredSpriteTextures>;
+  // where the character is placed when the next map is entered, if not set
+  // the maps start position is used
+  spawn: vec2 | null;
   spriteEffect: DeferredSpriteEffect;
+  tilemapEffect: TilemapEffect;
+  particleEffect: ParticleEffect;
   simpleSpriteEffect: SimpleSpriteEffect;
+  postProcess: PostProcessChain;
   solidEffect: SolidEffect;
+  uiEffect: UIEffect;
   resources: ResourceLoader<{
     ui: SimpleSpriteSheet;
-    map: MapContainer<DeferredSpriteTextures>;
+    font: Font;
+    particles: DeferredSpriteSheet;
     character: {
       sprite: DeferredSpriteSheet;
-      animator: DeferredSpriteAnimator;
-      position: vec2;
-      relativePosition: vec2;
+      entity: Entity;
       speed: number;
-      boundingBox: vec4;
     };
   }>;
-  screen: {
-    absolutePosition: vec2;
-  };
+  camera: Camera;
+  audio: AudioManager;
+  particles: ParticleSystem;
+  dust: ParticleEmitter;
+  fireflies: ParticleEmitter;
+  splashTimer: number;
+  ui: UI<SimpleSpriteTextures>;
+  // dialog boxes are placed within the screen margins
+  uiMargins: UIPanel<SimpleSpriteTextures>;
+  dialog: { panel: UIPanel<SimpleSpriteTextures>; remaining: number } | null;
   animationTimer: number;
   waterEffect: WaterEffect;
   blurEffect: NearestBlurEffect;
-  moveTouch: { id: number; startPosition: ReadonlyVec2 } | null;
+  actions: InputActionMap;
   directionalLighting: Array<{
     ambient: vec3;
     direction: vec3;
@@ -73,6 +213,12 @@ export interface GameState {
 }
 
 export default class Game implements GameClient<GameState, PersistentState> {
+  // when bumping CURRENT_SERIALIZATION_VERSION, register a migration from the
+  // previous version here so that existing saves are upgraded
+  migrations = new SaveMigrations<PersistentState>(
+    CURRENT_SERIALIZATION_VERSION,
+  ).register(2, (state) => ({ ...state, version: 3, map: START_MAP }));
+
   constructor() {}
 
   onStart(ctx: GameContext, previousState?: PersistentState): GameState {
@@ -80,23 +226,61 @@ export default class Game implements GameClient<GameState, PersistentState> {
       previousState &&
       previousState.version !== CURRENT_SERIALIZATION_VERSION
     ) {
-      // if its possible to gracefully handle loading a previous version, do so
-      // otherwise, throw an error
+      // older versions are upgraded by the registered migrations before
+      // onStart is called, so any other version can't be loaded
       throw new Error(`Invalid save version ${previousState.version}`);
     }
 
+    ctx.actions.configure(INPUT_ACTIONS, previousState?.bindings);
+
+    const world = new World<GameComponents>();
+    const movement = new MovementSystem<GameComponents>();
+    const triggers = new TriggerSystem<GameComponents>((event, world) =>
+      onTrigger(state, event, world),
+    );
+    world
+      .addSystem(movement)
+      .addSystem(triggers)
+      .addSystem(new AnimationSystem());
+    // positioned each update to follow the character & camera
+    const particles = new ParticleSystem();
+    const dust = particles.emit(DUST, vec2.create());
+    const fireflies = particles.emit(FIREFLIES, vec2.create());
+
+    const startMap =
+      previousState && previousState.map in MAPS
+        ? (previousState.map as keyof typeof MAPS)
+        : START_MAP;
+
     const state: GameState = {
-      spriteEffect: new DeferredSpriteEffect(ctx),
+      world,
+      movement,
+      triggers,
+      maps: new MapManager(ctx, coords.TILE_SIZE, MAPS, deferredTextureLoader),
+      // saved positions are only valid if the map hasn't changed since
+      spawn:
+        previousState &&
+        previousState.map === startMap &&
+        previousState.mapVersion === MAPS[startMap].version
+          ? vec2.fromValues(
+              previousState.character.position[0],
+              previousState.character.position[1],
+            )
+          : null,
+      spriteEffect: new DeferredSpriteEffect(ctx, {
+        hdr: true,
+        bloom: { threshold: 0.9, strength: 0.6 },
+      }),
+      tilemapEffect: new TilemapEffect(ctx),
+      particleEffect: new ParticleEffect(ctx),
       simpleSpriteEffect: new SimpleSpriteEffect(ctx),
+      postProcess: new PostProcessChain(ctx),
       solidEffect: new SolidEffect(ctx),
+      uiEffect: new UIEffect(ctx),
       resources: new ResourceLoader({
         ui: loadSpriteSheet(ctx, uiSprite, simpleTextureLoader),
-        map: loadMapContainer(
-          ctx,
-          coords.TILE_SIZE,
-          overworldMap,
-          deferredTextureLoader,
-        ),
+        font: loadFont(ctx, defaultFont),
+        particles: loadSpriteSheet(ctx, particlesSprite, deferredTextureLoader),
         character: (async () => {
           const c = await loadSpriteSheet(
             ctx,
@@ -105,28 +289,30 @@ export default class Game implements GameClient<GameState, PersistentState> {
           );
           return {
             sprite: c,
-            animator: new DeferredSpriteAnimator(
-              c,
-              previousState ? previousState.character.direction : "walk_d",
-              8 / 1000,
-            ),
-            position:
-              previousState && previousState.mapVersion === overworldMap.version
-                ? vec2.fromValues(
-                    previousState.character.position[0],
-                    previousState.character.position[1],
-                  )
-                : vec2.fromValues(
-                    overworldMap.startPosition.x * coords.TILE_SIZE,
-                    overworldMap.startPosition.y * coords.TILE_SIZE,
-                  ),
-            relativePosition: vec2.create(),
-            boundingBox: vec4.fromValues(
-              c.walk_u.height - 14,
-              c.walk_u.width - 2,
-              c.walk_u.height - 4,
-              2,
-            ),
+            entity: world.create({
+              // positioned once the first map has been entered
+              transform: { position: vec2.create() },
+              velocity: { velocity: vec2.create() },
+              trigger: { active: [] },
+              // the bounding box covers the characters feet rather than the
+              // whole sprite
+              collider: {
+                boundingBox: vec4.fromValues(
+                  c.walk_u.height / 2 - 14,
+                  c.walk_u.width / 2 - 2,
+                  c.walk_u.height / 2 - 4,
+                  2 - c.walk_u.width / 2,
+                ),
+              },
+              animator: {
+                animator: new DeferredSpriteAnimator(
+                  c,
+                  previousState ? previousState.character.direction : "walk_d",
+                  8 / 1000,
+                ),
+                playing: false,
+              },
+            }),
             speed: 1,
           };
         })(),
@@ -135,66 +321,116 @@ export default class Game implements GameClient<GameState, PersistentState> {
       waterEffect: new WaterEffect(ctx),
       blurEffect: new NearestBlurEffect(ctx),
       animationTimer: 0,
-      screen: {
-        absolutePosition: vec2.create(),
-      },
-      moveTouch: null,
+      camera: new Camera({
+        deadZone: vec2.fromValues(8, 8),
+        smoothing: 60,
+      }),
+      particles,
+      dust,
+      fireflies,
+      splashTimer: 0,
+      audio: new AudioManager(),
+      ui: new UI(),
+      uiMargins: new UIPanel({ width: "fill", height: "fill", padding: 8 }),
+      dialog: null,
+      actions: ctx.actions,
       directionalLighting: [],
       day: 0,
     };
 
+    state.ui.add(state.uiMargins);
+    state.postProcess.addPass("vignette", vignetteShader, {
+      u_radius: 0.9,
+      u_softness: 0.8,
+      u_strength: 0.5,
+    });
+    state.maps.listen((map) => this.#onEnterMap(ctx, state, map));
+    state.maps.transition(startMap).catch((err) => {
+      console.error(`Failed to load map ${startMap}: ${err}`);
+    });
+
     return state;
   }
 
   onSave(state: GameState): PersistentState | null {
     let result = null;
     state.resources.ifReady((r) => {
+      const map = state.maps.current;
+      if (!map) {
+        return;
+      }
+      const character = getCharacter(state.world, r.character.entity);
       result = {
         version: CURRENT_SERIALIZATION_VERSION,
-        mapVersion: overworldMap.version,
+        map: map.name,
+        mapVersion: MAPS[map.name as keyof typeof MAPS].version,
         character: {
-          position: [r.character.position[0], r.character.position[1]],
-          direction: r.character.animator.getSpriteName(),
+          position: [
+            character.transform.position[0],
+            character.transform.position[1],
+          ],
+          direction: character.animator.animator.getSpriteName(),
         },
+        bindings: state.actions.getBindings(),
       };
     });
     return result;
   }
 
+  isReady(state: GameState): boolean {
+    // movement is ignored while the map is fading in, so replays have to wait
+    // until the transition has finished to stay in sync with the recording
+    return (
+      state.resources.ready &&
+      state.maps.current !== null &&
+      !state.maps.transitioning
+    );
+  }
+
+  #onEnterMap(
+    ctx: GameContext,
+    state: GameState,
+    map: MapContainer<DeferredSpriteTextures>,
+  ) {
+    state.movement.map = map.data;
+    state.triggers.setMap(state.world, map.data, map.triggers);
+    state.resources.ifReady((r) => {
+      const character = getCharacter(state.world, r.character.entity);
+      const config = MAPS[map.name as keyof typeof MAPS];
+      vec2.copy(
+        character.transform.position,
+        state.spawn ??
+          vec2.fromValues(
+            config.startPosition.x * coords.TILE_SIZE,
+            config.startPosition.y * coords.TILE_SIZE,
+          ),
+      );
+      state.spawn = null;
+
+      state.camera
+        .follow(character.transform.position)
+        .setBounds(
+          vec4.fromValues(
+            0,
+            map.data.width * coords.TILE_SIZE,
+            map.data.height * coords.TILE_SIZE,
+            0,
+          ),
+        )
+        .jumpTo(ctx, character.transform.position);
+    });
+  }
+
   onUpdate(ctx: GameContext, state: GameState, fixedDelta: number) {
     state.resources.ifReady((r) => {
-      const direction: { [key: string]: boolean } = {};
-
-      // gamepad input
-      const gp = ctx.getGamepad();
-      if (gp) {
-        if (
-          gp.buttons[12].pressed ||
-          Math.min(0.0, gp.axes[1] + CONTROLLER_DEADZONE) < 0
-        ) {
-          direction.up = true;
-        }
-        if (
-          gp.buttons[13].pressed ||
-          Math.max(0.0, gp.axes[1] - CONTROLLER_DEADZONE) > 0
-        ) {
-          direction.down = true;
-        }
-        if (
-          gp.buttons[14].pressed ||
-          Math.min(0.0, gp.axes[0] + CONTROLLER_DEADZONE) < 0
-        ) {
-          direction.left = true;
-        }
-        if (
-          gp.buttons[15].pressed ||
-          Math.max(0.0, gp.axes[0] - CONTROLLER_DEADZONE) > 0
-        ) {
-          direction.right = true;
-        }
+      // map switches need the character to be loaded so that it can be
+      // moved to its spawn position in the new map
+      state.maps.update(fixedDelta);
+      const map = state.maps.current;
+      if (!map) {
+        return;
       }
 
-      // keyboard input
       if (ctx.keys.pressed.has("f") && ctx.keys.down.has("Control")) {
         if (!document.fullscreenElement) {
           ctx.canvas.requestFullscreen();
@@ -202,64 +438,15 @@ export default class Game implements GameClient<GameState, PersistentState> {
           document.exitFullscreen();
         }
       }
-      if (ctx.keys.down.has("w") || ctx.keys.down.has("ArrowUp")) {
-        direction.up = true;
-      }
-      if (ctx.keys.down.has("s") || ctx.keys.down.has("ArrowDown")) {
-        direction.down = true;
-      }
-      if (ctx.keys.down.has("a") || ctx.keys.down.has("ArrowLeft")) {
-        direction.left = true;
-      }
-      if (ctx.keys.down.has("d") || ctx.keys.down.has("ArrowRight")) {
-        direction.right = true;
-      }
 
-      // touch input
-      for (let [k, v] of ctx.touches.down) {
-        if (state.moveTouch === null && Date.now() - v.started > 250) {
-          state.moveTouch = {
-            id: k,
-            startPosition: vec2.clone(v.position),
-          };
-        }
-      }
-      for (let [k, _] of ctx.touches.ended) {
-        if (state.moveTouch !== null && k === state.moveTouch.id) {
-          state.moveTouch = null;
-        }
-      }
-      if (state.moveTouch !== null) {
-        const currentTouch = ctx.touches.down.get(state.moveTouch.id);
-        if (currentTouch) {
-          if (
-            currentTouch.position[0] - state.moveTouch.startPosition[0] <
-            -TOUCH_DEADZONE
-          ) {
-            direction.left = true;
-          }
-          if (
-            currentTouch.position[0] - state.moveTouch.startPosition[0] >
-            TOUCH_DEADZONE
-          ) {
-            direction.right = true;
-          }
-          if (
-            currentTouch.position[1] - state.moveTouch.startPosition[1] <
-            -TOUCH_DEADZONE
-          ) {
-            direction.up = true;
-          }
-          if (
-            currentTouch.position[1] - state.moveTouch.startPosition[1] >
-            TOUCH_DEADZONE
-          ) {
-            direction.down = true;
-          }
-        } else {
-          state.moveTouch = null;
-        }
-      }
+      // the character can't move while fading between maps
+      const canMove = !state.maps.transitioning;
+      const direction = {
+        up: canMove && ctx.actions.down("up"),
+        down: canMove && ctx.actions.down("down"),
+        left: canMove && ctx.actions.down("left"),
+        right: canMove && ctx.actions.down("right"),
+      };
 
       let newDirection: keyof typeof characterSprite.sprites | null = null;
       // direction animations are mutually exclusive
@@ -273,9 +460,11 @@ export default class Game implements GameClient<GameState, PersistentState> {
         newDirection = "walk_d";
       }
 
+      const character = getCharacter(state.world, r.character.entity);
       if (newDirection) {
-        r.character.animator.setSpriteOrTick(newDirection, fixedDelta);
+        character.animator.animator.setSprite(newDirection);
       }
+      character.animator.playing = newDirection !== null;
 
       // provide a stable looping animation
       state.animationTimer += fixedDelta / 10;
@@ -284,7 +473,8 @@ export default class Game implements GameClient<GameState, PersistentState> {
       }
 
       // but movement is not
-      const movement = vec2.create();
+      const movement = character.velocity.velocity;
+      vec2.set(movement, 0, 0);
       if (direction.left) {
         movement[0]--;
       }
@@ -300,102 +490,26 @@ export default class Game implements GameClient<GameState, PersistentState> {
       // make sure angular movement isn't faster than up/down/left/right
       vec2.normalize(movement, movement);
       vec2.scale(movement, movement, r.character.speed);
-      vec2.add(movement, movement, r.character.position);
 
-      const renderOffset = vec2.fromValues(
-        r.character.animator.getSprite().width / 2,
-        r.character.animator.getSprite().height / 2,
-      );
+      state.world.update(ctx, fixedDelta);
 
-      // check the characters bounding box against the map
-      // top left
-      const isWalkable =
-        r.map.data.read(
-          Math.floor(
-            (movement[0] - renderOffset[0] + r.character.boundingBox[3]) /
-              coords.TILE_SIZE,
-          ),
-          Math.floor(
-            (movement[1] - renderOffset[1] + r.character.boundingBox[0]) /
-              coords.TILE_SIZE,
-          ),
-        ).walkable &&
-        // top right
-        r.map.data.read(
-          Math.floor(
-            (movement[0] - renderOffset[0] + r.character.boundingBox[1]) /
-              coords.TILE_SIZE,
-          ),
-          Math.floor(
-            (movement[1] - renderOffset[1] + r.character.boundingBox[0]) /
-              coords.TILE_SIZE,
-          ),
-        ).walkable &&
-        // bottom left
-        r.map.data.read(
-          Math.floor(
-            (movement[0] - renderOffset[0] + r.character.boundingBox[3]) /
-              coords.TILE_SIZE,
-          ),
-          Math.floor(
-            (movement[1] - renderOffset[1] + r.character.boundingBox[2]) /
-              coords.TILE_SIZE,
-          ),
-        ).walkable &&
-        // bottom right
-        r.map.data.read(
-          Math.floor(
-            (movement[0] - renderOffset[0] + r.character.boundingBox[1]) /
-              coords.TILE_SIZE,
-          ),
-          Math.floor(
-            (movement[1] - renderOffset[1] + r.character.boundingBox[2]) /
-              coords.TILE_SIZE,
-          ),
-        ).walkable;
+      if (canMove && ctx.actions.pressed("interact")) {
+        state.triggers.interact(state.world, ctx, r.character.entity);
+      }
 
-      if (isWalkable) {
-        const renderOffset = vec2.fromValues(
-          r.character.animator.getSprite().width / 2,
-          r.character.animator.getSprite().height / 2,
-        );
-        const mapSize = vec2.fromValues(
-          r.map.data.width * coords.TILE_SIZE,
-          r.map.data.height * coords.TILE_SIZE,
-        );
-        vec2.subtract(mapSize, mapSize, renderOffset);
-        vec2.min(r.character.position, movement, mapSize);
-        vec2.max(r.character.position, r.character.position, renderOffset);
+      if (state.dialog) {
+        state.dialog.remaining -= fixedDelta;
+        if (state.dialog.remaining <= 0) {
+          hideDialog(state);
+        }
       }
+      state.ui.update(ctx);
 
-      // character position relative to the top left of the screen
-      r.character.relativePosition[0] =
-        r.character.position[0] < ctx.screen.width / 2
-          ? r.character.position[0]
-          : r.character.position[0] >
-              r.map.data.width * coords.TILE_SIZE - ctx.screen.width / 2
-            ? r.character.position[0] -
-              r.map.data.width * coords.TILE_SIZE +
-              ctx.screen.width
-            : ctx.screen.width / 2;
-      r.character.relativePosition[1] =
-        r.character.position[1] < ctx.screen.height / 2
-          ? r.character.position[1]
-          : r.character.position[1] >
-              r.map.data.height * coords.TILE_SIZE - ctx.screen.height / 2
-            ? r.character.position[1] -
-              r.map.data.height * coords.TILE_SIZE +
-              ctx.screen.height
-            : ctx.screen.height / 2;
-
-      // Record the scroll offset of the screen
-      vec2.subtract(
-        state.screen.absolutePosition,
-        r.character.position,
-        r.character.relativePosition,
-      );
+      state.camera.update(ctx, fixedDelta);
+      state.audio.update(ctx, state.camera);
+      map.data.updateLoadedChunks(ctx, state.camera.absolutePosition);
 
-      r.map.data.updateScreenBuffer(ctx, state.screen.absolutePosition);
+      updateParticles(ctx, state, map, r.character.entity, fixedDelta);
     });
 
     let sin = Math.sin(state.animationTimer);
@@ -449,14 +563,14 @@ export default class Game implements GameClient<GameState, PersistentState> {
     ctx.gl.enable(ctx.gl.BLEND);
     ctx.gl.blendFunc(ctx.gl.SRC_ALPHA, ctx.gl.ONE_MINUS_SRC_ALPHA);
 
-    const ssp = coords.toAbsoluteTileFromAbsolute(
-      vec4.create(),
-      state.screen.absolutePosition,
-    );
+    // the animation timer advances 1 unit every 10ms
+    const tileFrame = state.animationTimer * 10 * TILE_FRAME_RATE;
 
     for (const l of state.directionalLighting) {
       state.spriteEffect.addDirectionalLight(l);
     }
+    // torches & other lights placed on the map or carried by entities
+    addLights(state.spriteEffect, state.world, state.maps.current ?? undefined);
     state.spriteEffect
       .addPointLight({
         diffuse: vec3.fromValues(
@@ -465,74 +579,55 @@ export default class Game implements GameClient<GameState, PersistentState> {
           0.3 * (1 - state.day),
         ),
         position: vec3.fromValues(
-          ctx.mouse.position[0] / ctx.screen.width,
-          ctx.mouse.position[1] / ctx.screen.height,
-          0.1,
+          state.camera.absolutePosition[0] + ctx.mouse.position[0],
+          state.camera.absolutePosition[1] + ctx.mouse.position[1],
+          16,
         ),
-        radius: 0.5,
+        radius: 96,
       })
       .use(
         {
           width: ctx.screen.width,
           height: ctx.screen.height,
+          absolutePosition: state.camera.absolutePosition,
         },
         (s, pass) => {
           state.resources.ifReady((r) => {
-            const tileWidth =
-              (ctx.screen.width + 2 * coords.TILE_SIZE) / coords.TILE_SIZE;
-            const tileHeight =
-              (ctx.screen.height + 2 * coords.TILE_SIZE) / coords.TILE_SIZE;
+            const map = state.maps.current;
+            if (!map) {
+              return;
+            }
+            const drawMapLayer = (layer: number) =>
+              state.tilemapEffect.draw(
+                ctx,
+                s,
+                map,
+                layer,
+                state.camera.absolutePosition,
+                tileFrame,
+              );
             if (pass === 0) {
-              // overdraw the screen by 1 tile at each edge to prevent tile pop-in
-              for (let x = -1; x <= tileWidth; ++x) {
-                for (let y = -1; y <= tileHeight; ++y) {
-                  const mapX = x + ssp[0];
-                  const mapY = y + ssp[1];
-
-                  const position = ctx.screen.toScreenSpace(
-                    vec4.create(),
-                    vec4.fromValues(
-                      y * coords.TILE_SIZE - ssp[3],
-                      x * coords.TILE_SIZE + coords.TILE_SIZE - ssp[2],
-                      y * coords.TILE_SIZE + coords.TILE_SIZE - ssp[3],
-                      x * coords.TILE_SIZE - ssp[2],
-                    ),
-                  );
-
-                  const tile = r.map.data.read(mapX, mapY);
-                  if (tile.index !== 0) {
-                    const tileName = r.map.spriteConfig.indexes[tile.index];
-                    r.map.sprite[tileName].draw(
-                      s,
-                      position,
-                      tile.spatialHash ? math.hash(mapX, mapY) : undefined,
-                    );
-                  }
-                }
-              }
+              drawMapLayer(GROUND_LAYER);
+              drawMapLayer(DECORATION_LAYER);
             } else {
-              const offset = vec2.fromValues(
-                r.character.animator.getSprite().width / 2,
-                r.character.animator.getSprite().height / 2,
-              );
-
-              r.character.animator.draw(
+              drawEntities(state.world, s, {
+                absolutePosition: state.camera.absolutePosition,
+                toScreenSpace: ctx.screen.toScreenSpace,
+              });
+              state.particleEffect.draw(
+                ctx,
                 s,
-                ctx.screen.toScreenSpace(
-                  vec4.create(),
-                  vec4.fromValues(
-                    Math.floor(r.character.relativePosition[1]) - offset[1],
-                    Math.floor(r.character.relativePosition[0]) + offset[0],
-                    Math.floor(r.character.relativePosition[1]) + offset[1],
-                    Math.floor(r.character.relativePosition[0]) - offset[0],
-                  ),
-                ),
+                state.particles,
+                r.particles,
+                state.camera.absolutePosition,
               );
+
+              drawMapLayer(OVERHEAD_LAYER);
             }
           });
         },
         (mask) => {
-          const pos = vec2.clone(state.screen.absolutePosition);
+          const pos = vec2.clone(state.camera.absolutePosition);
           vec2.div(
             pos,
             pos,
@@ -550,18 +645,14 @@ export default class Game implements GameClient<GameState, PersistentState> {
       );
 
     // draw the accumulated deferred lighting texture to the screen
-    state.simpleSpriteEffect.use((s) => {
-      const lightingTexture = state.spriteEffect.getLightingTexture();
-      if (lightingTexture) {
-        s.setTextures(lightingTexture);
-        s.draw(
-          vec4.fromValues(0.0, 1.0, 1.0, 0.0),
-          vec4.fromValues(0, lightingTexture.width, lightingTexture.height, 0),
-        );
-      }
+    const lightingTexture = state.spriteEffect.getLightingTexture();
+    if (lightingTexture) {
+      state.postProcess.draw(lightingTexture);
+    }
 
-      if (state.moveTouch !== null) {
-        const moveTouch = state.moveTouch;
+    state.simpleSpriteEffect.use((s) => {
+      const stickOrigin = ctx.actions.touchStickOrigin();
+      if (stickOrigin !== null) {
         s.setAlpha(0.5);
         state.resources.ifReady((r) => {
           r.ui.touch.draw(
@@ -569,15 +660,141 @@ export default class Game implements GameClient<GameState, PersistentState> {
             ctx.screen.toScreenSpace(
               vec4.create(),
               vec4.fromValues(
-                Math.round(moveTouch.startPosition[1]) - 32,
-                Math.round(moveTouch.startPosition[0]) + 32,
-                Math.round(moveTouch.startPosition[1]) + 32,
-                Math.round(moveTouch.startPosition[0]) - 32,
+                Math.round(stickOrigin[1]) - 32,
+                Math.round(stickOrigin[0]) + 32,
+                Math.round(stickOrigin[1]) + 32,
+                Math.round(stickOrigin[0]) - 32,
               ),
             ),
           );
         });
       }
     });
+
+    state.uiEffect.draw(state.ui);
+
+    const fade = state.maps.fade;
+    if (fade > 0) {
+      state.solidEffect.use((s) => {
+        s.draw(
+          vec4.fromValues(0.0, 1.0, 1.0, 0.0),
+          vec4.fromValues(0, 0, 0, fade),
+        );
+      });
+    }
+  }
+}
+
+function onTrigger(
+  state: GameState,
+  event: TriggerEvent,
+  world: World<GameComponents>,
+) {
+  const action = event.trigger.action;
+  switch (action.type) {
+    case "warp": {
+      const position = vec2.fromValues(
+        action.x * coords.TILE_SIZE,
+        action.y * coords.TILE_SIZE,
+      );
+      if (action.map === state.maps.current?.name) {
+        const transform = world.get(event.entity, "transform");
+        if (transform) {
+          vec2.copy(transform.position, position);
+        }
+      } else if (!state.maps.has(action.map)) {
+        console.warn(`Unable to warp to unknown map ${action.map}`);
+      } else if (!state.maps.transitioning) {
+        state.spawn = position;
+        state.maps.transition(action.map).catch((err) => {
+          console.error(`Failed to load map ${action.map}: ${err}`);
+        });
+      }
+      break;
+    }
+    case "dialog":
+      showDialog(state, action.text);
+      break;
+  }
+}
+
+function showDialog(state: GameState, text: string) {
+  state.resources.ifReady((r) => {
+    hideDialog(state);
+    const panel = new UIPanel<SimpleSpriteTextures>({
+      anchor: "bottom",
+      width: "fill",
+      padding: 6,
+      color: vec4.fromValues(0, 0, 0, 0.75),
+    }).add(new UILabel({ text, font: r.font, width: "fill", align: "center" }));
+    state.uiMargins.add(panel);
+    state.dialog = { panel, remaining: DIALOG_DURATION };
+    state.audio.play(dialogSound);
+  });
+}
+
+function hideDialog(state: GameState) {
+  if (state.dialog) {
+    state.uiMargins.remove(state.dialog.panel);
+    state.dialog = null;
+  }
+}
+
+function updateParticles(
+  ctx: GameContext,
+  state: GameState,
+  map: MapContainer<DeferredSpriteTextures>,
+  character: Entity,
+  fixedDelta: number,
+) {
+  // dust is kicked up from the bottom of the characters feet while walking
+  const transform = state.world.get(character, "transform")!;
+  const collider = state.world.get(character, "collider")!;
+  const animator = state.world.get(character, "animator")!;
+  vec2.set(
+    state.dust.position,
+    transform.position[0],
+    transform.position[1] + collider.boundingBox[2],
+  );
+  state.dust.rate = animator.playing ? DUST.rate : 0;
+
+  // fireflies fade in as night falls
+  vec2.copy(state.fireflies.position, state.camera.center);
+  state.fireflies.rate = FIREFLIES.rate * (1 - state.day);
+
+  // splashes appear on random water tiles around the screen
+  state.splashTimer -= fixedDelta;
+  while (state.splashTimer <= 0) {
+    state.splashTimer += SPLASH_INTERVAL;
+    const x = Math.floor(
+      (state.camera.absolutePosition[0] +
+        state.particles.random() * ctx.screen.width) /
+        coords.TILE_SIZE,
+    );
+    const y = Math.floor(
+      (state.camera.absolutePosition[1] +
+        state.particles.random() * ctx.screen.height) /
+        coords.TILE_SIZE,
+    );
+    const tile = map.data.read(x, y, GROUND_LAYER);
+    if (map.spriteConfig.indexes[tile.index] === "water") {
+      state.particles.emit(
+        SPLASH,
+        vec2.fromValues(
+          (x + 0.5) * coords.TILE_SIZE,
+          (y + 0.5) * coords.TILE_SIZE,
+        ),
+      );
+    }
   }
+
+  state.particles.update(fixedDelta);
+}
+
+function getCharacter(world: World<GameComponents>, entity: Entity) {
+  return {
+    transform: world.get(entity, "transform")!,
+    velocity: world.get(entity, "velocity")!,
+    animator: world.get(entity, "animator")!,
+  };
 }
@@ -0,0 +1,58 @@
+import { ParticleEmitterConfig } from "@pixelheart/client";
+
+// kicked up from the characters feet while walking
+export const DUST: ParticleEmitterConfig = {
+  rate: 12,
+  lifetime: [300, 500],
+  spread: [3, 1],
+  velocity: { min: [-8, -12], max: [8, -4] },
+  acceleration: [0, 20],
+  sprite: "dust",
+  colors: [
+    [0.8, 0.7, 0.55, 0.9],
+    [0.8, 0.7, 0.55, 0.0],
+  ],
+  maxParticles: 32,
+};
+
+// a single burst of droplets on a water tile
+export const SPLASH: ParticleEmitterConfig = {
+  rate: 0,
+  burst: 3,
+  duration: 0,
+  lifetime: [400, 600],
+  spread: [4, 2],
+  velocity: { min: [-6, -24], max: [6, -12] },
+  acceleration: [0, 60],
+  sprite: "splash",
+  colors: [
+    [0.85, 0.95, 1.0, 1.0],
+    [0.6, 0.8, 1.0, 0.0],
+  ],
+  emissive: [
+    [0.05, 0.1, 0.15],
+    [0.0, 0.0, 0.0],
+  ],
+};
+
+// drifts around the screen & glows at night
+export const FIREFLIES: ParticleEmitterConfig = {
+  rate: 6,
+  lifetime: [2000, 4000],
+  spread: [200, 120],
+  velocity: { min: [-6, -6], max: [6, 6] },
+  sprite: "firefly",
+  colors: [
+    [0.8, 1.0, 0.3, 0.0],
+    [0.8, 1.0, 0.3, 1.0],
+    [0.8, 1.0, 0.3, 1.0],
+    [0.8, 1.0, 0.3, 0.0],
+  ],
+  emissive: [
+    [0.0, 0.0, 0.0],
+    [0.7, 0.9, 0.2],
+    [0.7, 0.9, 0.2],
+    [0.0, 0.0, 0.0],
+  ],
+  maxParticles: 64,
+};
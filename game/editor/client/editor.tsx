@@ -1,7 +1,8 @@
 import React, { useEffect, useReducer, useCallback, useRef, useState } from "react";
 import { Root } from "react-dom/client";
 
-import { EditorContext, coords } from "@pixelheart/client";
+import { EditorContext, MapContainer, coords } from "@pixelheart/client";
+import { DeferredSpriteTextures } from "@pixelheart/effects";
 
 import { GameState } from "../../client/index.js";
 import {
@@ -13,7 +14,7 @@ import {
   IsEdgeTile
 } from "./index.js";
 import { VirtualizedCanvasList } from "./virtual-canvas-list.js";
-import { UndoIcon, RedoIcon, DrawIcon, EraseIcon } from "./tool-icons.js";
+import { UndoIcon, RedoIcon, DrawIcon, EraseIcon, TriggerIcon } from "./tool-icons.js";
 
 
 interface EditorClientState {
@@ -21,6 +22,9 @@ interface EditorClientState {
   editor: EditorState;
   ctx: EditorContext<EditorActions, EditorEvents>;
   tiles: Array<string>;
+  layers: number;
+  triggers: Array<{ id: number; label: string }>;
+  map: string | null;
 }
 
 // receive editor events as well as client initiated actions
@@ -41,9 +45,20 @@ type EditorUIActions =
     type: "SELECT_TILE";
     tile: string | null;
   }
+  | {
+    type: "SELECT_LAYER";
+    layer: number;
+  }
+  | {
+    type: "SELECT_TRIGGER";
+    trigger: number;
+  }
   | {
     type: "LOAD_TILES";
+    map: string;
     tiles: Array<string>;
+    layers: number;
+    triggers: Array<{ id: number; label: string }>;
   };
 
 export function renderEditor(
@@ -52,7 +67,7 @@ export function renderEditor(
   state: GameState,
   editorState: EditorState
 ) {
-  root.render(<EditorComponent tiles={[]} ctx={ctx} game={state} editor={editorState} />);
+  root.render(<EditorComponent tiles={[]} layers={1} triggers={[]} map={null} ctx={ctx} game={state} editor={editorState} />);
 }
 
 function reducer(
@@ -90,14 +105,33 @@ function reducer(
           selectedTile: action.tile,
         })
       };
+    case "SELECT_LAYER":
+      return {
+        ...state,
+        editor: Object.assign(state.editor, {
+          selectedLayer: action.layer,
+        })
+      };
+    case "SELECT_TRIGGER":
+      return {
+        ...state,
+        editor: Object.assign(state.editor, {
+          selectedTrigger: action.trigger,
+        })
+      };
     case "LOAD_TILES":
       const tiles = action.tiles;
       const selectedTile = (!state.editor.selectedTile || tiles.indexOf(state.editor.selectedTile) < 0) ? tiles[0] : state.editor.selectedTile;
+      const selectedLayer = Math.min(state.editor.selectedLayer, action.layers - 1);
       return {
         ...state,
+        map: action.map,
         tiles,
+        layers: action.layers,
+        triggers: action.triggers,
         editor: Object.assign(state.editor, {
           selectedTile,
+          selectedLayer,
         }),
       };
     case "EDIT_MAP_TILES_APPLY":
@@ -192,14 +226,27 @@ function EditorComponent(props: EditorClientState) {
   }, [dispatch, state.ctx.editorServer]);
 
   useEffect(() => {
-    // TODO need to notify when map is reloaded to reset this
-    state.game.resources.whenReady().then((resources) => {
+    // reload the tile palette whenever the game switches maps
+    const onMapChanged = (map: MapContainer<DeferredSpriteTextures>) => {
       dispatch({
         type: "LOAD_TILES",
-        tiles: Object.keys(resources.map.spriteConfig.sprites).filter(s => !IsEdgeTile(s)),
+        map: map.name,
+        tiles: Object.keys(map.spriteConfig.sprites).filter(s => !IsEdgeTile(s)),
+        layers: map.data.layers,
+        triggers: Object.entries(map.triggers).map(([id, t]) => ({
+          id: Number(id),
+          label: `${id}: ${t.action.type}`,
+        })),
       });
-    });
-  }, [state.game.resources]);
+    };
+    if (state.game.maps.current) {
+      onMapChanged(state.game.maps.current);
+    }
+    state.game.maps.listen(onMapChanged);
+    return () => {
+      state.game.maps.disconnect(onMapChanged);
+    };
+  }, [state.game.maps]);
 
   const minimapRef = useRef<HTMLCanvasElement>(null);
   useEffect(() => {
@@ -230,6 +277,14 @@ function EditorComponent(props: EditorClientState) {
             label="Erase">
             <EraseIcon />
           </EditorButton>
+          <EditorButton
+            selected={state.editor.selectedTool === "TRIGGER"}
+            onClick={() => {
+              dispatch({ type: "SELECT_TOOL", tool: "TRIGGER" });
+            }}
+            label="Triggers">
+            <TriggerIcon />
+          </EditorButton>
           <EditorButton
             onClick={() => {
               dispatch({ type: "INVOKE_TOOL", tool: "UNDO" });
@@ -250,7 +305,33 @@ function EditorComponent(props: EditorClientState) {
             label="Redo">
             <RedoIcon />
           </EditorButton>
+          {Array.from({ length: state.layers }, (_, layer) => (
+            <EditorButton
+              key={layer}
+              selected={state.editor.selectedLayer === layer}
+              onClick={() => {
+                dispatch({ type: "SELECT_LAYER", layer });
+              }}
+              label={`Layer ${layer + 1}`}
+              text={`L${layer + 1}`}
+            />
+          ))}
         </div>
+        <select
+          className="mr-2 border-2 rounded-sm border-gray-600 bg-gray-700 text-white text-xs font-bold h-6"
+          aria-label="Map"
+          value={state.map ?? ""}
+          onChange={(e) => {
+            // the editor always edits the games current map, so switching maps
+            // moves the game to the selected map
+            state.game.maps.transition(e.target.value).catch((err) => {
+              console.error(`Failed to load map ${e.target.value}: ${err}`);
+            });
+          }}>
+          {state.game.maps.names().map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
         <EditorButton
           onClick={() => {
             dispatch({ type: "TOGGLE_EDITOR" });
@@ -282,6 +363,20 @@ function EditorComponent(props: EditorClientState) {
             })}
             selectedItem={state.editor.selectedTile}
           /> : null}
+        {state.editor.selectedTool === "TRIGGER" ?
+          <ul className="absolute top-2 left-2 z-10 p-2 border-2 border-gray-600 bg-gray-900 opacity-90 overflow-y-auto">
+            {[{ id: 0, label: "None" }, ...state.triggers].map((t) => (
+              <li key={t.id} className="mb-2">
+                <EditorButton
+                  selected={state.editor.selectedTrigger === t.id}
+                  onClick={() => {
+                    dispatch({ type: "SELECT_TRIGGER", trigger: t.id });
+                  }}
+                  text={t.label}
+                />
+              </li>
+            ))}
+          </ul> : null}
       </div>
     </div>
   ) : (
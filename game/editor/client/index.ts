@@ -6,12 +6,18 @@ import {
   BaseEvents,
   EditorClient,
   EditorContext,
+  FrameBuffer,
+  GPUTexture,
+  MapChunk,
   MapContainer,
   MapTile,
   MapTileSource,
+  SaveMigrations,
   SpriteSheet,
   TEXTURE,
   coords,
+  createTexture,
+  decodeMapTile,
   loadSpriteSheetSync,
 } from "@pixelheart/client";
 import { vec2, vec4 } from "@pixelheart/client/gl-matrix";
@@ -29,6 +35,7 @@ import UndoStack from "./undo-stack.js";
 export type MapTileChange = {
   x: number;
   y: number;
+  layer: number;
   value: Partial<MapTileSource>;
 };
 
@@ -41,6 +48,7 @@ export type EditMapTilesAction = {
 export type MapTileChangeApply = {
   x: number;
   y: number;
+  layer: number;
   value: MapTile;
 };
 
@@ -59,21 +67,44 @@ export interface PersistentEditorState {
   active: boolean;
   selectedTool: EditorSelectableTool;
   selectedTile: string | null;
+  selectedLayer?: number;
+  selectedTrigger?: number;
 }
 
-export type EditorSelectableTool = "DRAW" | "ERASE";
+export type EditorSelectableTool = "DRAW" | "ERASE" | "TRIGGER";
 export type EditorInvokableTool = "UNDO" | "REDO";
 
+// the tiles of a single map chunk as drawn on the minimap. Chunks are only
+// redrawn when they change, so the minimap doesn't have to read every tile in
+// the map each frame
+type MinimapChunk = {
+  chunk: MapChunk;
+  version: number;
+  texture: GPUTexture | null;
+  frameBuffer: FrameBuffer<MinimapOutput> | null;
+};
+
+type MinimapOutput = {
+  outAttributes: { o_color: { type: "vec4"; location: 0 } };
+};
 export interface EditorState {
   active: boolean;
   selectedTool: EditorSelectableTool;
   selectedTile: string | null;
+  selectedLayer: number;
+  // the trigger painted by the trigger tool, 0 clears triggers
+  selectedTrigger: number;
   pendingToolInvocations: Array<EditorInvokableTool>;
   undoStack: UndoStack<Array<MapTileChange>>;
+  // the map being edited, which is always the games current map
+  currentMap: string | null;
   currentSelection: vec4 | null;
   minimap: HTMLCanvasElement | null;
   tiles: Map<string, HTMLCanvasElement>;
   minimapSprite: SpriteSheet<SimpleSpriteTextures> | null;
+  // keyed by chunk position. Chunks stay on the minimap after they have been
+  // unloaded from the map
+  minimapChunks: Map<string, MinimapChunk>;
   spriteEffect: SimpleSpriteEffect;
   solidEffect: SolidEffect;
 }
@@ -107,19 +138,22 @@ export function IsEdgeTile(sprite: string): boolean {
   return false;
 }
 
-export default class Editor
-  implements
-    EditorClient<
-      GameState,
-      EditorState,
-      PersistentEditorState,
-      EditorActions,
-      EditorEvents
-    >
-{
+export default class Editor implements EditorClient<
+  GameState,
+  EditorState,
+  PersistentEditorState,
+  EditorActions,
+  EditorEvents
+> {
   #root: Root | null = null;
   #pendingEvents: Array<EditorEvents>;
 
+  // when bumping CURRENT_SERIALIZATION_VERSION, register a migration from the
+  // previous version here so that existing editor state is upgraded
+  migrations = new SaveMigrations<PersistentEditorState>(
+    CURRENT_SERIALIZATION_VERSION,
+  );
+
   constructor() {
     this.#pendingEvents = [];
   }
@@ -134,23 +168,27 @@ export default class Editor
       previousState &&
       previousState.version !== CURRENT_SERIALIZATION_VERSION
     ) {
-      // if its possible to gracefully handle loading a previous version, do so
-      // otherwise, throw an error
+      // older versions are upgraded by the registered migrations before
+      // onStart is called, so any other version can't be loaded
       throw new Error(`Invalid save version ${previousState.version}`);
     }
 
     const editorState = {
       active: previousState ? previousState.active : false,
       selectedTile: previousState ? previousState.selectedTile : null,
+      selectedLayer: previousState?.selectedLayer ?? 0,
+      selectedTrigger: previousState?.selectedTrigger ?? 0,
       selectedTool: previousState
         ? previousState.selectedTool
         : ("DRAW" as EditorSelectableTool),
       pendingToolInvocations: [],
       undoStack: new UndoStack<Array<MapTileChange>>(),
+      currentMap: null,
       currentSelection: null,
       minimap: null,
       tiles: new Map(),
       minimapSprite: null,
+      minimapChunks: new Map(),
       solidEffect: new SolidEffect(ctx),
       spriteEffect: new SimpleSpriteEffect(ctx),
     };
@@ -183,6 +221,8 @@ export default class Editor
       active: editor.active,
       selectedTool: editor.selectedTool,
       selectedTile: editor.selectedTile,
+      selectedLayer: editor.selectedLayer,
+      selectedTrigger: editor.selectedTrigger,
     };
   }
 
@@ -200,15 +240,45 @@ export default class Editor
       return;
     }
 
-    state.resources.ifReady((r) => {
+    state.resources.ifReady(() => {
+      const map = state.maps.current;
+      if (!map) {
+        return;
+      }
+
+      if (editor.currentMap !== map.name) {
+        // the undo history & minimap sprites belong to the previous map
+        editor.currentMap = map.name;
+        editor.undoStack = new UndoStack<Array<MapTileChange>>();
+        editor.minimapSprite = null;
+        for (const entry of editor.minimapChunks.values()) {
+          if (entry.texture) {
+            ctx.gl.deleteTexture(entry.texture[TEXTURE]);
+          }
+        }
+        editor.minimapChunks.clear();
+        editor.currentSelection = null;
+        if (
+          editor.selectedTile &&
+          !map.spriteConfig.sprites.hasOwnProperty(editor.selectedTile)
+        ) {
+          editor.selectedTile = null;
+        }
+      }
+
       // process all editor server events
       if (this.#pendingEvents.length) {
         for (let evt of this.#pendingEvents) {
           switch (evt.type) {
             case "EDIT_MAP_TILES_APPLY": {
-              if (evt.map === r.map.name) {
+              if (evt.map === map.name) {
                 for (let change of evt.tiles) {
-                  r.map.data.write(change.x, change.y, change.value);
+                  map.data.write(
+                    change.x,
+                    change.y,
+                    change.layer,
+                    change.value,
+                  );
                 }
               }
               break;
@@ -228,7 +298,7 @@ export default class Editor
                 const action: EditMapTilesAction = {
                   type: "EDIT_MAP_TILES",
                   tiles,
-                  map: r.map.name,
+                  map: map.name,
                 };
                 ctx.editorServer.send(action);
               }
@@ -240,7 +310,7 @@ export default class Editor
                 const action: EditMapTilesAction = {
                   type: "EDIT_MAP_TILES",
                   tiles,
-                  map: r.map.name,
+                  map: map.name,
                 };
                 ctx.editorServer.send(action);
               }
@@ -253,7 +323,7 @@ export default class Editor
       const ap = coords.pickAbsoluteTileFromRelative(
         vec4.create(),
         ctx.mouse.position,
-        state.screen,
+        state.camera,
       );
 
       if (ctx.mouse.down[0]) {
@@ -266,58 +336,125 @@ export default class Editor
         const ly = Math.min(ap[1], editor.currentSelection[1]);
         const hy = Math.max(ap[1], editor.currentSelection[1]);
 
-        switch (editor.selectedTool) {
-          case "ERASE":
-            const dedupedActions = new Map<string, MapTileChange>();
-            for (let x = lx; x <= hx; ++x) {
-              for (let y = ly; y <= hy; ++y) {
-                this.#changeMapTile(dedupedActions, r.map, {
-                  x,
-                  y,
-                  value: { sprite: "" },
-                });
-              }
-            }
-            const action: EditMapTilesAction = {
-              type: "EDIT_MAP_TILES",
-              tiles: Array.from(dedupedActions.values()),
-              map: r.map.name,
-            };
-            if (this.#recordMapTileUndo(editor, action.tiles, r.map)) {
-              ctx.editorServer.send(action);
-            }
-            break;
-
-          case "DRAW":
-            const sprite = editor.selectedTile;
-            if (sprite) {
-              const dedupedActions = new Map<string, MapTileChange>();
-              for (let x = lx; x <= hx; ++x) {
-                for (let y = ly; y <= hy; ++y) {
-                  this.#changeMapTile(dedupedActions, r.map, {
-                    x,
-                    y,
-                    value: { sprite },
-                  });
-                }
-              }
-              const action: EditMapTilesAction = {
-                type: "EDIT_MAP_TILES",
-                tiles: Array.from(dedupedActions.values()),
-                map: r.map.name,
-              };
-              if (this.#recordMapTileUndo(editor, action.tiles, r.map)) {
-                ctx.editorServer.send(action);
-              }
-            }
-            break;
-        }
-
+        this.#applyTool(ctx, state, editor, map, lx, hx, ly, hy);
         editor.currentSelection = null;
       }
     });
   }
 
+  /**
+   * Applies the selected tool to the selected area once the chunks it touches
+   * (& the tiles around it, which edge tiles depend on) have loaded, so that
+   * the undo history & edge tiles aren't based on tiles that read as empty
+   */
+  async #applyTool(
+    ctx: EditorContext<EditorActions, EditorEvents>,
+    state: GameState,
+    editor: EditorState,
+    map: MapContainer<DeferredSpriteTextures>,
+    lx: number,
+    hx: number,
+    ly: number,
+    hy: number,
+  ) {
+    // the selection may change while the chunks load
+    const tool = editor.selectedTool;
+    const sprite = editor.selectedTile;
+    const layer = editor.selectedLayer;
+    const trigger = editor.selectedTrigger;
+    const chunkSize = map.data.chunkSize;
+    const loads: Array<Promise<MapChunk | null>> = [];
+    for (
+      let y = Math.floor((ly - 1) / chunkSize);
+      y <= Math.floor((hy + 1) / chunkSize);
+      ++y
+    ) {
+      for (
+        let x = Math.floor((lx - 1) / chunkSize);
+        x <= Math.floor((hx + 1) / chunkSize);
+        ++x
+      ) {
+        loads.push(map.data.loadChunk(x, y));
+      }
+    }
+    await Promise.all(loads);
+    if (state.maps.current !== map) {
+      return;
+    }
+
+    switch (tool) {
+      case "ERASE":
+        const dedupedActions = new Map<string, MapTileChange>();
+        for (let x = lx; x <= hx; ++x) {
+          for (let y = ly; y <= hy; ++y) {
+            this.#changeMapTile(dedupedActions, map, {
+              x,
+              y,
+              layer,
+              value: { sprite: "" },
+            });
+          }
+        }
+        const action: EditMapTilesAction = {
+          type: "EDIT_MAP_TILES",
+          tiles: Array.from(dedupedActions.values()),
+          map: map.name,
+        };
+        if (this.#recordMapTileUndo(editor, action.tiles, map)) {
+          ctx.editorServer.send(action);
+        }
+        break;
+
+      case "DRAW":
+        if (sprite) {
+          const dedupedActions = new Map<string, MapTileChange>();
+          for (let x = lx; x <= hx; ++x) {
+            for (let y = ly; y <= hy; ++y) {
+              this.#changeMapTile(dedupedActions, map, {
+                x,
+                y,
+                layer,
+                value: { sprite },
+              });
+            }
+          }
+          const action: EditMapTilesAction = {
+            type: "EDIT_MAP_TILES",
+            tiles: Array.from(dedupedActions.values()),
+            map: map.name,
+          };
+          if (this.#recordMapTileUndo(editor, action.tiles, map)) {
+            ctx.editorServer.send(action);
+          }
+        }
+        break;
+
+      case "TRIGGER": {
+        // triggers don't affect adjacent tiles, so unlike sprites there
+        // are no edge tiles to fix up
+        const action: EditMapTilesAction = {
+          type: "EDIT_MAP_TILES",
+          tiles: [],
+          map: map.name,
+        };
+        for (let x = lx; x <= hx; ++x) {
+          for (let y = ly; y <= hy; ++y) {
+            action.tiles.push({
+              x,
+              y,
+              layer,
+              value: { triggerId: trigger },
+            });
+          }
+        }
+        if (this.#recordMapTileUndo(editor, action.tiles, map)) {
+          ctx.editorServer.send(action);
+        }
+        break;
+      }
+    }
+  }
+
   #recordMapTileUndo(
     editor: EditorState,
     changes: Array<MapTileChange>,
@@ -326,7 +463,7 @@ export default class Editor
     const undoChanges: Array<MapTileChange> = [];
 
     for (const c of changes) {
-      const tile = map.data.read(c.x, c.y);
+      const tile = map.data.read(c.x, c.y, c.layer);
       const sprite = tile.index ? map.spriteConfig.indexes[tile.index] : "";
       const { index: _, ...source } = tile;
 
@@ -339,6 +476,7 @@ export default class Editor
       undoChanges.push({
         x: c.x,
         y: c.y,
+        layer: c.layer,
         value,
       });
     }
@@ -358,21 +496,22 @@ export default class Editor
     map: MapContainer<DeferredSpriteTextures>,
     change: MapTileChange,
   ) {
+    const { layer } = change;
     const applyChange = (c: MapTileChange) => {
       const { x, y } = c;
-      let existingChange = context.get(`${x},${y}`);
+      let existingChange = context.get(`${x},${y},${layer}`);
       if (!existingChange) {
-        existingChange = { x, y, value: { ...c.value } };
-        context.set(`${x},${y}`, existingChange);
+        existingChange = { x, y, layer, value: { ...c.value } };
+        context.set(`${x},${y},${layer}`, existingChange);
       }
 
       Object.assign(existingChange.value, c.value);
     };
 
     const getTileSprite = (x: number, y: number) => {
-      let existingChange = context.get(`${x},${y}`);
+      let existingChange = context.get(`${x},${y},${layer}`);
       if (!existingChange) {
-        const tileIndex = map.data.read(x, y).index;
+        const tileIndex = map.data.read(x, y, layer).index;
         return map.spriteConfig.indexes[tileIndex];
       } else {
         return existingChange.value.sprite || "";
@@ -385,6 +524,7 @@ export default class Editor
       value: { sprite: string };
       x: number;
       y: number;
+      layer: number;
     }>();
 
     // reset all adjacent edge tiles to their base sprite
@@ -402,6 +542,7 @@ export default class Editor
             const c = {
               x: change.x + offsetX,
               y: change.y + offsetY,
+              layer,
               value: { sprite: baseSprite },
             };
             applyChange(c);
@@ -411,6 +552,7 @@ export default class Editor
           toRecheck.push({
             x: change.x + offsetX,
             y: change.y + offsetY,
+            layer,
             value: { sprite },
           });
         }
@@ -420,6 +562,7 @@ export default class Editor
     const newEdges = Array<{
       x: number;
       y: number;
+      layer: number;
       value: { sprite: string };
     }>();
 
@@ -438,72 +581,84 @@ export default class Editor
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_tl" },
         });
       } else if (top && right) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_tr" },
         });
       } else if (top && !left && !right) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_t" },
         });
       } else if (topLeft && !left && !top) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_i_tl" },
         });
       } else if (topRight && !right && !top) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_i_tr" },
         });
       } else if (left && !top && !bottom) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_l" },
         });
       } else if (bottom && left) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_bl" },
         });
       } else if (bottom && right) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_br" },
         });
       } else if (bottom && !left && !right) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_b" },
         });
       } else if (bottomLeft && !left && !bottom) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_i_bl" },
         });
       } else if (bottomRight && !right && !bottom) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_i_br" },
         });
       } else if (right && !top && !bottom) {
         newEdges.push({
           x: check.x,
           y: check.y,
+          layer,
           value: { sprite: check.value.sprite + "_r" },
         });
       }
@@ -525,11 +680,15 @@ export default class Editor
     if (!editor.active) {
       return;
     }
-    state.resources.ifReady((r) => {
+    state.resources.ifReady(() => {
+      const map = state.maps.current;
+      if (!map) {
+        return;
+      }
       const ap = coords.pickAbsoluteTileFromRelative(
         vec4.create(),
         ctx.mouse.position,
-        state.screen,
+        state.camera,
       );
 
       const startAp = editor.currentSelection ?? ap;
@@ -538,7 +697,7 @@ export default class Editor
         vec4.create(),
         ap,
         {
-          ...state.screen,
+          ...state.camera,
           ...ctx.screen,
         },
       );
@@ -547,7 +706,7 @@ export default class Editor
         vec4.create(),
         startAp,
         {
-          ...state.screen,
+          ...state.camera,
           ...ctx.screen,
         },
       );
@@ -567,7 +726,7 @@ export default class Editor
                   height: TILE_SIZE,
                 },
                 (s) => {
-                  r.map.sprite[selectedTile].draw(
+                  map.sprite[selectedTile].draw(
                     s,
                     vec4.fromValues(0.0, 1.0, 1.0, 0.0),
                   );
@@ -641,33 +800,206 @@ export default class Editor
           break;
       }
 
-      state.solidEffect.use((s) => {
-        // character bounding box
-        const offset = vec2.fromValues(
-          r.character.animator.getSprite().width / 2,
-          r.character.animator.getSprite().height / 2,
-        );
-        s.draw(
-          ctx.screen.toScreenSpace(
-            vec4.create(),
+      if (editor.selectedTool === "TRIGGER") {
+        this.#drawTriggers(ctx, state, editor, map);
+        state.solidEffect.use((s) => {
+          s.setBorder(ctx.screen, 1);
+          s.draw(
             vec4.fromValues(
-              Math.floor(r.character.relativePosition[1]) -
-                offset[1] +
-                r.character.boundingBox[0],
-              Math.floor(r.character.relativePosition[0]) -
-                offset[0] +
-                r.character.boundingBox[1],
-              Math.floor(r.character.relativePosition[1]) -
-                offset[1] +
-                r.character.boundingBox[2],
-              Math.floor(r.character.relativePosition[0]) -
-                offset[0] +
-                r.character.boundingBox[3],
+              Math.min(cursorPos[0], cursorStartPos[0]),
+              Math.max(cursorPos[1], cursorStartPos[1]),
+              Math.max(cursorPos[2], cursorStartPos[2]),
+              Math.min(cursorPos[3], cursorStartPos[3]),
+            ),
+            vec4.fromValues(1.0, 1.0, 0, 0.5),
+            vec4.fromValues(1.0, 1.0, 1.0, 1.0),
+          );
+        });
+      }
+
+      state.solidEffect.use((s) => {
+        // entity collider bounding boxes
+        const relative = vec2.create();
+        for (const [_, c] of state.world.query("transform", "collider")) {
+          vec2.subtract(
+            relative,
+            c.transform.position,
+            state.camera.absolutePosition,
+          );
+          s.draw(
+            ctx.screen.toScreenSpace(
+              vec4.create(),
+              vec4.fromValues(
+                Math.floor(relative[1]) + c.collider.boundingBox[0],
+                Math.floor(relative[0]) + c.collider.boundingBox[1],
+                Math.floor(relative[1]) + c.collider.boundingBox[2],
+                Math.floor(relative[0]) + c.collider.boundingBox[3],
+              ),
             ),
+            vec4.fromValues(0.0, 0, 1.0, 0.5),
+          );
+        }
+      });
+    });
+  }
+
+  /**
+   * Redraws the minimap textures of any chunks that have loaded or changed
+   * since they were last drawn. Chunks that haven't been loaded yet are
+   * loaded one at a time whenever the map isn't loading anything else, so the
+   * whole map eventually appears on the minimap
+   */
+  #updateMinimapChunks(
+    ctx: EditorContext<EditorActions, EditorEvents>,
+    editor: EditorState,
+    map: MapContainer<DeferredSpriteTextures>,
+    minimapSprite: SpriteSheet<SimpleSpriteTextures>,
+    scale: number,
+  ) {
+    const data = map.data;
+    const chunksX = Math.ceil(data.width / data.chunkSize);
+    const chunksY = Math.ceil(data.height / data.chunkSize);
+    for (let y = 0; y < chunksY; ++y) {
+      for (let x = 0; x < chunksX; ++x) {
+        const key = `${x},${y}`;
+        const entry = editor.minimapChunks.get(key);
+        const chunk = data.getChunk(x, y);
+        if (chunk && entry) {
+          entry.chunk = chunk;
+        } else if (chunk) {
+          editor.minimapChunks.set(key, {
+            chunk,
+            version: -1,
+            texture: null,
+            frameBuffer: null,
+          });
+        } else if (!entry && !data.loading) {
+          data.loadChunk(x, y).then((loaded) => {
+            if (
+              loaded &&
+              editor.currentMap === map.name &&
+              !editor.minimapChunks.has(key)
+            ) {
+              editor.minimapChunks.set(key, {
+                chunk: loaded,
+                version: -1,
+                texture: null,
+                frameBuffer: null,
+              });
+            }
+          });
+        }
+      }
+    }
+
+    const size = data.chunkSize * scale;
+    const viewport = ctx.gl.getParameter(ctx.gl.VIEWPORT);
+    for (const entry of editor.minimapChunks.values()) {
+      if (!entry.texture || entry.texture.width !== size) {
+        if (entry.texture) {
+          ctx.gl.deleteTexture(entry.texture[TEXTURE]);
+        }
+        entry.texture = {
+          [TEXTURE]: createTexture(
+            ctx.gl,
+            ctx.gl.RGBA,
+            ctx.gl.RGBA,
+            ctx.gl.UNSIGNED_BYTE,
+            size,
+            size,
+            { filter: ctx.gl.NEAREST },
           ),
-          vec4.fromValues(0.0, 0, 1.0, 0.5),
+          width: size,
+          height: size,
+        };
+        entry.frameBuffer = new FrameBuffer<MinimapOutput>(
+          ctx.gl,
+          { outAttributes: { o_color: { type: "vec4", location: 0 } } },
+          { o_color: entry.texture },
         );
+        entry.version = -1;
+      }
+      if (entry.version === entry.chunk.version) {
+        continue;
+      }
+      entry.version = entry.chunk.version;
+
+      const chunk = entry.chunk;
+      entry.frameBuffer!.bind(() => {
+        ctx.gl.viewport(0, 0, size, size);
+        ctx.gl.clearColor(0, 0, 0, 0);
+        ctx.gl.clear(ctx.gl.COLOR_BUFFER_BIT);
+        editor.spriteEffect.use((s) => {
+          const tileScale = 1.0 / data.chunkSize;
+          for (let z = 0; z < data.layers; ++z) {
+            for (let y = 0; y < data.chunkSize; ++y) {
+              for (let x = 0; x < data.chunkSize; ++x) {
+                const offset =
+                  4 * ((z * data.chunkSize + y) * data.chunkSize + x);
+                const tile = decodeMapTile(chunk.data, offset);
+                if (tile.index > 0) {
+                  const sprite = map.spriteConfig.indexes[tile.index];
+                  minimapSprite[sprite].draw(
+                    s,
+                    vec4.fromValues(
+                      y * tileScale,
+                      (x + 1) * tileScale,
+                      (y + 1) * tileScale,
+                      x * tileScale,
+                    ),
+                  );
+                }
+              }
+            }
+          }
+        });
       });
+    }
+    ctx.gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+  }
+
+  #drawTriggers(
+    ctx: EditorContext<EditorActions, EditorEvents>,
+    state: GameState,
+    editor: EditorState,
+    map: MapContainer<DeferredSpriteTextures>,
+  ) {
+    const ssp = coords.toAbsoluteTileFromAbsolute(
+      vec4.create(),
+      state.camera.absolutePosition,
+    );
+    const tileWidth = ctx.screen.width / coords.TILE_SIZE + 1;
+    const tileHeight = ctx.screen.height / coords.TILE_SIZE + 1;
+
+    // highlight every tile on the selected layer that has a trigger, with the
+    // selected trigger highlighted more strongly than the others
+    state.solidEffect.use((s) => {
+      for (let x = 0; x <= tileWidth; ++x) {
+        for (let y = 0; y <= tileHeight; ++y) {
+          const tile = map.data.read(
+            x + ssp[0],
+            y + ssp[1],
+            editor.selectedLayer,
+          );
+          if (tile.triggerId === 0) {
+            continue;
+          }
+          s.draw(
+            ctx.screen.toScreenSpace(
+              vec4.create(),
+              vec4.fromValues(
+                y * coords.TILE_SIZE - ssp[3],
+                x * coords.TILE_SIZE + coords.TILE_SIZE - ssp[2],
+                y * coords.TILE_SIZE + coords.TILE_SIZE - ssp[3],
+                x * coords.TILE_SIZE - ssp[2],
+              ),
+            ),
+            tile.triggerId === editor.selectedTrigger
+              ? vec4.fromValues(1.0, 1.0, 0, 0.5)
+              : vec4.fromValues(1.0, 0.5, 0, 0.3),
+          );
+        }
+      }
     });
   }
 
@@ -685,7 +1017,11 @@ export default class Editor
       return;
     }
 
-    state.resources.ifReady((r) => {
+    state.resources.ifReady(() => {
+      const map = state.maps.current;
+      if (!map) {
+        return;
+      }
       if (!editor.minimap) {
         return;
       }
@@ -697,20 +1033,20 @@ export default class Editor
         return;
       }
 
-      const xScale = parent.clientWidth / r.map.data.width;
-      const yScale = parent.clientHeight / r.map.data.height;
+      const xScale = parent.clientWidth / map.data.width;
+      const yScale = parent.clientHeight / map.data.height;
       const scale = Math.max(1.0, Math.floor(Math.min(xScale, yScale)));
 
-      minimap.width = r.map.data.width * scale;
-      minimap.height = r.map.data.height * scale;
+      minimap.width = map.data.width * scale;
+      minimap.height = map.data.height * scale;
 
       renderScope(target, () => {
         const minimapSprite = (editor.minimapSprite =
           editor.minimapSprite ||
           loadSpriteSheetSync(
             ctx,
-            r.map.spriteConfig,
-            r.map.sprite[TEXTURE].diffuseTexture,
+            map.spriteConfig,
+            map.sprite[TEXTURE].diffuseTexture,
           ));
 
         // draw the ocean
@@ -720,43 +1056,45 @@ export default class Editor
             vec4.fromValues(50.0 / 255.0, 124.0 / 255.0, 224.0 / 255.0, 1.0),
           );
         });
+        this.#updateMinimapChunks(ctx, editor, map, minimapSprite, scale);
+
         // draw the tiles
         editor.spriteEffect.use((s) => {
-          const xScale = 1.0 / r.map.data.width;
-          const yScale = 1.0 / r.map.data.height;
-          for (let x = 0; x < r.map.data.width; ++x) {
-            for (let y = 0; y < r.map.data.height; ++y) {
-              const tile = r.map.data.read(x, y);
-              if (tile.index > 0) {
-                const sprite = r.map.spriteConfig.indexes[tile.index];
-                const position = vec4.fromValues(
-                  y * yScale,
-                  (x + 1) * xScale,
-                  (y + 1) * yScale,
-                  x * xScale,
-                );
-                minimapSprite[sprite].draw(s, position);
-              }
+          const xScale = map.data.chunkSize / map.data.width;
+          const yScale = map.data.chunkSize / map.data.height;
+          for (const { chunk, texture } of editor.minimapChunks.values()) {
+            if (!texture) {
+              continue;
             }
+            s.setTextures(texture);
+            s.draw(
+              vec4.fromValues(
+                chunk.y * yScale,
+                (chunk.x + 1) * xScale,
+                (chunk.y + 1) * yScale,
+                chunk.x * xScale,
+              ),
+              vec4.fromValues(0, texture.width, texture.height, 0),
+            );
           }
         });
         // draw the screen position
         editor.solidEffect.use((s) => {
           const position = vec4.fromValues(
-            state.screen.absolutePosition[1],
-            state.screen.absolutePosition[0] + ctx.screen.width,
-            state.screen.absolutePosition[1] + ctx.screen.height,
-            state.screen.absolutePosition[0],
+            state.camera.absolutePosition[1],
+            state.camera.absolutePosition[0] + ctx.screen.width,
+            state.camera.absolutePosition[1] + ctx.screen.height,
+            state.camera.absolutePosition[0],
           );
           vec4.scale(position, position, 1.0 / coords.TILE_SIZE);
           vec4.multiply(
             position,
             position,
             vec4.fromValues(
-              1.0 / r.map.data.height,
-              1.0 / r.map.data.width,
-              1.0 / r.map.data.height,
-              1.0 / r.map.data.width,
+              1.0 / map.data.height,
+              1.0 / map.data.width,
+              1.0 / map.data.height,
+              1.0 / map.data.width,
             ),
           );
           s.setBorder(minimap, 2);
@@ -774,7 +1112,9 @@ export default class Editor
         tileCanvas.height = coords.TILE_SIZE * 4;
 
         const target = tileCanvas.getContext("bitmaprenderer");
-        if (!target) {
+        // tiles from the previous map may still be listed briefly after
+        // switching maps
+        if (!target || !map.spriteConfig.sprites.hasOwnProperty(tileId)) {
           continue;
         }
 
@@ -801,7 +1141,7 @@ export default class Editor
               height: tileCanvas.height,
             },
             (s) => {
-              r.map.sprite[tileId].draw(s, vec4.fromValues(0.0, 1.0, 1.0, 0.0));
+              map.sprite[tileId].draw(s, vec4.fromValues(0.0, 1.0, 1.0, 0.0));
             },
           );
 
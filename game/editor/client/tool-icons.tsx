@@ -16,3 +16,7 @@ export function UndoIcon() {
 export function RedoIcon() {
   return <svg className="min-w-3 fill-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"> <path d="M16 4h-2v2h2v2H6v2H4v8h2v2h6v-2H6v-8h10v2h-2v2h2v-2h2v-2h2V8h-2V6h-2V4z" fill="currentColor"/> </svg>
 }
+
+export function TriggerIcon() {
+  return <svg className="min-w-3 fill-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"> <path d="M4 2h2v20H4V2zm4 0h12v2h-2v2h-2v2h2v2h2v2H8V2zm2 2v6h6V8h-2V6h2V4h-6z" fill="currentColor"/> </svg>
+}
@@ -4,7 +4,12 @@ import path from "path";
 import sharp from "sharp";
 import url from "url";
 
-import { MapTile, MapTileSource, encodeMapTile } from "@pixelheart/client";
+import {
+  DEFAULT_MAP_CHUNK_SIZE,
+  MapTile,
+  MapTileSource,
+  encodeMapTile,
+} from "@pixelheart/client";
 import {
   EditorServerConnection,
   type MapMetadata,
@@ -19,16 +24,22 @@ import {
   type EditorEvents,
 } from "../client/index.js";
 
+interface WorkingMapChunk {
+  width: number;
+  height: number;
+  channels: sharp.Channels;
+  buffer: Buffer;
+  path: string;
+  dirty: boolean;
+}
+
 interface WorkingMapData {
   lastAccess: number;
   lastWrite: number;
-  image: {
-    width: number;
-    height: number;
-    channels: sharp.Channels;
-    buffer: Buffer;
-    path: string;
-  };
+  // map chunk images are only loaded once a tile in them is edited
+  chunks: Map<string, WorkingMapChunk>;
+  chunkSize: number;
+  path: string;
   src: {
     data: { [x: string]: { [y: string]: { [z: string]: MapTileSource } } };
     meta: MapMetadata;
@@ -92,15 +103,21 @@ class EditorServer {
       if (value.lastWrite <= value.lastAccess) {
         value.lastWrite = Date.now();
         try {
-          await sharp(value.image.buffer, {
-            raw: {
-              width: value.image.width!,
-              height: value.image.height!,
-              channels: value.image.channels!,
-            },
-          })
-            .png()
-            .toFile(value.image.path);
+          for (const chunk of value.chunks.values()) {
+            if (!chunk.dirty) {
+              continue;
+            }
+            chunk.dirty = false;
+            await sharp(chunk.buffer, {
+              raw: {
+                width: chunk.width,
+                height: chunk.height,
+                channels: chunk.channels,
+              },
+            })
+              .png()
+              .toFile(chunk.path);
+          }
           await fs.writeFile(
             value.src.path,
             JSON.stringify(value.src.data, null, 2),
@@ -146,6 +163,16 @@ class EditorServer {
     }
 
     for (const change of action.tiles) {
+      if (
+        change.layer < 0 ||
+        change.layer >= map.src.meta.layers ||
+        change.x < 0 ||
+        change.x >= map.src.meta.width ||
+        change.y < 0 ||
+        change.y >= map.src.meta.height
+      ) {
+        continue;
+      }
       if (!map.src.data[change.x]) {
         map.src.data[change.x] = {};
       }
@@ -154,11 +181,13 @@ class EditorServer {
       }
 
       const src: MapTileSource = {
-        ...(map.src.data[change.x][change.y][0] || {
+        ...(map.src.data[change.x][change.y][change.layer] || {
           // TODO deal with map defaults....
           // should be loaded from the map folder along with tile groupings...
-          walkable: change.value.sprite !== "",
-          spatialHash: change.value.sprite !== "",
+          // tiles with only a trigger painted on them have no sprite
+          sprite: "",
+          walkable: !!change.value.sprite,
+          spatialHash: !!change.value.sprite,
           animated: false,
           triggerId: 0,
         }),
@@ -169,26 +198,42 @@ class EditorServer {
 
       const value: MapTile = {
         ...srcWithoutSprite,
-        index: change.value.sprite ? revIndex.data[change.value.sprite] : 0,
+        index: src.sprite ? revIndex.data[src.sprite] : 0,
       };
 
       event.tiles.push({
         x: change.x,
         y: change.y,
+        layer: change.layer,
         value,
       });
 
-      if (value.index) {
-        map.src.data[change.x][change.y][0] = src;
-      } else if (change.value.sprite === "") {
-        delete map.src.data[change.x][change.y][0];
+      if (value.index || value.triggerId) {
+        map.src.data[change.x][change.y][change.layer] = src;
+      } else if (!src.sprite) {
+        delete map.src.data[change.x][change.y][change.layer];
+      }
+
+      const chunkX = Math.floor(change.x / map.chunkSize);
+      const chunkY = Math.floor(change.y / map.chunkSize);
+      const chunk = await this.#getMapChunk(map, chunkX, chunkY);
+      if (!chunk) {
+        console.error(
+          `Failed to load chunk (${chunkX},${chunkY}) of map ${action.map}`,
+        );
+        continue;
       }
 
+      // layers are stored as planes stacked vertically in each chunk image
+      const localX = change.x - chunkX * map.chunkSize;
+      const localY =
+        change.y - chunkY * map.chunkSize + change.layer * map.chunkSize;
       encodeMapTile(
-        map.image.buffer,
-        (change.x + change.y * map.image.width!) * map.image.channels!,
+        chunk.buffer,
+        (localX + localY * chunk.width) * chunk.channels,
         value,
       );
+      chunk.dirty = true;
     }
     return event;
   }
@@ -200,10 +245,7 @@ class EditorServer {
         return null;
       }
 
-      const imagePath = path.join(this.#outputRoot, "maps", `${map}.png`);
       const mapsPath = path.join(dirname, "..", "..", "assets", "maps");
-      const image = sharp(imagePath);
-      const metadata = await image.metadata();
       const result = await loadMapMetadata(mapsPath, map);
       if (!result.ok) {
         return null;
@@ -216,13 +258,9 @@ class EditorServer {
       existing = {
         lastAccess: Date.now(),
         lastWrite: 0,
-        image: {
-          width: metadata.width!,
-          height: metadata.height!,
-          channels: metadata.channels!,
-          buffer: await image.raw().toBuffer(),
-          path: imagePath,
-        },
+        chunks: new Map(),
+        chunkSize: result.metadata.chunkSize ?? DEFAULT_MAP_CHUNK_SIZE,
+        path: path.join(this.#outputRoot, "maps", map),
         src: {
           data: mapData.data,
           meta: result.metadata,
@@ -238,6 +276,34 @@ class EditorServer {
     }
     return existing;
   }
+
+  async #getMapChunk(
+    map: WorkingMapData,
+    x: number,
+    y: number,
+  ): Promise<WorkingMapChunk | null> {
+    const key = `${x}_${y}`;
+    let chunk = map.chunks.get(key);
+    if (!chunk) {
+      const chunkPath = path.join(map.path, `${key}.png`);
+      try {
+        const image = sharp(chunkPath);
+        const metadata = await image.metadata();
+        chunk = {
+          width: metadata.width!,
+          height: metadata.height!,
+          channels: metadata.channels!,
+          buffer: await image.raw().toBuffer(),
+          path: chunkPath,
+          dirty: false,
+        };
+      } catch (err) {
+        return null;
+      }
+      map.chunks.set(key, chunk);
+    }
+    return chunk;
+  }
 }
 
 new EditorServer();